@@ -0,0 +1,63 @@
+/**
+ * Reminder service worker for Calendar + To-Do
+ * - The page decides when a reminder is due and shows it through this worker's registration,
+ *   so notifications appear (with actions) while the tab is in the background
+ * - Snooze actions are recorded in IndexedDB, so they count even when no page is open; the pages
+ *   pick them up on their next check
+ * - Clicks are passed back to an open page, or open one with the reminder in its URL, so the page can offer
+ *   a snooze where the browser shows no notification actions
+ */
+
+const SNOOZE_ACTIONS = { "snooze-10": 10, "snooze-60": 60 };
+
+// Shared with useReminders.ts
+const DB_NAME = "calendar_reminders";
+const STORE = "snoozes";
+
+const openDB = () =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+async function recordSnooze(key, minutes) {
+  const db = await openDB();
+  await new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE, "readwrite");
+    transaction.objectStore(STORE).put({ minutes, at: Date.now() }, key);
+    transaction.oncomplete = resolve;
+    transaction.onerror = () => reject(transaction.error);
+  });
+  db.close();
+}
+
+self.addEventListener("install", () => self.skipWaiting());
+self.addEventListener("activate", (event) => event.waitUntil(self.clients.claim()));
+
+self.addEventListener("notificationclick", (event) => {
+  const { notification, action } = event;
+  const { key, url } = notification.data || {};
+  notification.close();
+
+  event.waitUntil((async () => {
+    const windows = await self.clients.matchAll({ type: "window", includeUncontrolled: true });
+    const minutes = SNOOZE_ACTIONS[action];
+    if (minutes) {
+      await recordSnooze(key, minutes);
+      windows.forEach((client) => client.postMessage({ type: "reminder-snooze", key }));
+      return;
+    }
+    const client = windows[0];
+    if (client) {
+      await client.focus();
+      client.postMessage({ type: "reminder-open", key, title: notification.title });
+    } else if (url) {
+      const target = new URL(url);
+      target.searchParams.set("reminder", key);
+      target.searchParams.set("reminderTitle", notification.title);
+      await self.clients.openWindow(target.href);
+    }
+  })());
+});
@@ -3,6 +3,8 @@ import { Calendar, CheckCheck, NotebookText, Timer, BookMarked, Calculator, Sun,
 import GPACalculator from "./GPACalculator";
 import CalendarToDo from "./CalendarToDo";
 import Flashcards from "./Flashcards";
+import ReminderSnooze from "./calendar/ReminderSnooze";
+import { ClickedReminder, useReminders } from "./calendar/useReminders";
 
 /**
  * BA14 Grid — Apple × Swiss blend
@@ -11,6 +13,7 @@ import Flashcards from "./Flashcards";
  * - System preference on first load, localStorage persistence
  * - Strict grid (3×2), Apple-style cards, Swiss left/bottom alignment
  * - Responsive (1/2/3 cols), ≥44px hit targets, WCAG AA
+ * - Calendar reminders are delivered while the page is open; a clicked one can be snoozed from the page
  */
 
 // ---- Theme hook -------------------------------------------------------------
@@ -200,6 +203,14 @@ export default function BA14GridPage() {
   const [showFlashcards, setShowFlashcards] = useState(false);
   const [isTransitioning, setIsTransitioning] = useState(false);
   const [isLeavingPage, setIsLeavingPage] = useState(false);
+
+  const [clickedReminder, setClickedReminder] = useState<ClickedReminder | null>(null);
+
+  // Clicking a reminder notification opens the calendar and offers a snooze
+  useReminders(lang === "粵" ? "粵" : "EN", (reminder) => {
+    setShowCalendar(true);
+    setClickedReminder(reminder);
+  });
   
   const t = (k: keyof typeof STR["EN"]) => {
     const str = lang === "EN" ? STR.EN[k] : (STR as any)["粵"][k];
@@ -295,6 +306,15 @@ export default function BA14GridPage() {
       
       {/* Calendar + To-Do Modal */}
       {showCalendar && <CalendarToDo theme={theme} lang={lang} onClose={() => setShowCalendar(false)} />}
+
+      {/* Snooze for a clicked reminder */}
+      {clickedReminder && (
+        <ReminderSnooze
+          lang={lang === "粵" ? "粵" : "EN"}
+          reminder={clickedReminder}
+          onDone={() => setClickedReminder(null)}
+        />
+      )}
       
       {/* Flashcards Modal */}
       {showFlashcards && <Flashcards theme={theme} lang={lang} onClose={() => setShowFlashcards(false)} />}
@@ -1,12 +1,55 @@
-import React, { useState, useMemo, useEffect } from "react";
-import { Calendar as CalendarIcon, Plus, Check, Trash2, X, ChevronLeft, ChevronRight, List, Filter } from "lucide-react";
+import React, { useState, useMemo, useEffect, useRef } from "react";
+import { Calendar as CalendarIcon, Plus, Check, Trash2, X, ChevronLeft, ChevronRight, List, Pencil, Repeat, Upload, Download, Clock, Bell, BellOff, Flag, ListChecks, AlarmClock, StickyNote, ArrowUpDown, GripVertical, CheckSquare, Square, GraduationCap, MapPin, ClipboardCheck, ArrowRight, AlertCircle, MoonStar, CalendarHeart, SquareKanban, FolderKanban, WandSparkles, Hourglass } from "lucide-react";
+import { WeekStart, addDays, addDaysToKey, formatDuration, formatTime, parseDateKey, startOfWeek, toDateKey, weekdayNames } from "./calendar/dates";
+import { RecurrenceRule, alignStart, currentOccurrence, expandTasks, overrideOccurrence } from "./calendar/recurrence";
+import RecurrenceEditor, { describeRecurrence } from "./calendar/RecurrenceEditor";
+import { exportIcs, mergeIcs, parseIcs } from "./calendar/ics";
+import TimeGrid, { GridSession } from "./calendar/TimeGrid";
+import YearHeatmap from "./calendar/YearHeatmap";
+import ReminderPicker, { describeReminder } from "./calendar/ReminderPicker";
+import type { Reminder } from "./calendar/reminders";
+import { remindersEnabled, remindersSupported, setRemindersEnabled } from "./calendar/useReminders";
+import { parseQuickAdd } from "./calendar/quickAdd";
+import QuickAddPreview from "./calendar/QuickAddPreview";
+import { useDragMove } from "./calendar/useDragMove";
+import { EMPTY_FILTER, SmartList, TaskFilter, filterDates, loadSmartLists, matchesFilter, saveSmartLists } from "./calendar/filters";
+import TaskFilterBar from "./calendar/TaskFilterBar";
+import { Semester, classesBetween, loadTimetable, saveTimetable, teachingWeek } from "./calendar/timetable";
+import TimetableEditor from "./calendar/TimetableEditor";
+import WeeklyReview from "./calendar/WeeklyReview";
+import TaskBoard, { BoardGrouping } from "./calendar/TaskBoard";
+import { Project, createsCycle, loadProjects, saveProjects } from "./calendar/projects";
+import ProjectsPanel from "./calendar/ProjectsPanel";
+import { Plan, WorkingHours, loadWorkingHours, planWork, saveWorkingHours } from "./calendar/planner";
+import PlannerPanel from "./calendar/PlannerPanel";
+import { FIRST_HOLIDAY_YEAR, LAST_HOLIDAY_YEAR, hasHolidays, holidayOn, loadHkOverlay, lunarDate, lunarDayName, lunarLabel, lunarMonthName, saveHkOverlay } from "./calendar/hkCalendar";
+import TaskDetail, { PRIORITY_COLORS, TaskDetails, describePriority, priorityRank, subtaskProgress } from "./calendar/TaskDetail";
+import type { Category, Task, TaskOccurrence } from "./calendar/types";
 
 /**
  * Calendar + To-Do — Apple × Swiss blend (Enhanced)
  * - Interactive monthly calendar view
  * - Task management with categories/labels
+ * - Repeating tasks (daily, weekly, monthly) with per-occurrence completion and edits
+ * - Timed and all-day tasks; week and day views with hourly slots and a "now" line
+ * - .ics import/export to and from Google Calendar, Outlook and university calendars
+ * - Per-task reminders as system notifications, with snooze
+ * - Task details: notes, priority, due time and a subtask checklist; sort by priority
+ * - Drag tasks onto a day to reschedule them (mouse, pen or touch), several at once when selected;
+ *   from the keyboard, arrow keys on a task's handle move it by a day or a week
+ * - Semester timetable: weekly classes as a read-only layer, with the teaching week in the header
+ * - Overdue tasks, and missed occurrences of repeating ones, gather above today's list and roll forward in one click;
+ *   a weekly review triages what was missed
+ * - Year view: a heatmap of each day's load by task count or priority, to spot crunch weeks; click a day to open its month
+ * - Month and weekday names from Intl in the active language; weeks start on Sunday or Monday as chosen
+ * - Optional Hong Kong overlay: general holidays and lunar dates (初一, 十五) on the month grid, from bundled data
+ * - Quick add: "Essay draft next Fri 5pm #study" or "下星期五 交功課" fills in date, time and category
  * - Color-coded categories
  * - All tasks view + filtered by date view
+ * - Board view: cards in To do / Doing / Done or category columns, dragged between them
+ * - Projects: a deadline, ordered milestones and tasks that wait on one another, with progress, slip risk and the next action
+ * - Planner: time-blocks estimated effort into free working hours before each task is due, to accept or regenerate
+ * - Search the all-tasks view by text, dates, status, categories and priority; save filters as smart lists
  * - Visual task indicators on calendar
  * - Dark mode support
  * - Smooth motion graphics
@@ -20,13 +63,67 @@ const TRANSLATIONS = {
     allTasks: "All Tasks",
     pending: "pending",
     completed: "completed",
-    addTask: "Add a new task...",
+    addTask: "Add a task — e.g. Essay draft next Fri 5pm #study",
     add: "Add",
     noTasks: "No tasks for this day",
     noTasksYet: "No tasks yet",
     getStarted: "Add a task to get started",
     createFirst: "Create your first task",
-    newCategory: "New"
+    newCategory: "New",
+    edit: "Edit",
+    save: "Save",
+    cancel: "Cancel",
+    thisOccurrence: "This occurrence",
+    allOccurrences: "All occurrences",
+    deleteWhich: "Delete:",
+    editWhich: "Apply to:",
+    importIcs: "Import .ics",
+    exportIcs: "Export .ics",
+    exportAll: "All tasks",
+    importResult: (added: number, updated: number) => `Imported ${added} new and updated ${updated} existing task${updated === 1 ? '' : 's'}.`,
+    importFailed: "Couldn't read this calendar file. Please choose an .ics file.",
+    importUnsupported: (n: number) => ` ${n} repeating event${n === 1 ? '' : 's'} use${n === 1 ? 's' : ''} a rule that can't be repeated here, so only the first occurrence was imported.`,
+    allDay: "All day",
+    startTime: "Start time",
+    endTime: "End time",
+    views: { year: "Year", month: "Month", week: "Week", day: "Day" },
+    remindersOn: "Reminders on",
+    remindersOff: "Reminders off",
+    notificationsBlocked: "Notifications are blocked for this site. Allow them in your browser's site settings to get reminders.",
+    notificationsUnsupported: "This browser can't show notifications.",
+    details: "Details",
+    due: "Due",
+    sortByPriority: "Sort by priority",
+    sortByTime: "Sort by time",
+    moveHint: "Drag onto a day to move. Arrow keys move by a day or a week.",
+    select: "Select",
+    selectAll: "Select all",
+    selected: (count: number) => `${count} selected`,
+    moveTo: "Move to",
+    done: "Done",
+    tasksCount: (count: number) => `${count} tasks`,
+    timetable: "Timetable",
+    teachingWeek: (week: number) => `Teaching week ${week}`,
+    semesterBreak: "Semester break",
+    classes: "Classes",
+    overdue: "Overdue",
+    rollAllToToday: "Roll all to today",
+    rescheduleAll: "Reschedule all…",
+    rollToToday: "Today",
+    weeklyReview: "Weekly review",
+    weekStartsOn: "First day of the week",
+    legendPending: "Pending",
+    legendCompleted: "Completed",
+    hkOverlay: "HK holidays and lunar dates",
+    legendHoliday: "Public holiday",
+    noHolidayData: (from: number, to: number) => `HK holidays are only bundled for ${from}–${to}`,
+    board: "Board",
+    projects: "Projects",
+    planner: "Planner",
+    plannedWork: "Planned work",
+    proposed: "Proposed",
+    doing: "Doing",
+    lunarDate: (date: string) => `Lunar ${date}`
   },
   粵: {
     title: "行事曆＋待辦",
@@ -34,29 +131,82 @@ const TRANSLATIONS = {
     allTasks: "所有任務",
     pending: "待辦",
     completed: "完成",
-    addTask: "新增任務...",
+    addTask: "新增任務 — 例如：下星期五 下晝3點 交功課 #study",
     add: "新增",
     noTasks: "今日冇任務",
     noTasksYet: "未有任務",
     getStarted: "新增任務開始",
     createFirst: "建立你嘅第一個任務",
-    newCategory: "新增"
+    newCategory: "新增",
+    edit: "編輯",
+    save: "儲存",
+    cancel: "取消",
+    thisOccurrence: "只係呢次",
+    allOccurrences: "全部",
+    deleteWhich: "刪除：",
+    editWhich: "套用到：",
+    importIcs: "匯入 .ics",
+    exportIcs: "匯出 .ics",
+    exportAll: "所有任務",
+    importResult: (added: number, updated: number) => `匯入咗 ${added} 個新任務，更新咗 ${updated} 個現有任務。`,
+    importFailed: "讀唔到呢個行事曆檔案，請揀一個 .ics 檔案。",
+    importUnsupported: (n: number) => `有 ${n} 個重複活動用咗呢度做唔到嘅重複規則，所以只匯入咗第一次。`,
+    allDay: "全日",
+    startTime: "開始時間",
+    endTime: "結束時間",
+    views: { year: "年", month: "月", week: "週", day: "日" },
+    remindersOn: "提醒：開",
+    remindersOff: "提醒：關",
+    notificationsBlocked: "呢個網站嘅通知被封鎖咗。請喺瀏覽器嘅網站設定度允許通知，先至收到提醒。",
+    notificationsUnsupported: "呢個瀏覽器唔支援通知。",
+    details: "詳情",
+    due: "截止",
+    sortByPriority: "按優先次序排",
+    sortByTime: "按時間排",
+    moveHint: "拖去其他日子就可以搬。用方向鍵可以搬一日或者一個星期。",
+    select: "選擇",
+    selectAll: "全選",
+    selected: (count: number) => `已選 ${count} 個`,
+    moveTo: "搬去",
+    done: "完成",
+    tasksCount: (count: number) => `${count} 個任務`,
+    timetable: "時間表",
+    teachingWeek: (week: number) => `教學週第 ${week} 週`,
+    semesterBreak: "學期假期",
+    classes: "課堂",
+    overdue: "過期",
+    rollAllToToday: "全部搬去今日",
+    rescheduleAll: "全部改期…",
+    rollToToday: "今日",
+    weeklyReview: "每週回顧",
+    weekStartsOn: "每週第一日",
+    legendPending: "待辦",
+    legendCompleted: "完成",
+    hkOverlay: "香港假期同農曆",
+    legendHoliday: "公眾假期",
+    noHolidayData: (from: number, to: number) => `只有 ${from}–${to} 年嘅香港假期資料`,
+    board: "看板",
+    projects: "項目",
+    planner: "時間規劃",
+    plannedWork: "已編時段",
+    proposed: "建議",
+    doing: "做緊",
+    lunarDate: (date: string) => `農曆${date}`
   }
 } as const;
 
-type Category = {
-  id: string;
-  name: string;
-  color: string;
-};
+type Strings = (typeof TRANSLATIONS)[keyof typeof TRANSLATIONS];
 
-type Task = {
-  id: string;
-  title: string;
-  date: string; // YYYY-MM-DD
-  completed: boolean;
-  categoryId?: string;
-};
+// Which tasks a change to a repeating task applies to
+type Scope = 'occurrence' | 'series';
+
+type TaskChange = { title: string; date: string; start?: string; end?: string; reminders?: Reminder[] };
+
+type CalendarView = 'year' | 'month' | 'week' | 'day';
+
+type SortMode = 'time' | 'priority';
+
+const CALENDAR_VIEWS: CalendarView[] = ['year', 'month', 'week', 'day'];
 
 const DEFAULT_CATEGORIES: Category[] = [
   { id: "work", name: "Work", color: "#0A84FF" },
@@ -66,25 +216,47 @@ const DEFAULT_CATEGORIES: Category[] = [
   { id: "other", name: "Other", color: "#5856D6" },
 ];
 
-const MONTHS = ["January", "February", "March", "April", "May", "June", "July", "August", "September", "October", "November", "December"];
-const DAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const WEEK_START_KEY = 'calendar_week_start';
+
+// Times filled in when a task stops being all-day
+const DEFAULT_START = "09:00";
+const DEFAULT_END = "10:00";
+
+// Dots under a day, one per task occurrence
+const MAX_DOTS = 4;
+
+// How far back missed occurrences of repeating tasks count as overdue
+const OVERDUE_LOOKBACK_DAYS = 60;
 
 // Calendar Component
 function Calendar({ 
   currentDate, 
   selectedDate, 
   onSelectDate,
-  tasks 
+  tasks,
+  classDates,
+  dropDate,
+  weekStart,
+  locale,
+  lang,
+  hkOverlay
 }: { 
   currentDate: Date;
   selectedDate: Date;
   onSelectDate: (date: Date) => void;
-  tasks: Task[];
+  tasks: TaskOccurrence[]; // occurrences within the month
+  classDates: Set<string>; // days with timetabled classes
+  dropDate?: string | null; // the day a dragged task is over
+  weekStart: WeekStart;
+  locale: string;
+  lang: "EN" | "粵";
+  hkOverlay: boolean; // mark HK holidays and show lunar dates
 }) {
   const year = currentDate.getFullYear();
   const month = currentDate.getMonth();
   
-  const firstDay = new Date(year, month, 1).getDay();
+  // Days of the previous month before the 1st, counted from the first day of the week
+  const firstDay = (new Date(year, month, 1).getDay() - weekStart + 7) % 7;
   const daysInMonth = new Date(year, month + 1, 0).getDate();
   const daysInPrevMonth = new Date(year, month, 0).getDate();
   
@@ -106,8 +278,10 @@ function Calendar({
     calendar.push(-(100 + i));
   }
 
+  const dateKeyOf = (day: number) => `${year}-${String(month + 1).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+
   const getTasksForDate = (day: number) => {
-    const dateStr = `${year}-${String(month + 1).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+    const dateStr = dateKeyOf(day);
     return tasks.filter(t => t.date === dateStr);
   };
 
@@ -124,8 +298,8 @@ function Calendar({
     <div className="space-y-4">
       {/* Days header */}
       <div className="grid grid-cols-7 gap-2">
-        {DAYS.map(day => (
-          <div key={day} className="text-center text-xs font-semibold text-[#86868B] dark:text-white/60 uppercase tracking-wider">
+        {weekdayNames(locale, weekStart).map(day => (
+          <div key={day} className="text-center text-xs font-semibold text-[#86868B] dark:text-white/60 uppercase tracking-wider truncate">
             {day}
           </div>
         ))}
@@ -139,27 +313,40 @@ function Calendar({
           const isCurrentMonth = day > 0;
           const displayDay = Math.abs(day) > 100 ? Math.abs(day) - 100 : Math.abs(day);
           const dayTasks = isCurrentMonth ? getTasksForDate(day) : [];
-          const hasPending = dayTasks.some(t => !t.completed);
-          const hasCompleted = dayTasks.some(t => t.completed);
+          const holiday = isCurrentMonth && hkOverlay ? holidayOn(dateKeyOf(day), lang) : undefined;
+          const lunar = isCurrentMonth && hkOverlay ? lunarLabel(dateKeyOf(day)) : undefined;
 
           return (
             <button
               key={idx}
               onClick={() => isCurrentMonth && onSelectDate(new Date(year, month, day))}
               disabled={!isCurrentMonth}
+              data-drop-date={isCurrentMonth ? dateKeyOf(day) : undefined}
+              title={holiday}
               className={`
-                aspect-square rounded-lg text-sm font-medium transition-all duration-150 relative
+                aspect-square rounded-lg text-sm font-medium transition-all duration-150 relative flex flex-col items-center justify-center
+                ${isCurrentMonth && dropDate === dateKeyOf(day) ? 'ring-2 ring-[#FF9F0A] scale-105' : ''}
                 ${!isCurrentMonth ? 'text-[#86868B]/40 dark:text-white/20 cursor-default' : ''}
                 ${isCurrentMonth && !isToday(day) && !isSelected(day) ? 'text-[#1D1D1F] dark:text-white hover:bg-black/5 dark:hover:bg-white/5' : ''}
                 ${isToday(day) && !isSelected(day) ? 'text-[#FF9F0A] font-bold' : ''}
+                ${holiday && !isSelected(day) ? '!text-[#FF375F]' : ''}
                 ${isSelected(day) ? 'bg-[#0A84FF] text-white font-bold' : ''}
               `}
             >
               {displayDay}
+              {lunar && (
+                <span className={`text-[9px] leading-none font-normal ${holiday || isSelected(day) ? '' : 'text-[#86868B] dark:text-white/50'}`}>
+                  {lunar}
+                </span>
+              )}
+              {isCurrentMonth && classDates.has(dateKeyOf(day)) && (
+                <div className={`absolute top-1 left-1/2 -translate-x-1/2 w-3 h-0.5 rounded-full ${isSelected(day) ? 'bg-white/80' : 'bg-[#5856D6]'}`} />
+              )}
               {isCurrentMonth && dayTasks.length > 0 && (
                 <div className="absolute bottom-1 left-1/2 -translate-x-1/2 flex gap-0.5">
-                  {hasPending && <div className="w-1 h-1 rounded-full bg-[#FF375F]" />}
-                  {hasCompleted && <div className="w-1 h-1 rounded-full bg-[#30D158]" />}
+                  {dayTasks.slice(0, MAX_DOTS).map((task, i) => (
+                    <div key={i} className={`w-1 h-1 rounded-full ${task.completed ? 'bg-[#30D158]' : 'bg-[#FF375F]'}`} />
+                  ))}
                 </div>
               )}
             </button>
@@ -170,27 +357,226 @@ function Calendar({
   );
 }
 
+// Start/end time inputs; no start time means all day
+function TimeFields({
+  start,
+  end,
+  onChange,
+  t
+}: {
+  start?: string;
+  end?: string;
+  onChange: (start?: string, end?: string) => void;
+  t: Strings;
+}) {
+  const inputClass = "px-2 py-1 bg-[#F5F5F7] dark:bg-[#2C2C2E] rounded-lg text-xs text-[#1D1D1F] dark:text-white outline-none focus:ring-1 focus:ring-[#0A84FF]";
+  return (
+    <div className="flex items-center gap-2 flex-wrap text-xs text-[#86868B] dark:text-white/60">
+      <Clock size={14} />
+      <label className="flex items-center gap-1.5 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={!start}
+          onChange={(e) => (e.target.checked ? onChange(undefined, undefined) : onChange(DEFAULT_START, DEFAULT_END))}
+          className="accent-[#0A84FF]"
+        />
+        {t.allDay}
+      </label>
+      {start && (
+        <>
+          <input
+            type="time"
+            value={start}
+            onChange={(e) => e.target.value && onChange(e.target.value, end && end > e.target.value ? end : undefined)}
+            className={inputClass}
+            aria-label={t.startTime}
+          />
+          –
+          <input
+            type="time"
+            value={end ?? ''}
+            min={start}
+            onChange={(e) => onChange(start, e.target.value > start ? e.target.value : undefined)}
+            className={inputClass}
+            aria-label={t.endTime}
+          />
+        </>
+      )}
+    </div>
+  );
+}
+
 // Task Item Component
 function TaskItem({ 
   task, 
   onToggle, 
   onDelete,
+  onEdit,
+  onOpen,
+  onDragStart,
+  onMoveBy,
+  isSelecting = false,
+  isSelected = false,
+  onSelect,
+  onRollForward,
   category,
-  showDate = false
+  showDate = false,
+  lang,
+  t
 }: { 
-  task: Task; 
+  task: TaskOccurrence; 
   onToggle: () => void; 
-  onDelete: () => void;
+  onDelete: (scope: Scope) => void;
+  onEdit: (change: TaskChange, scope: Scope) => void;
+  onOpen: () => void;
+  onDragStart: (event: React.PointerEvent) => void;
+  onMoveBy: (days: number) => void;
+  isSelecting?: boolean;
+  isSelected?: boolean;
+  onSelect?: () => void;
+  onRollForward?: () => void; // shown on overdue tasks
   category?: Category;
   showDate?: boolean;
+  lang: "EN" | "粵";
+  t: Strings;
 }) {
+  const locale = lang === "粵" ? "zh-HK" : "en-US";
+  const isOccurrence = task.occurrenceDate !== undefined;
+  const [isEditing, setIsEditing] = useState(false);
+  const [editTitle, setEditTitle] = useState(task.title);
+  const [editDate, setEditDate] = useState(task.date);
+  const [editStart, setEditStart] = useState(task.start);
+  const [editEnd, setEditEnd] = useState(task.end);
+  const [editReminders, setEditReminders] = useState(task.reminders ?? []);
+  const [editScope, setEditScope] = useState<Scope>('occurrence');
+  const [isChoosingDelete, setIsChoosingDelete] = useState(false);
+  const progress = subtaskProgress(task);
+
+  // Left/right move a day, up/down a week, as on the month grid
+  const moveWithKeys = (e: React.KeyboardEvent) => {
+    const days = ({ ArrowLeft: -1, ArrowRight: 1, ArrowUp: -7, ArrowDown: 7 } as Record<string, number>)[e.key];
+    if (days === undefined) return;
+    e.preventDefault();
+    onMoveBy(days);
+  };
+
   const formatDate = (dateStr: string) => {
-    const date = new Date(dateStr);
-    return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+    const date = parseDateKey(dateStr);
+    return date.toLocaleDateString(locale, { month: 'short', day: 'numeric' });
   };
 
+  const startEditing = () => {
+    setEditTitle(task.title);
+    setEditDate(task.date);
+    setEditStart(task.start);
+    setEditEnd(task.end);
+    setEditReminders(task.reminders ?? []);
+    setEditScope('occurrence');
+    setIsEditing(true);
+  };
+
+  const saveEdit = () => {
+    if (!editTitle.trim() || !editDate) return;
+    onEdit({ title: editTitle.trim(), date: editDate, start: editStart, end: editEnd, reminders: editReminders }, editScope);
+    setIsEditing(false);
+  };
+
+  const scopeButton = (label: string, onClick: () => void, active = false) => (
+    <button
+      onClick={onClick}
+      className={`px-2 py-1 rounded text-xs font-medium transition-all duration-150 ${
+        active ? 'bg-[#0A84FF] text-white' : 'bg-[#F5F5F7] dark:bg-[#2C2C2E] text-[#1D1D1F] dark:text-white hover:bg-black/5 dark:hover:bg-white/10'
+      }`}
+    >
+      {label}
+    </button>
+  );
+
+  if (isEditing) {
+    return (
+      <div className="p-3 bg-white dark:bg-[#1C1C1E] rounded-lg ring-2 ring-[#0A84FF]/50 space-y-2">
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={editTitle}
+            onChange={(e) => setEditTitle(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') saveEdit();
+              if (e.key === 'Escape') setIsEditing(false);
+            }}
+            className="flex-1 min-w-0 px-3 py-1.5 bg-[#F5F5F7] dark:bg-[#2C2C2E] rounded-lg text-sm text-[#1D1D1F] dark:text-white outline-none focus:ring-1 focus:ring-[#0A84FF]"
+            autoFocus
+          />
+          {/* A whole series keeps its dates; only single tasks and occurrences move */}
+          {!(isOccurrence && editScope === 'series') && (
+            <input
+              type="date"
+              value={editDate}
+              onChange={(e) => setEditDate(e.target.value)}
+              className="px-2 py-1.5 bg-[#F5F5F7] dark:bg-[#2C2C2E] rounded-lg text-xs text-[#1D1D1F] dark:text-white outline-none focus:ring-1 focus:ring-[#0A84FF]"
+            />
+          )}
+        </div>
+        <TimeFields
+          start={editStart}
+          end={editEnd}
+          onChange={(start, end) => {
+            setEditStart(start);
+            setEditEnd(end);
+          }}
+          t={t}
+        />
+        <ReminderPicker lang={lang} value={editReminders} onChange={setEditReminders} />
+        <div className="flex items-center gap-2 flex-wrap">
+          {isOccurrence && (
+            <>
+              <span className="text-xs text-[#86868B] dark:text-white/60">{t.editWhich}</span>
+              {scopeButton(t.thisOccurrence, () => setEditScope('occurrence'), editScope === 'occurrence')}
+              {scopeButton(t.allOccurrences, () => setEditScope('series'), editScope === 'series')}
+            </>
+          )}
+          <div className="flex-1" />
+          <button
+            onClick={() => setIsEditing(false)}
+            className="px-3 py-1 text-xs font-medium text-[#86868B] dark:text-white/60 hover:bg-black/5 dark:hover:bg-white/10 rounded transition-all duration-150"
+          >
+            {t.cancel}
+          </button>
+          <button
+            onClick={saveEdit}
+            disabled={!editTitle.trim() || !editDate}
+            className="px-3 py-1 text-xs font-medium bg-[#0A84FF] text-white rounded hover:bg-[#0A84FF]/90 disabled:opacity-40 transition-all duration-150"
+          >
+            {t.save}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
   return (
-    <div className="group flex items-start gap-3 p-3 bg-white dark:bg-[#1C1C1E] rounded-lg hover:bg-[#F5F5F7] dark:hover:bg-[#2C2C2E] transition-all duration-150 animate-slideIn">
+    <div className={`group flex items-start gap-3 p-3 bg-white dark:bg-[#1C1C1E] rounded-lg hover:bg-[#F5F5F7] dark:hover:bg-[#2C2C2E] transition-all duration-150 animate-slideIn ${
+      isSelected ? 'ring-2 ring-[#0A84FF]/60' : ''
+    }`}>
+      <button
+        onPointerDown={onDragStart}
+        onKeyDown={moveWithKeys}
+        className="flex-shrink-0 -ml-1.5 mt-0.5 text-[#D1D1D6] dark:text-white/20 hover:text-[#86868B] focus:text-[#0A84FF] cursor-grab active:cursor-grabbing touch-none outline-none"
+        aria-label={`${task.title}. ${t.moveHint}`}
+        title={t.moveHint}
+      >
+        <GripVertical size={16} />
+      </button>
+      {isSelecting && (
+        <button
+          onClick={onSelect}
+          className={`flex-shrink-0 mt-0.5 ${isSelected ? 'text-[#0A84FF]' : 'text-[#86868B] dark:text-white/60'}`}
+          aria-pressed={isSelected}
+          aria-label={t.select}
+        >
+          {isSelected ? <CheckSquare size={18} /> : <Square size={18} />}
+        </button>
+      )}
       <button
         onClick={onToggle}
         className="flex-shrink-0 w-5 h-5 rounded mt-0.5 border-2 flex items-center justify-center transition-all duration-150"
@@ -202,10 +588,24 @@ function TaskItem({
         {task.completed && <Check size={14} className="text-white" strokeWidth={3} />}
       </button>
       <div className="flex-1 min-w-0">
-        <p className={`text-[15px] ${task.completed ? 'line-through text-[#86868B] dark:text-white/40' : 'text-[#1D1D1F] dark:text-white'}`}>
+        <button
+          onClick={onOpen}
+          className={`text-left text-[15px] hover:underline decoration-black/20 dark:decoration-white/30 ${task.completed ? 'line-through text-[#86868B] dark:text-white/40' : 'text-[#1D1D1F] dark:text-white'}`}
+        >
           {task.title}
-        </p>
-        <div className="flex items-center gap-2 mt-1">
+        </button>
+        <div className="flex items-center gap-2 mt-1 flex-wrap">
+          {task.doing && !task.completed && (
+            <span className="px-1.5 py-0.5 text-xs font-medium rounded bg-[#FF9F0A]/15 text-[#FF9F0A]">
+              {t.doing}
+            </span>
+          )}
+          {task.priority && (
+            <span className="flex items-center gap-1 text-xs font-medium" style={{ color: PRIORITY_COLORS[task.priority] }}>
+              <Flag size={12} />
+              {describePriority(task.priority, lang)}
+            </span>
+          )}
           {category && (
             <span 
               className="inline-block px-2 py-0.5 text-xs font-medium rounded"
@@ -222,10 +622,74 @@ function TaskItem({
               {formatDate(task.date)}
             </span>
           )}
+          {task.start && (
+            <span className="flex items-center gap-1 text-xs text-[#86868B] dark:text-white/60">
+              <Clock size={12} />
+              {formatTime(task.start, locale)}{task.end && `–${formatTime(task.end, locale)}`}
+            </span>
+          )}
+          {task.due && (
+            <span className="flex items-center gap-1 text-xs text-[#86868B] dark:text-white/60">
+              <AlarmClock size={12} />
+              {t.due} {formatTime(task.due, locale)}
+            </span>
+          )}
+          {task.estimate && (
+            <span className="flex items-center gap-1 text-xs text-[#86868B] dark:text-white/60">
+              <Hourglass size={12} />
+              {formatDuration(task.estimate)}
+            </span>
+          )}
+          {progress.total > 0 && (
+            <span className="flex items-center gap-1.5 text-xs text-[#86868B] dark:text-white/60">
+              <ListChecks size={12} />
+              {progress.done}/{progress.total}
+              <span className="w-10 h-1 bg-black/10 dark:bg-white/10 rounded-full overflow-hidden">
+                <span className="block h-full bg-[#30D158]" style={{ width: `${(progress.done / progress.total) * 100}%` }} />
+              </span>
+            </span>
+          )}
+          {task.notes && <StickyNote size={12} className="text-[#86868B] dark:text-white/60" aria-label={t.details} />}
+          {task.reminders && task.reminders.length > 0 && (
+            <span className="flex items-center gap-1 text-xs text-[#86868B] dark:text-white/60">
+              <Bell size={12} />
+              {task.reminders.map(reminder => describeReminder(reminder, lang)).join(', ')}
+            </span>
+          )}
+          {task.recurrence && (
+            <span className="flex items-center gap-1 text-xs text-[#86868B] dark:text-white/60">
+              <Repeat size={12} />
+              {describeRecurrence(task.recurrence, lang, locale)}
+            </span>
+          )}
         </div>
+        {isChoosingDelete && (
+          <div className="flex items-center gap-2 mt-2 flex-wrap">
+            <span className="text-xs text-[#86868B] dark:text-white/60">{t.deleteWhich}</span>
+            {scopeButton(t.thisOccurrence, () => onDelete('occurrence'))}
+            {scopeButton(t.allOccurrences, () => onDelete('series'))}
+            {scopeButton(t.cancel, () => setIsChoosingDelete(false))}
+          </div>
+        )}
       </div>
+      {onRollForward && (
+        <button
+          onClick={onRollForward}
+          className="flex-shrink-0 flex items-center gap-1 px-2 py-1 text-xs font-medium text-[#0A84FF] bg-[#0A84FF]/10 hover:bg-[#0A84FF]/20 rounded transition-all duration-150"
+        >
+          <ArrowRight size={12} />
+          {t.rollToToday}
+        </button>
+      )}
+      <button
+        onClick={startEditing}
+        className="flex-shrink-0 opacity-0 group-hover:opacity-100 p-1.5 text-[#86868B] hover:bg-black/5 dark:hover:bg-white/10 rounded transition-all duration-150"
+        title={t.edit}
+      >
+        <Pencil size={16} />
+      </button>
       <button
-        onClick={onDelete}
+        onClick={() => (isOccurrence ? setIsChoosingDelete(true) : onDelete('series'))}
         className="flex-shrink-0 opacity-0 group-hover:opacity-100 p-1.5 text-[#FF375F] hover:bg-[#FF375F]/10 dark:hover:bg-[#FF375F]/20 rounded transition-all duration-150"
       >
         <Trash2 size={16} />
@@ -265,18 +729,52 @@ export default function CalendarToDo({ theme, lang: propLang, onClose }: { theme
     return DEFAULT_CATEGORIES;
   };
 
+  const loadWeekStart = (): WeekStart => {
+    try {
+      return localStorage.getItem(WEEK_START_KEY) === '1' ? 1 : 0;
+    } catch (error) {
+      console.error('Failed to load week start:', error);
+    }
+    return 0;
+  };
+
   const [currentDate, setCurrentDate] = useState(new Date());
   const [selectedDate, setSelectedDate] = useState(new Date());
   const [tasks, setTasks] = useState<Task[]>(loadTasks);
   const [categories, setCategories] = useState<Category[]>(loadCategories);
   const [newTaskTitle, setNewTaskTitle] = useState("");
+  const [newTaskRecurrence, setNewTaskRecurrence] = useState<RecurrenceRule | undefined>(undefined);
+  const [newTaskStart, setNewTaskStart] = useState<string | undefined>(undefined);
+  const [newTaskEnd, setNewTaskEnd] = useState<string | undefined>(undefined);
+  const [calendarView, setCalendarView] = useState<CalendarView>('month');
+  const isTimeGrid = calendarView === 'week' || calendarView === 'day';
+  const [newTaskReminders, setNewTaskReminders] = useState<Reminder[]>([]);
+  const [isRemindersOn, setIsRemindersOn] = useState(remindersEnabled);
   const [selectedCategory, setSelectedCategory] = useState<string>(DEFAULT_CATEGORIES[0].id);
   const [isClosing, setIsClosing] = useState(false);
-  const [viewMode, setViewMode] = useState<'date' | 'all'>('date');
-  const [filterCategory, setFilterCategory] = useState<string | null>(null);
+  const [viewMode, setViewMode] = useState<'date' | 'all' | 'board'>('date');
+  const [boardGrouping, setBoardGrouping] = useState<BoardGrouping>('status');
+  const [filter, setFilter] = useState<TaskFilter>(EMPTY_FILTER);
+  const [smartLists, setSmartLists] = useState<SmartList[]>(loadSmartLists);
   const [isAddingCategory, setIsAddingCategory] = useState(false);
   const [newCategoryName, setNewCategoryName] = useState("");
   const [newCategoryColor, setNewCategoryColor] = useState("#0A84FF");
+  const [isExportMenuOpen, setIsExportMenuOpen] = useState(false);
+  const [detailTaskId, setDetailTaskId] = useState<string | null>(null);
+  const [sortMode, setSortMode] = useState<SortMode>('time');
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [selectedKeys, setSelectedKeys] = useState<string[]>([]);
+  const [timetable, setTimetable] = useState<Semester | null>(loadTimetable);
+  const [isTimetableOpen, setIsTimetableOpen] = useState(false);
+  const [isReviewOpen, setIsReviewOpen] = useState(false);
+  const [projects, setProjects] = useState<Project[]>(loadProjects);
+  const [isProjectsOpen, setIsProjectsOpen] = useState(false);
+  const [workingHours, setWorkingHours] = useState<WorkingHours>(loadWorkingHours);
+  const [plan, setPlan] = useState<Plan | null>(null);
+  const [isPlannerOpen, setIsPlannerOpen] = useState(false);
+  const [weekStart, setWeekStart] = useState<WeekStart>(loadWeekStart);
+  const [hkOverlay, setHkOverlay] = useState(loadHkOverlay);
+  const icsInputRef = useRef<HTMLInputElement>(null);
 
   // Save tasks to localStorage whenever they change
   useEffect(() => {
@@ -287,6 +785,24 @@ export default function CalendarToDo({ theme, lang: propLang, onClose }: { theme
     }
   }, [tasks]);
 
+  useEffect(() => saveSmartLists(smartLists), [smartLists]);
+
+  useEffect(() => saveTimetable(timetable), [timetable]);
+
+  useEffect(() => saveProjects(projects), [projects]);
+
+  useEffect(() => saveWorkingHours(workingHours), [workingHours]);
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(WEEK_START_KEY, String(weekStart));
+    } catch (error) {
+      console.error('Failed to save week start:', error);
+    }
+  }, [weekStart]);
+
+  useEffect(() => saveHkOverlay(hkOverlay), [hkOverlay]);
+
   // Save categories to localStorage whenever they change
   useEffect(() => {
     try {
@@ -303,34 +819,184 @@ export default function CalendarToDo({ theme, lang: propLang, onClose }: { theme
     }, 200);
   };
 
-  const prevMonth = () => {
-    setCurrentDate(new Date(currentDate.getFullYear(), currentDate.getMonth() - 1));
+  // The year and month views page by year and month; week and day views move the selected day along
+  const stepPeriod = (direction: 1 | -1) => {
+    if (calendarView === 'year') {
+      setCurrentDate(new Date(currentDate.getFullYear() + direction, currentDate.getMonth()));
+      return;
+    }
+    if (calendarView === 'month') {
+      setCurrentDate(new Date(currentDate.getFullYear(), currentDate.getMonth() + direction));
+      return;
+    }
+    const date = addDays(selectedDate, direction * (calendarView === 'week' ? 7 : 1));
+    setSelectedDate(date);
+    setCurrentDate(date);
   };
 
-  const nextMonth = () => {
-    setCurrentDate(new Date(currentDate.getFullYear(), currentDate.getMonth() + 1));
+  const selectDate = (date: Date) => {
+    setSelectedDate(date);
+    if (calendarView !== 'month') setCurrentDate(date);
   };
 
+  // A day picked on the year heatmap opens its month
+  const openDayInMonth = (date: Date) => {
+    setSelectedDate(date);
+    setCurrentDate(date);
+    setCalendarView('month');
+  };
+
+  // Dates, times and tags typed into the title win over the form's selections
+  const quickAdd = useMemo(() => parseQuickAdd(newTaskTitle, categories, weekStart), [newTaskTitle, categories, weekStart]);
+
   const addTask = () => {
-    if (newTaskTitle.trim()) {
-      const dateStr = `${selectedDate.getFullYear()}-${String(selectedDate.getMonth() + 1).padStart(2, '0')}-${String(selectedDate.getDate()).padStart(2, '0')}`;
+    if (quickAdd.title) {
+      const dateStr = quickAdd.date ?? toDateKey(selectedDate);
+      const [start, end] = quickAdd.start ? [quickAdd.start, quickAdd.end] : [newTaskStart, newTaskEnd];
       setTasks([...tasks, {
         id: Date.now().toString(),
-        title: newTaskTitle.trim(),
-        date: dateStr,
+        title: quickAdd.title,
+        // A series starts on the first day its rule falls on
+        date: newTaskRecurrence ? alignStart(newTaskRecurrence, dateStr) : dateStr,
         completed: false,
-        categoryId: selectedCategory
+        categoryId: quickAdd.categoryId ?? selectedCategory,
+        ...(quickAdd.priority && { priority: quickAdd.priority }),
+        ...(start && { start, end }),
+        ...(newTaskRecurrence && { recurrence: newTaskRecurrence }),
+        ...(newTaskReminders.length > 0 && { reminders: newTaskReminders })
       }]);
       setNewTaskTitle("");
+      setNewTaskReminders([]);
+      setNewTaskRecurrence(undefined);
+      // Show the day the task landed on
+      if (quickAdd.date) {
+        setSelectedDate(parseDateKey(quickAdd.date));
+        setCurrentDate(parseDateKey(quickAdd.date));
+      }
     }
   };
 
-  const toggleTask = (id: string) => {
-    setTasks(tasks.map(t => t.id === id ? { ...t, completed: !t.completed } : t));
+  // Details live on the task itself, so they're shared by all occurrences of a series
+  const updateDetails = (id: string, details: Partial<TaskDetails>) => {
+    setTasks(tasks.map(t => (t.id === id ? { ...t, ...details } : t)));
   };
 
-  const deleteTask = (id: string) => {
-    setTasks(tasks.filter(t => t.id !== id));
+  // An occurrence of a repeating task moves on its own; other tasks change their date
+  const moveTasks = (moving: TaskOccurrence[], date: string) => {
+    setTasks(tasks.map(t => moving.filter(m => m.id === t.id).reduce<Task>((task, occ) => (
+      occ.occurrenceDate === undefined
+        ? { ...task, date }
+        : overrideOccurrence(task, occ.occurrenceDate, { date: date === occ.occurrenceDate ? undefined : date })
+    ), t)));
+    setSelectedKeys([]);
+  };
+
+  // Keyboard moves keep the day list on the task, so focus stays on its handle
+  const moveTaskBy = (task: TaskOccurrence, days: number) => {
+    const date = addDaysToKey(task.date, days);
+    moveTasks([task], date);
+    if (viewMode === 'date') {
+      setSelectedDate(parseDateKey(date));
+      setCurrentDate(parseDateKey(date));
+    }
+  };
+
+  const { drag, startDrag } = useDragMove<TaskOccurrence>(moveTasks);
+
+  // Board columns are "status:<todo|doing|done>" or "category:<id>"; an empty id means no category
+  const moveToColumn = (task: TaskOccurrence, column: string) => {
+    const split = column.indexOf(':');
+    const kind = column.slice(0, split);
+    const value = column.slice(split + 1);
+    setTasks(tasks.map(t => {
+      if (t.id !== task.id) return t;
+      if (kind === 'category') return { ...t, categoryId: value || undefined };
+      const change = { completed: value === 'done', doing: value === 'doing' || undefined };
+      return task.occurrenceDate !== undefined ? overrideOccurrence(t, task.occurrenceDate, change) : { ...t, ...change };
+    }));
+  };
+
+  // Board cards are dragged one at a time
+  const { drag: boardDrag, startDrag: startBoardDrag } = useDragMove<TaskOccurrence>(
+    ([task], column) => moveToColumn(task, column),
+    'column'
+  );
+
+  // Occurrences of repeating tasks are completed, edited and deleted one at a time through overrides
+  const toggleTask = (task: TaskOccurrence) => {
+    setTasks(tasks.map(t => {
+      if (t.id !== task.id) return t;
+      return task.occurrenceDate !== undefined
+        ? overrideOccurrence(t, task.occurrenceDate, { completed: !task.completed })
+        : { ...t, completed: !t.completed };
+    }));
+  };
+
+  const deleteTask = (task: TaskOccurrence, scope: Scope) => {
+    if (task.occurrenceDate !== undefined && scope === 'occurrence') {
+      const occurrenceDate = task.occurrenceDate;
+      setTasks(tasks.map(t => t.id === task.id ? overrideOccurrence(t, occurrenceDate, { cancelled: true }) : t));
+    } else {
+      setTasks(tasks.filter(t => t.id !== task.id));
+    }
+  };
+
+  const editTask = (task: TaskOccurrence, change: TaskChange, scope: Scope) => {
+    setTasks(tasks.map(t => {
+      if (t.id !== task.id) return t;
+      if (task.occurrenceDate === undefined) return { ...t, ...change };
+      if (scope === 'series') return { ...t, title: change.title, start: change.start, end: change.end, reminders: change.reminders };
+      // Overrides only hold what differs from the series; an occurrence can't drop the series' times
+      const retimed = change.start && (change.start !== t.start || change.end !== t.end);
+      const overridden = overrideOccurrence(t, task.occurrenceDate, {
+        title: change.title === t.title ? undefined : change.title,
+        date: change.date === task.occurrenceDate ? undefined : change.date,
+        start: retimed ? change.start : undefined,
+        end: retimed ? change.end : undefined
+      });
+      // Reminders belong to the whole series
+      return { ...overridden, reminders: change.reminders };
+    }));
+  };
+
+  const toggleReminders = async () => {
+    if (!remindersSupported()) {
+      alert(t.notificationsUnsupported);
+      return;
+    }
+    const enabled = await setRemindersEnabled(!isRemindersOn);
+    setIsRemindersOn(enabled);
+    if (!isRemindersOn && !enabled) alert(t.notificationsBlocked);
+  };
+
+  const importCalendar = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const result = mergeIcs(tasks, categories, parseIcs(await file.text()));
+      setTasks(result.tasks);
+      setCategories(result.categories);
+      alert(t.importResult(result.added, result.updated) + (result.unsupported > 0 ? t.importUnsupported(result.unsupported) : ''));
+    } catch (error) {
+      console.error('Failed to import calendar:', error);
+      alert(t.importFailed);
+    }
+  };
+
+  // Exports every task, or only those in one category
+  const exportCalendar = (categoryId: string | null) => {
+    const exported = categoryId ? tasks.filter(task => task.categoryId === categoryId) : tasks;
+    const name = (categoryId && getCategoryById(categoryId)?.name) || t.title;
+    const blob = new Blob([exportIcs(exported, categories, name)], { type: 'text/calendar;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${name.replace(/[^\p{L}\p{N}]/gu, '_')}.ics`;
+    link.click();
+    URL.revokeObjectURL(url);
+    setIsExportMenuOpen(false);
   };
 
   const addCategory = () => {
@@ -357,6 +1023,7 @@ export default function CalendarToDo({ theme, lang: propLang, onClose }: { theme
     
     // Update tasks that used this category
     setTasks(tasks.map(t => t.categoryId === id ? { ...t, categoryId: undefined } : t));
+    setFilter({ ...filter, categoryIds: filter.categoryIds.filter(c => c !== id) });
     
     // Update selected category if needed
     if (selectedCategory === id) {
@@ -364,28 +1031,182 @@ export default function CalendarToDo({ theme, lang: propLang, onClose }: { theme
     }
   };
 
-  const selectedDateStr = `${selectedDate.getFullYear()}-${String(selectedDate.getMonth() + 1).padStart(2, '0')}-${String(selectedDate.getDate()).padStart(2, '0')}`;
-  const selectedDateTasks = tasks.filter(t => t.date === selectedDateStr);
-  
-  const displayTasks = viewMode === 'date' ? selectedDateTasks : (
-    filterCategory 
-      ? tasks.filter(t => t.categoryId === filterCategory)
-      : tasks
+  // Tasks leave a deleted project but are kept
+  const deleteProject = (id: string) => {
+    setProjects(projects.filter(p => p.id !== id));
+    setTasks(tasks.map(t => t.projectId === id ? { ...t, projectId: undefined, milestoneId: undefined, blockedBy: undefined } : t));
+  };
+
+  const removeMilestone = (project: Project, milestoneId: string) => {
+    setProjects(projects.map(p => p.id === project.id ? { ...p, milestones: p.milestones.filter(m => m.id !== milestoneId) } : p));
+    setTasks(tasks.map(t => t.milestoneId === milestoneId ? { ...t, milestoneId: undefined } : t));
+  };
+
+  // A task added under a milestone falls on the milestone's day
+  const addProjectTask = (project: Project, milestoneId: string | undefined, title: string) => {
+    const milestone = project.milestones.find(m => m.id === milestoneId);
+    setTasks([...tasks, {
+      id: Date.now().toString(),
+      title,
+      date: milestone?.date ?? toDateKey(new Date()),
+      completed: false,
+      categoryId: selectedCategory,
+      projectId: project.id,
+      ...(milestoneId && { milestoneId })
+    }]);
+  };
+
+  // Proposals show on the time grid, so leave the year and month views for the week
+  const runPlanner = () => {
+    setPlan(planWork(tasks, timetable, workingHours));
+    if (!isTimeGrid) setCalendarView('week');
+  };
+
+  const acceptPlan = () => {
+    if (!plan) return;
+    setTasks(tasks.map(t => {
+      const blocks = plan.blocks.filter(b => b.taskId === t.id).map(({ date, start, end }) => ({ date, start, end }));
+      return blocks.length > 0 ? { ...t, workBlocks: [...(t.workBlocks ?? []), ...blocks] } : t;
+    }));
+    setPlan(null);
+  };
+
+  // Past sessions stay, as work done towards the estimate
+  const clearPlanned = () => {
+    const today = toDateKey(new Date());
+    setTasks(tasks.map(t => {
+      if (!t.workBlocks) return t;
+      const past = t.workBlocks.filter(b => b.date < today);
+      return { ...t, workBlocks: past.length > 0 ? past : undefined };
+    }));
+  };
+
+  const selectedDateStr = toDateKey(selectedDate);
+  const selectedDateTasks = expandTasks(tasks, selectedDateStr, selectedDateStr);
+
+  const monthTasks = useMemo(() => {
+    const monthStart = toDateKey(new Date(currentDate.getFullYear(), currentDate.getMonth(), 1));
+    const monthEnd = toDateKey(new Date(currentDate.getFullYear(), currentDate.getMonth() + 1, 0));
+    return expandTasks(tasks, monthStart, monthEnd);
+  }, [tasks, currentDate]);
+
+  const year = currentDate.getFullYear();
+  const yearTasks = useMemo(
+    () => (calendarView === 'year' ? expandTasks(tasks, `${year}-01-01`, `${year}-12-31`) : []),
+    [tasks, year, calendarView]
   );
 
+  const gridDays = calendarView === 'week'
+    ? Array.from({ length: 7 }, (_, i) => addDays(startOfWeek(selectedDate, weekStart), i))
+    : [selectedDate];
+  const gridTasks = !isTimeGrid
+    ? []
+    : expandTasks(tasks, toDateKey(gridDays[0]), toDateKey(gridDays[gridDays.length - 1]));
+
+  // Classes are a separate, read-only layer; they never become tasks
+  const monthClassDates = useMemo(() => new Set(classesBetween(
+    timetable,
+    toDateKey(new Date(currentDate.getFullYear(), currentDate.getMonth(), 1)),
+    toDateKey(new Date(currentDate.getFullYear(), currentDate.getMonth() + 1, 0))
+  ).map(c => c.date)), [timetable, currentDate]);
+  const gridClasses = !isTimeGrid
+    ? []
+    : classesBetween(timetable, toDateKey(gridDays[0]), toDateKey(gridDays[gridDays.length - 1]));
+  const selectedDateClasses = classesBetween(timetable, selectedDateStr, selectedDateStr);
+
+  // Accepted sessions live on their tasks; proposed ones until the plan is accepted or discarded
+  const sessionsBetween = (from: string, to: string): GridSession[] => [
+    ...tasks.flatMap(task => (task.workBlocks ?? []).map(block => ({ ...block, id: `${task.id}-${block.date}-${block.start}`, title: task.title, proposed: false }))),
+    ...(plan?.blocks ?? []).map(block => ({
+      ...block,
+      id: `plan-${block.taskId}-${block.date}-${block.start}`,
+      title: tasks.find(t => t.id === block.taskId)?.title ?? '',
+      proposed: true
+    }))
+  ].filter(session => session.date >= from && session.date <= to);
+  const gridSessions = !isTimeGrid ? [] : sessionsBetween(toDateKey(gridDays[0]), toDateKey(gridDays[gridDays.length - 1]));
+  const selectedDateSessions = sessionsBetween(selectedDateStr, selectedDateStr).sort((a, b) => a.start.localeCompare(b.start));
+  const week = timetable ? teachingWeek(timetable, selectedDateStr) : null;
+  const selectedHoliday = hkOverlay ? holidayOn(selectedDateStr, lang) : undefined;
+  const selectedLunar = hkOverlay ? lunarDate(selectedDateStr) : null;
+
+  const locale = lang === "粵" ? "zh-HK" : "en-US";
+  const periodTitle = calendarView === 'year'
+    ? currentDate.toLocaleDateString(locale, { year: 'numeric' })
+    : calendarView === 'month'
+      ? currentDate.toLocaleDateString(locale, { month: 'long', year: 'numeric' })
+      : calendarView === 'week'
+        ? `${gridDays[0].toLocaleDateString(locale, { month: 'short', day: 'numeric' })} – ${gridDays[6].toLocaleDateString(locale, { month: 'short', day: 'numeric', year: 'numeric' })}`
+        : selectedDate.toLocaleDateString(locale, { weekday: 'long', month: 'long', day: 'numeric', year: 'numeric' });
+
+  // The all-tasks list shows each series once, as its next occurrence
+  const todayStr = toDateKey(new Date());
+  const seriesTasks = tasks.map(t => currentOccurrence(t, todayStr));
+
+  // A filter over a bounded range lists every occurrence in it rather than each series once
+  const filterRange = filterDates(filter, todayStr, weekStart);
+  const filterableTasks = filterRange.from && filterRange.to
+    ? expandTasks(tasks, filterRange.from, filterRange.to)
+    : seriesTasks;
+
+  // Past, unfinished one-off tasks, and missed occurrences of repeating tasks from the last few weeks;
+  // rolling an occurrence forward moves just that occurrence
+  const overdueTasks: TaskOccurrence[] = useMemo(() => [
+    ...tasks.filter(t => !t.recurrence && !t.completed && t.date < todayStr),
+    ...expandTasks(
+      tasks.filter(t => t.recurrence),
+      addDaysToKey(todayStr, -OVERDUE_LOOKBACK_DAYS),
+      addDaysToKey(todayStr, -1)
+    ).filter(t => !t.completed)
+  ].sort((a, b) => a.date.localeCompare(b.date)), [tasks, todayStr]);
+  const showOverdue = viewMode === 'date' && selectedDateStr === todayStr && overdueTasks.length > 0;
+
+  const displayTasks = viewMode === 'date'
+    ? selectedDateTasks
+    : filterableTasks.filter(t => matchesFilter(t, filter, todayStr, weekStart));
+
+  // By priority, then date; or by date, then completion. All-day tasks come before timed ones on a day
   const sortedTasks = [...displayTasks].sort((a, b) => {
-    if (viewMode === 'all') {
-      // Sort by date, then by completion
-      if (a.date !== b.date) return a.date.localeCompare(b.date);
-    }
+    if (sortMode === 'priority' && a.priority !== b.priority) return priorityRank(a.priority) - priorityRank(b.priority);
+    if (a.date !== b.date) return a.date.localeCompare(b.date);
     if (a.completed !== b.completed) return a.completed ? 1 : -1;
-    return 0;
+    return (a.start ?? '').localeCompare(b.start ?? '');
   });
 
   const pendingCount = displayTasks.filter(t => !t.completed).length;
   const completedCount = displayTasks.filter(t => t.completed).length;
 
   const getCategoryById = (id?: string) => categories.find(c => c.id === id);
+  const detailTask = tasks.find(t => t.id === detailTaskId);
+  const detailBlockers = detailTask ? tasks.filter(t => detailTask.blockedBy?.includes(t.id)) : [];
+  const detailBlockerOptions = detailTask?.projectId
+    ? tasks.filter(t =>
+        t.projectId === detailTask.projectId &&
+        t.id !== detailTask.id &&
+        !detailTask.blockedBy?.includes(t.id) &&
+        !createsCycle(tasks, detailTask.id, t.id))
+    : [];
+
+  const openDetails = (id: string) => {
+    setIsTimetableOpen(false);
+    setIsReviewOpen(false);
+    setDetailTaskId(id);
+  };
+
+  const occurrenceKey = (task: TaskOccurrence) => `${task.id}-${task.occurrenceDate ?? ''}`;
+  const selectedTasks = sortedTasks.filter(task => selectedKeys.includes(occurrenceKey(task)));
+  const toggleSelected = (task: TaskOccurrence) => {
+    const key = occurrenceKey(task);
+    setSelectedKeys(selectedKeys.includes(key) ? selectedKeys.filter(k => k !== key) : [...selectedKeys, key]);
+  };
+
+  const ghost = drag ?? boardDrag;
+
+  // Dragging a selected task takes the whole selection along
+  const dragTask = (event: React.PointerEvent, task: TaskOccurrence) => {
+    const moving = selectedKeys.includes(occurrenceKey(task)) ? selectedTasks : [task];
+    startDrag(event, moving, moving.length === 1 ? task.title : t.tasksCount(moving.length));
+  };
 
   return (
     <div 
@@ -395,7 +1216,7 @@ export default function CalendarToDo({ theme, lang: propLang, onClose }: { theme
       onClick={handleClose}
     >
       <div 
-        className={`bg-white dark:bg-[#0B0B0D] rounded-2xl sm:rounded-3xl shadow-2xl w-full max-w-6xl max-h-[95vh] sm:max-h-[90vh] overflow-hidden ${
+        className={`relative bg-white dark:bg-[#0B0B0D] rounded-2xl sm:rounded-3xl shadow-2xl w-full max-w-6xl max-h-[95vh] sm:max-h-[90vh] overflow-hidden ${
           isClosing ? 'animate-scaleOut' : 'animate-scaleIn'
         }`}
         onClick={(e) => e.stopPropagation()}
@@ -407,69 +1228,284 @@ export default function CalendarToDo({ theme, lang: propLang, onClose }: { theme
               <CalendarIcon size={20} className="text-[#FF9F0A] sm:w-6 sm:h-6" />
             </div>
             <div className="min-w-0">
-              <h2 className="text-lg sm:text-xl md:text-2xl font-bold tracking-tight text-[#1D1D1F] dark:text-white truncate">
-                {t.title}
-              </h2>
+              <div className="flex items-center gap-2 min-w-0">
+                <h2 className="text-lg sm:text-xl md:text-2xl font-bold tracking-tight text-[#1D1D1F] dark:text-white truncate">
+                  {t.title}
+                </h2>
+                {week !== null && (
+                  <span className="flex-shrink-0 flex items-center gap-1 px-2 py-0.5 rounded-full bg-[#5856D6]/10 text-[#5856D6] text-xs font-semibold">
+                    <GraduationCap size={12} />
+                    {week === 'break' ? t.semesterBreak : t.teachingWeek(week)}
+                  </span>
+                )}
+              </div>
               <p className="text-xs sm:text-sm text-[#86868B] dark:text-white/60 mt-0.5 truncate hidden sm:block">
                 {t.subtitle}
               </p>
             </div>
           </div>
 
-          <button
-            onClick={handleClose}
-            className="p-2 hover:bg-black/5 dark:hover:bg-white/10 rounded-full transition-all duration-150 hover:rotate-90 flex-shrink-0"
-            aria-label="Close"
-          >
-            <X size={20} className="text-[#86868B] dark:text-white/60 sm:w-6 sm:h-6" />
-          </button>
+          <div className="flex items-center gap-1 sm:gap-2 flex-shrink-0">
+            <button
+              onClick={() => {
+                setDetailTaskId(null);
+                setIsReviewOpen(false);
+                setIsTimetableOpen(false);
+                setIsProjectsOpen(false);
+                setIsPlannerOpen(!isPlannerOpen);
+              }}
+              className="p-2 hover:bg-black/5 dark:hover:bg-white/10 rounded-lg transition-all duration-150 flex items-center gap-2 text-sm font-medium text-[#1D1D1F] dark:text-white"
+              title={t.planner}
+              aria-pressed={isPlannerOpen}
+            >
+              <WandSparkles size={18} className={plan ? 'text-[#FF9F0A]' : 'text-[#86868B] dark:text-white/60'} />
+              <span className="hidden lg:inline">{t.planner}</span>
+            </button>
+            <button
+              onClick={() => {
+                setDetailTaskId(null);
+                setIsReviewOpen(false);
+                setIsTimetableOpen(false);
+                setIsPlannerOpen(false);
+                setIsProjectsOpen(!isProjectsOpen);
+              }}
+              className="p-2 hover:bg-black/5 dark:hover:bg-white/10 rounded-lg transition-all duration-150 flex items-center gap-2 text-sm font-medium text-[#1D1D1F] dark:text-white"
+              title={t.projects}
+              aria-pressed={isProjectsOpen}
+            >
+              <FolderKanban size={18} className={projects.length > 0 ? 'text-[#0A84FF]' : 'text-[#86868B] dark:text-white/60'} />
+              <span className="hidden lg:inline">{t.projects}</span>
+            </button>
+            <button
+              onClick={() => {
+                setDetailTaskId(null);
+                setIsTimetableOpen(false);
+                setIsProjectsOpen(false);
+                setIsPlannerOpen(false);
+                setIsReviewOpen(!isReviewOpen);
+              }}
+              className="p-2 hover:bg-black/5 dark:hover:bg-white/10 rounded-lg transition-all duration-150 flex items-center gap-2 text-sm font-medium text-[#1D1D1F] dark:text-white"
+              title={t.weeklyReview}
+              aria-pressed={isReviewOpen}
+            >
+              <ClipboardCheck size={18} className="text-[#86868B] dark:text-white/60" />
+              <span className="hidden lg:inline">{t.weeklyReview}</span>
+            </button>
+            <button
+              onClick={() => {
+                setDetailTaskId(null);
+                setIsReviewOpen(false);
+                setIsProjectsOpen(false);
+                setIsPlannerOpen(false);
+                setIsTimetableOpen(!isTimetableOpen);
+              }}
+              className="p-2 hover:bg-black/5 dark:hover:bg-white/10 rounded-lg transition-all duration-150 flex items-center gap-2 text-sm font-medium text-[#1D1D1F] dark:text-white"
+              title={t.timetable}
+              aria-pressed={isTimetableOpen}
+            >
+              <GraduationCap size={18} className={timetable?.visible ? 'text-[#5856D6]' : 'text-[#86868B] dark:text-white/60'} />
+              <span className="hidden lg:inline">{t.timetable}</span>
+            </button>
+            <button
+              onClick={toggleReminders}
+              className="p-2 hover:bg-black/5 dark:hover:bg-white/10 rounded-lg transition-all duration-150 flex items-center gap-2 text-sm font-medium text-[#1D1D1F] dark:text-white"
+              title={isRemindersOn ? t.remindersOn : t.remindersOff}
+              aria-pressed={isRemindersOn}
+            >
+              {isRemindersOn
+                ? <Bell size={18} className="text-[#FF9F0A]" />
+                : <BellOff size={18} className="text-[#86868B] dark:text-white/60" />}
+              <span className="hidden lg:inline">{isRemindersOn ? t.remindersOn : t.remindersOff}</span>
+            </button>
+            <input
+              ref={icsInputRef}
+              type="file"
+              accept=".ics,text/calendar"
+              onChange={importCalendar}
+              className="hidden"
+            />
+            <button
+              onClick={() => icsInputRef.current?.click()}
+              className="p-2 hover:bg-black/5 dark:hover:bg-white/10 rounded-lg transition-all duration-150 flex items-center gap-2 text-sm font-medium text-[#1D1D1F] dark:text-white"
+              title={t.importIcs}
+            >
+              <Upload size={18} className="text-[#86868B] dark:text-white/60" />
+              <span className="hidden lg:inline">{t.importIcs}</span>
+            </button>
+            <div className="relative">
+              <button
+                onClick={() => setIsExportMenuOpen(!isExportMenuOpen)}
+                disabled={tasks.length === 0}
+                className="p-2 hover:bg-black/5 dark:hover:bg-white/10 rounded-lg disabled:opacity-40 transition-all duration-150 flex items-center gap-2 text-sm font-medium text-[#1D1D1F] dark:text-white"
+                title={t.exportIcs}
+              >
+                <Download size={18} className="text-[#86868B] dark:text-white/60" />
+                <span className="hidden lg:inline">{t.exportIcs}</span>
+              </button>
+              {isExportMenuOpen && (
+                <div className="absolute right-0 top-full mt-1 w-48 py-1 bg-white dark:bg-[#2C2C2E] rounded-xl shadow-xl border border-black/10 dark:border-white/10 z-10 animate-slideIn">
+                  <button
+                    onClick={() => exportCalendar(null)}
+                    className="w-full px-4 py-2 text-left text-sm font-medium text-[#1D1D1F] dark:text-white hover:bg-black/5 dark:hover:bg-white/10"
+                  >
+                    {t.exportAll}
+                  </button>
+                  {categories.filter(cat => tasks.some(task => task.categoryId === cat.id)).map(cat => (
+                    <button
+                      key={cat.id}
+                      onClick={() => exportCalendar(cat.id)}
+                      className="w-full px-4 py-2 text-left text-sm text-[#1D1D1F] dark:text-white hover:bg-black/5 dark:hover:bg-white/10 flex items-center gap-2"
+                    >
+                      <span className="w-2 h-2 rounded-full" style={{ backgroundColor: cat.color }} />
+                      {cat.name}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+            <button
+              onClick={handleClose}
+              className="p-2 hover:bg-black/5 dark:hover:bg-white/10 rounded-full transition-all duration-150 hover:rotate-90 flex-shrink-0"
+              aria-label="Close"
+            >
+              <X size={20} className="text-[#86868B] dark:text-white/60 sm:w-6 sm:h-6" />
+            </button>
+          </div>
         </div>
 
         {/* Content - Two Column Layout */}
         <div className="flex flex-col md:flex-row h-[calc(95vh-80px)] sm:h-[calc(90vh-120px)]">
           {/* Left Column - Calendar */}
-          <div className="w-full md:w-1/2 border-b md:border-b-0 md:border-r border-black/10 dark:border-white/10 p-4 sm:p-6 md:p-8 overflow-y-auto">
-            {/* Month Navigation */}
+          <div className={`w-full ${viewMode === 'board' ? 'hidden' : !isTimeGrid ? 'md:w-1/2 overflow-y-auto' : 'md:w-2/3 flex flex-col'} border-b md:border-b-0 md:border-r border-black/10 dark:border-white/10 p-4 sm:p-6 md:p-8`}>
+            {/* Calendar View Switcher */}
+            <div className="flex items-center gap-2 mb-4">
+              <div className="flex-1 flex gap-1 p-1 bg-[#F5F5F7] dark:bg-[#1C1C1E] rounded-lg">
+                {CALENDAR_VIEWS.map(view => (
+                  <button
+                    key={view}
+                    onClick={() => setCalendarView(view)}
+                    className={`flex-1 px-3 py-1.5 rounded-md text-xs sm:text-sm font-medium transition-all duration-150 ${
+                      calendarView === view
+                        ? 'bg-white dark:bg-[#2C2C2E] text-[#1D1D1F] dark:text-white shadow-sm'
+                        : 'text-[#86868B] dark:text-white/60 hover:text-[#1D1D1F] dark:hover:text-white'
+                    }`}
+                  >
+                    {t.views[view]}
+                  </button>
+                ))}
+              </div>
+              <select
+                value={weekStart}
+                onChange={(e) => setWeekStart(e.target.value === '1' ? 1 : 0)}
+                className="px-2 py-2 bg-[#F5F5F7] dark:bg-[#1C1C1E] rounded-lg text-xs text-[#1D1D1F] dark:text-white border-none outline-none"
+                aria-label={t.weekStartsOn}
+                title={t.weekStartsOn}
+              >
+                <option value={0}>{weekdayNames(locale, 0, 'long')[0]}</option>
+                <option value={1}>{weekdayNames(locale, 1, 'long')[0]}</option>
+              </select>
+              <button
+                onClick={() => setHkOverlay(!hkOverlay)}
+                className={`p-2 rounded-lg transition-all duration-150 ${
+                  hkOverlay ? 'bg-[#FF375F]/10 text-[#FF375F]' : 'bg-[#F5F5F7] dark:bg-[#1C1C1E] text-[#86868B] dark:text-white/60 hover:text-[#1D1D1F] dark:hover:text-white'
+                }`}
+                aria-pressed={hkOverlay}
+                aria-label={t.hkOverlay}
+                title={t.hkOverlay}
+              >
+                <MoonStar size={16} />
+              </button>
+            </div>
+
+            {/* Period Navigation */}
             <div className="flex items-center justify-between mb-4 sm:mb-6">
               <button
-                onClick={prevMonth}
+                onClick={() => stepPeriod(-1)}
                 className="p-2 hover:bg-black/5 dark:hover:bg-white/10 rounded-lg transition-all duration-150"
               >
                 <ChevronLeft size={20} className="text-[#1D1D1F] dark:text-white" />
               </button>
-              <h3 className="text-lg font-bold text-[#1D1D1F] dark:text-white">
-                {MONTHS[currentDate.getMonth()]} {currentDate.getFullYear()}
+              <h3 className="text-lg font-bold text-[#1D1D1F] dark:text-white text-center">
+                {periodTitle}
               </h3>
               <button
-                onClick={nextMonth}
+                onClick={() => stepPeriod(1)}
                 className="p-2 hover:bg-black/5 dark:hover:bg-white/10 rounded-lg transition-all duration-150"
               >
                 <ChevronRight size={20} className="text-[#1D1D1F] dark:text-white" />
               </button>
             </div>
 
-            <Calendar
-              currentDate={currentDate}
-              selectedDate={selectedDate}
-              onSelectDate={setSelectedDate}
-              tasks={tasks}
-            />
+            {calendarView === 'year' ? (
+              <YearHeatmap
+                lang={lang}
+                year={year}
+                tasks={yearTasks}
+                selectedDate={selectedDate}
+                weekStart={weekStart}
+                onSelectDate={openDayInMonth}
+              />
+            ) : calendarView === 'month' ? (
+              <>
+                <Calendar
+                  currentDate={currentDate}
+                  selectedDate={selectedDate}
+                  onSelectDate={selectDate}
+                  tasks={monthTasks}
+                  classDates={monthClassDates}
+                  dropDate={drag?.over}
+                  weekStart={weekStart}
+                  locale={locale}
+                  lang={lang}
+                  hkOverlay={hkOverlay}
+                />
 
-            {/* Legend */}
-            <div className="mt-6 flex items-center gap-4 text-xs">
-              <div className="flex items-center gap-1.5">
-                <div className="w-2 h-2 rounded-full bg-[#FF375F]" />
-                <span className="text-[#86868B] dark:text-white/60">Pending</span>
-              </div>
-              <div className="flex items-center gap-1.5">
-                <div className="w-2 h-2 rounded-full bg-[#30D158]" />
-                <span className="text-[#86868B] dark:text-white/60">Completed</span>
+                {/* Legend */}
+                <div className="mt-6 flex items-center gap-4 text-xs">
+                  <div className="flex items-center gap-1.5">
+                    <div className="w-2 h-2 rounded-full bg-[#FF375F]" />
+                    <span className="text-[#86868B] dark:text-white/60">{t.legendPending}</span>
+                  </div>
+                  <div className="flex items-center gap-1.5">
+                    <div className="w-2 h-2 rounded-full bg-[#30D158]" />
+                    <span className="text-[#86868B] dark:text-white/60">{t.legendCompleted}</span>
+                  </div>
+                  {monthClassDates.size > 0 && (
+                    <div className="flex items-center gap-1.5">
+                      <div className="w-3 h-0.5 rounded-full bg-[#5856D6]" />
+                      <span className="text-[#86868B] dark:text-white/60">{t.classes}</span>
+                    </div>
+                  )}
+                  {hkOverlay && (hasHolidays(currentDate.getFullYear()) ? (
+                    <div className="flex items-center gap-1.5">
+                      <span className="text-[10px] font-bold leading-none text-[#FF375F]">1</span>
+                      <span className="text-[#86868B] dark:text-white/60">{t.legendHoliday}</span>
+                    </div>
+                  ) : (
+                    <span className="text-[#86868B] dark:text-white/60">{t.noHolidayData(FIRST_HOLIDAY_YEAR, LAST_HOLIDAY_YEAR)}</span>
+                  ))}
+                </div>
+              </>
+            ) : (
+              <div className="flex-1 min-h-0">
+                <TimeGrid
+                  key={calendarView}
+                  lang={lang}
+                  days={gridDays}
+                  tasks={gridTasks}
+                  classes={gridClasses}
+                  sessions={gridSessions}
+                  categories={categories}
+                  selectedDate={selectedDate}
+                  onSelectDate={selectDate}
+                  dropDate={drag?.over}
+                />
               </div>
-            </div>
+            )}
           </div>
 
           {/* Right Column - Tasks */}
-          <div className="w-full md:w-1/2 flex flex-col">
+          <div className={`w-full ${viewMode === 'board' ? 'md:w-full' : !isTimeGrid ? 'md:w-1/2' : 'md:w-1/3'} flex flex-col`}>
             {/* View Mode Tabs */}
             <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between px-4 sm:px-6 md:px-8 py-3 sm:py-4 border-b border-black/10 dark:border-white/10 gap-3 sm:gap-0">
               <div className="flex gap-2 w-full sm:w-auto overflow-x-auto">
@@ -481,7 +1517,7 @@ export default function CalendarToDo({ theme, lang: propLang, onClose }: { theme
                       : 'text-[#86868B] dark:text-white/60 hover:bg-black/5 dark:hover:bg-white/10'
                   }`}
                 >
-                  {selectedDate.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+                  {selectedDate.toLocaleDateString(locale, { month: 'short', day: 'numeric' })}
                 </button>
                 <button
                   onClick={() => setViewMode('all')}
@@ -494,31 +1530,107 @@ export default function CalendarToDo({ theme, lang: propLang, onClose }: { theme
                   <List size={16} />
                   {t.allTasks}
                 </button>
+                <button
+                  onClick={() => {
+                    setViewMode('board');
+                    setIsSelecting(false);
+                    setSelectedKeys([]);
+                  }}
+                  className={`px-3 sm:px-4 py-2 rounded-lg text-xs sm:text-sm font-medium transition-all duration-150 flex items-center gap-2 whitespace-nowrap ${
+                    viewMode === 'board'
+                      ? 'bg-[#0A84FF] text-white'
+                      : 'text-[#86868B] dark:text-white/60 hover:bg-black/5 dark:hover:bg-white/10'
+                  }`}
+                >
+                  <SquareKanban size={16} />
+                  {t.board}
+                </button>
               </div>
 
-              {viewMode === 'all' && (
-                <div className="flex items-center gap-2">
-                  <Filter size={16} className="text-[#86868B] dark:text-white/60" />
-                  <select
-                    value={filterCategory || ''}
-                    onChange={(e) => setFilterCategory(e.target.value || null)}
-                    className="px-3 py-1.5 bg-[#F5F5F7] dark:bg-[#1C1C1E] rounded-lg text-sm text-[#1D1D1F] dark:text-white border-none outline-none"
-                  >
-                    <option value="">All Categories</option>
-                    {categories.map(cat => (
-                      <option key={cat.id} value={cat.id}>{cat.name}</option>
-                    ))}
-                  </select>
-                </div>
-              )}
             </div>
 
             {/* Stats */}
             <div className="px-8 py-3 bg-[#F5F5F7] dark:bg-[#1C1C1E] flex items-center gap-4 text-sm">
               <span className="text-[#FF375F] font-medium">{pendingCount} {t.pending}</span>
               <span className="text-[#30D158] font-medium">{completedCount} {t.completed}</span>
+              <button
+                onClick={() => setSortMode(sortMode === 'time' ? 'priority' : 'time')}
+                className={`ml-auto flex items-center gap-1.5 px-2.5 py-1 rounded-lg text-xs font-medium transition-all duration-150 ${
+                  sortMode === 'priority'
+                    ? 'bg-[#0A84FF] text-white'
+                    : 'text-[#86868B] dark:text-white/60 hover:bg-black/5 dark:hover:bg-white/10'
+                }`}
+                title={sortMode === 'priority' ? t.sortByTime : t.sortByPriority}
+              >
+                <ArrowUpDown size={14} />
+                {sortMode === 'priority' ? t.sortByTime : t.sortByPriority}
+              </button>
+              {viewMode !== 'board' && (
+                <button
+                  onClick={() => {
+                    setIsSelecting(!isSelecting);
+                    setSelectedKeys([]);
+                  }}
+                  className={`flex items-center gap-1.5 px-2.5 py-1 rounded-lg text-xs font-medium transition-all duration-150 ${
+                    isSelecting
+                      ? 'bg-[#0A84FF] text-white'
+                      : 'text-[#86868B] dark:text-white/60 hover:bg-black/5 dark:hover:bg-white/10'
+                  }`}
+                  aria-pressed={isSelecting}
+                >
+                  <CheckSquare size={14} />
+                  {t.select}
+                </button>
+              )}
             </div>
 
+            {/* Selection: move several tasks at once */}
+            {isSelecting && (
+              <div className="px-8 py-2.5 bg-[#0A84FF]/10 flex items-center gap-3 flex-wrap text-sm">
+                <span className="font-medium text-[#0A84FF]">{t.selected(selectedTasks.length)}</span>
+                <button
+                  onClick={() => setSelectedKeys(sortedTasks.map(occurrenceKey))}
+                  className="text-xs font-medium text-[#0A84FF] hover:underline"
+                >
+                  {t.selectAll}
+                </button>
+                <label className="flex items-center gap-1.5 text-xs text-[#86868B] dark:text-white/60">
+                  {t.moveTo}
+                  <input
+                    type="date"
+                    value=""
+                    disabled={selectedTasks.length === 0}
+                    onChange={(e) => e.target.value && moveTasks(selectedTasks, e.target.value)}
+                    className="px-2 py-1 bg-white dark:bg-[#1C1C1E] rounded-lg text-xs text-[#1D1D1F] dark:text-white outline-none focus:ring-1 focus:ring-[#0A84FF] disabled:opacity-40"
+                  />
+                </label>
+                <button
+                  onClick={() => {
+                    setIsSelecting(false);
+                    setSelectedKeys([]);
+                  }}
+                  className="ml-auto px-3 py-1 text-xs font-medium bg-[#0A84FF] text-white rounded hover:bg-[#0A84FF]/90 transition-all duration-150"
+                >
+                  {t.done}
+                </button>
+              </div>
+            )}
+
+            {/* Search and filters */}
+            {viewMode !== 'date' && (
+              <div className="px-8 py-4 bg-white dark:bg-[#0B0B0D] border-b border-black/10 dark:border-white/10">
+                <TaskFilterBar
+                  lang={lang}
+                  filter={filter}
+                  onChange={setFilter}
+                  categories={categories}
+                  smartLists={smartLists}
+                  onSaveList={(name) => setSmartLists([...smartLists, { id: Date.now().toString(), name, filter }])}
+                  onDeleteList={(id) => setSmartLists(smartLists.filter(list => list.id !== id))}
+                />
+              </div>
+            )}
+
             {/* Add Task Form */}
             {viewMode === 'date' && (
               <div className="px-8 py-4 bg-white dark:bg-[#0B0B0D] border-b border-black/10 dark:border-white/10">
@@ -533,14 +1645,45 @@ export default function CalendarToDo({ theme, lang: propLang, onClose }: { theme
                   />
                   <button
                     onClick={addTask}
-                    disabled={!newTaskTitle.trim()}
+                    disabled={!quickAdd.title}
                     className="px-6 py-2.5 bg-[#FF9F0A] text-white rounded-lg font-medium hover:bg-[#FF9F0A]/90 disabled:opacity-40 disabled:cursor-not-allowed transition-all duration-150 flex items-center gap-2"
                   >
                     <Plus size={18} />
                     {t.add}
                   </button>
                 </div>
+
+                <QuickAddPreview lang={lang} value={quickAdd} categories={categories} />
                 
+                {/* Time */}
+                <div className="mb-3">
+                  <TimeFields
+                    start={newTaskStart}
+                    end={newTaskEnd}
+                    onChange={(start, end) => {
+                      setNewTaskStart(start);
+                      setNewTaskEnd(end);
+                    }}
+                    t={t}
+                  />
+                </div>
+
+                {/* Reminders */}
+                <div className="mb-3">
+                  <ReminderPicker lang={lang} value={newTaskReminders} onChange={setNewTaskReminders} />
+                </div>
+
+                {/* Repeat */}
+                <div className="mb-3">
+                  <RecurrenceEditor
+                    lang={lang}
+                    value={newTaskRecurrence}
+                    onChange={setNewTaskRecurrence}
+                    anchor={quickAdd.date ?? selectedDateStr}
+                    weekStart={weekStart}
+                  />
+                </div>
+
                 {/* Category Selection */}
                 <div className="space-y-2">
                   <div className="flex gap-2 flex-wrap">
@@ -626,7 +1769,124 @@ export default function CalendarToDo({ theme, lang: propLang, onClose }: { theme
 
             {/* Tasks List */}
             <div className="flex-1 overflow-y-auto px-8 py-4">
-              {sortedTasks.length === 0 ? (
+              {showOverdue && (
+                <div className="mb-4 p-3 rounded-xl bg-[#FF375F]/5 border border-[#FF375F]/20 space-y-2">
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <p className="flex items-center gap-1.5 text-xs font-semibold text-[#FF375F] uppercase tracking-wider">
+                      <AlertCircle size={12} />
+                      {t.overdue} · {overdueTasks.length}
+                    </p>
+                    <div className="flex-1" />
+                    <button
+                      onClick={() => moveTasks(overdueTasks, todayStr)}
+                      className="px-2.5 py-1 text-xs font-medium bg-[#0A84FF] text-white rounded hover:bg-[#0A84FF]/90 transition-all duration-150"
+                    >
+                      {t.rollAllToToday}
+                    </button>
+                    <label className="flex items-center gap-1.5 text-xs text-[#86868B] dark:text-white/60">
+                      {t.rescheduleAll}
+                      <input
+                        type="date"
+                        value=""
+                        min={todayStr}
+                        onChange={(e) => e.target.value && moveTasks(overdueTasks, e.target.value)}
+                        className="px-2 py-0.5 bg-white dark:bg-[#1C1C1E] rounded text-xs text-[#1D1D1F] dark:text-white outline-none focus:ring-1 focus:ring-[#0A84FF]"
+                      />
+                    </label>
+                  </div>
+                  {overdueTasks.map(task => (
+                    <TaskItem
+                      key={occurrenceKey(task)}
+                      task={task}
+                      onToggle={() => toggleTask(task)}
+                      onDelete={(scope) => deleteTask(task, scope)}
+                      onEdit={(change, scope) => editTask(task, change, scope)}
+                      onOpen={() => openDetails(task.id)}
+                      onDragStart={(event) => startDrag(event, [task], task.title)}
+                      onMoveBy={(days) => moveTasks([task], addDaysToKey(task.date, days))}
+                      onRollForward={() => moveTasks([task], todayStr)}
+                      category={getCategoryById(task.categoryId)}
+                      showDate
+                      lang={lang}
+                      t={t}
+                    />
+                  ))}
+                </div>
+              )}
+              {viewMode === 'date' && (selectedHoliday || selectedLunar) && (
+                <div className="mb-4 flex items-center gap-2 flex-wrap text-sm">
+                  {selectedHoliday && (
+                    <span className="flex items-center gap-1.5 px-2 py-1 rounded-lg bg-[#FF375F]/10 text-[#FF375F] font-medium">
+                      <CalendarHeart size={14} />
+                      {selectedHoliday}
+                    </span>
+                  )}
+                  {selectedLunar && (
+                    <span className="text-xs text-[#86868B] dark:text-white/60">
+                      {t.lunarDate(`${lunarMonthName(selectedLunar)}${lunarDayName(selectedLunar.day)}`)}
+                    </span>
+                  )}
+                </div>
+              )}
+              {viewMode === 'date' && selectedDateSessions.length > 0 && (
+                <div className="mb-4 space-y-1.5">
+                  <p className="flex items-center gap-1.5 text-xs font-semibold text-[#FF9F0A] uppercase tracking-wider">
+                    <WandSparkles size={12} />
+                    {t.plannedWork}
+                  </p>
+                  {selectedDateSessions.map(session => (
+                    <div
+                      key={session.id}
+                      className={`flex items-center gap-3 px-3 py-2 rounded-lg text-sm ${
+                        session.proposed ? 'border border-dashed border-[#FF9F0A]/60 bg-[#FF9F0A]/5' : 'bg-[#FF9F0A]/10'
+                      }`}
+                    >
+                      <span className="text-xs text-[#86868B] dark:text-white/60 tabular-nums">
+                        {formatTime(session.start, locale)}–{formatTime(session.end, locale)}
+                      </span>
+                      <span className="font-medium text-[#1D1D1F] dark:text-white truncate">{session.title}</span>
+                      {session.proposed && (
+                        <span className="ml-auto text-xs font-medium text-[#FF9F0A]">{t.proposed}</span>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+              {viewMode === 'date' && selectedDateClasses.length > 0 && (
+                <div className="mb-4 space-y-1.5">
+                  <p className="flex items-center gap-1.5 text-xs font-semibold text-[#5856D6] uppercase tracking-wider">
+                    <GraduationCap size={12} />
+                    {t.classes}
+                  </p>
+                  {selectedDateClasses.map(c => (
+                    <div key={c.id} className="flex items-center gap-3 px-3 py-2 rounded-lg border border-dashed border-[#5856D6]/40 bg-[#5856D6]/5 text-sm">
+                      <span className="text-xs text-[#86868B] dark:text-white/60 tabular-nums">
+                        {formatTime(c.start, locale)}–{formatTime(c.end, locale)}
+                      </span>
+                      <span className="font-semibold text-[#5856D6]">{c.course}</span>
+                      {c.venue && (
+                        <span className="flex items-center gap-1 text-xs text-[#86868B] dark:text-white/60 truncate">
+                          <MapPin size={12} />
+                          {c.venue}
+                        </span>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+              {viewMode === 'board' ? (
+                <TaskBoard
+                  lang={lang}
+                  tasks={sortedTasks}
+                  categories={categories}
+                  grouping={boardGrouping}
+                  onGroupingChange={setBoardGrouping}
+                  over={boardDrag?.over}
+                  onDragStart={(event, task) => startBoardDrag(event, [task], task.title)}
+                  onMoveTo={moveToColumn}
+                  onOpen={(task) => openDetails(task.id)}
+                />
+              ) : sortedTasks.length === 0 ? (
                 <div className="flex flex-col items-center justify-center h-full text-center">
                   <div className="p-4 bg-[#F5F5F7] dark:bg-[#1C1C1E] rounded-full mb-4">
                     <CalendarIcon size={32} className="text-[#86868B] dark:text-white/40" />
@@ -642,12 +1902,21 @@ export default function CalendarToDo({ theme, lang: propLang, onClose }: { theme
                 <div className="space-y-2">
                   {sortedTasks.map((task) => (
                     <TaskItem
-                      key={task.id}
+                      key={`${task.id}-${task.occurrenceDate ?? ''}`}
                       task={task}
-                      onToggle={() => toggleTask(task.id)}
-                      onDelete={() => deleteTask(task.id)}
+                      onToggle={() => toggleTask(task)}
+                      onDelete={(scope) => deleteTask(task, scope)}
+                      onEdit={(change, scope) => editTask(task, change, scope)}
+                      onOpen={() => openDetails(task.id)}
+                      onDragStart={(event) => dragTask(event, task)}
+                      onMoveBy={(days) => moveTaskBy(task, days)}
+                      isSelecting={isSelecting}
+                      isSelected={selectedKeys.includes(occurrenceKey(task))}
+                      onSelect={() => toggleSelected(task)}
                       category={getCategoryById(task.categoryId)}
                       showDate={viewMode === 'all'}
+                      lang={lang}
+                      t={t}
                     />
                   ))}
                 </div>
@@ -655,8 +1924,83 @@ export default function CalendarToDo({ theme, lang: propLang, onClose }: { theme
             </div>
           </div>
         </div>
+
+        {isReviewOpen && (
+          <WeeklyReview
+            lang={lang}
+            tasks={tasks}
+            categories={categories}
+            timetable={timetable}
+            onComplete={toggleTask}
+            onMove={(task, date) => moveTasks([task], date)}
+            onDrop={(task) => deleteTask(task, 'occurrence')}
+            onClose={() => setIsReviewOpen(false)}
+          />
+        )}
+
+        {isTimetableOpen && (
+          <TimetableEditor
+            lang={lang}
+            value={timetable}
+            onChange={setTimetable}
+            onClose={() => setIsTimetableOpen(false)}
+          />
+        )}
+
+        {isPlannerOpen && (
+          <PlannerPanel
+            lang={lang}
+            weekStart={weekStart}
+            hours={workingHours}
+            onHoursChange={setWorkingHours}
+            tasks={tasks}
+            plan={plan}
+            onPlan={runPlanner}
+            onAccept={acceptPlan}
+            onDiscard={() => setPlan(null)}
+            onClearPlanned={clearPlanned}
+            onClose={() => setIsPlannerOpen(false)}
+          />
+        )}
+
+        {isProjectsOpen && (
+          <ProjectsPanel
+            lang={lang}
+            projects={projects}
+            tasks={seriesTasks}
+            onChange={setProjects}
+            onDeleteProject={deleteProject}
+            onRemoveMilestone={removeMilestone}
+            onAddTask={addProjectTask}
+            onToggleTask={toggleTask}
+            onOpenTask={openDetails}
+            onClose={() => setIsProjectsOpen(false)}
+          />
+        )}
+
+        {detailTask && (
+          <TaskDetail
+            lang={lang}
+            task={detailTask}
+            projects={projects}
+            blockers={detailBlockers}
+            blockerOptions={detailBlockerOptions}
+            onChange={(details) => updateDetails(detailTask.id, details)}
+            onClose={() => setDetailTaskId(null)}
+          />
+        )}
       </div>
 
+      {/* Follows the pointer while tasks are dragged; outside the scaled dialog so it stays fixed to the viewport */}
+      {ghost && (
+        <div
+          className="fixed z-[60] pointer-events-none px-3 py-1.5 bg-[#0A84FF] text-white text-sm font-medium rounded-lg shadow-xl max-w-[14rem] truncate"
+          style={{ left: ghost.x + 12, top: ghost.y + 12 }}
+        >
+          {ghost.label}
+        </div>
+      )}
+
       <style>{`
         @keyframes fadeIn {
           from { opacity: 0; }
@@ -1,14 +1,31 @@
 import React, { useState, useRef, useEffect } from "react";
-import { BookMarked, Plus, Upload, Download, Play, X, ChevronLeft, ChevronRight, Shuffle, RotateCcw, Trash2 } from "lucide-react";
-import jsPDF from "jspdf";
+import { BookMarked, Plus, Upload, Download, Play, X, Shuffle, Trash2, PartyPopper, Package, PackageOpen, Scissors, ListChecks, BarChart3 } from "lucide-react";
+import { Grade, GRADES, LEARN_AHEAD_MS, MASTERED_INTERVAL, newSchedule, review, isDue, isMastered, formatDelay } from "./flashcards/scheduler";
+import type { CardType, Deck, Flashcard } from "./flashcards/types";
+import { importApkg, exportApkg } from "./flashcards/apkg";
+import { putMedia, deleteDeckMedia, copyMedia, mediaReferences, renameMediaReferences, imageInputProps } from "./flashcards/media";
+import { rendererFor } from "./flashcards/cardTypes";
+import { clozeCards, hasCloze, syncClozeNote, wrapCloze } from "./flashcards/cloze";
+import ImportWizard from "./flashcards/ImportWizard";
+import CardManager from "./flashcards/CardManager";
+import DeckStats from "./flashcards/DeckStats";
+import { logReview, deleteCardReviews, deleteDeckReviews, moveCardReviews } from "./flashcards/reviewLog";
+import { TypedAnswer, MultipleChoice } from "./flashcards/QuizControls";
+import { StudyModeKind, canQuizChoice, hasTextAnswer } from "./flashcards/quiz";
+import { exportDeckPDF, FontUnavailableError, PdfLayout } from "./flashcards/pdf";
 
 /**
  * Flashcards — Apple × Swiss blend
  * - Create and manage flashcard decks
- * - Bulk import from CSV
- * - Export to PDF for studying
- * - Self-testing mode with flip animation
- * - Progress tracking
+ * - Basic and cloze-deletion cards ({{c1::answer}}, one card per deletion)
+ * - Markdown, LaTeX math and pasted/dropped images on card faces
+ * - Edit, search and bulk-manage cards (delete, move/copy, reset progress)
+ * - Bulk import from CSV/TSV/Quizlet with column mapping and preview
+ * - Anki .apkg import/export (offline, with media)
+ * - Export to PDF for studying, or as double-sided cut-out cards (CJK-capable)
+ * - Self-testing mode with flip animation, typed answers or multiple choice
+ * - Spaced repetition (SM-2) with Again/Hard/Good/Easy grading
+ * - Progress tracking: every review is logged, with per-deck statistics
  * - Dark mode support
  * - EN/粵 bilingual support
  */
@@ -26,9 +43,47 @@ const TRANSLATIONS = {
     front: "Front (Question)...",
     back: "Back (Answer)...",
     addCard: "Add Card",
+    basic: "Basic",
+    cloze: "Cloze",
+    clozeText: "Text with {{c1::deletions}}...",
+    clozeExtra: "Extra (optional)...",
+    wrapCloze: "Make cloze (Ctrl/⌘+Shift+C)",
+    clozeMissing: "Add at least one cloze deletion, e.g. {{c1::answer}}.",
+    richHint: "Markdown, $LaTeX$ and pasted or dropped images work on both sides.",
     latest: "Latest:",
     question: "Question",
-    answer: "Answer"
+    answer: "Answer",
+    due: "due",
+    clickToFlip: "Click card to flip",
+    showAnswer: "Show Answer",
+    remaining: "left in session",
+    shuffle: "Shuffle",
+    again: "Again",
+    hard: "Hard",
+    good: "Good",
+    easy: "Easy",
+    allCaughtUp: "All caught up!",
+    nextDue: "Next card due in",
+    nothingScheduled: "No cards scheduled",
+    reviewedToday: "reviewed this session",
+    modeFlip: "Flip",
+    modeTyped: "Type",
+    modeChoice: "Choice",
+    importAnki: "Import Anki",
+    importCsv: "Import CSV / TSV",
+    importing: "Importing...",
+    importFailed: "Couldn't read this Anki package.",
+    exportAnki: "Export to Anki (.apkg)",
+    exportFailed: "Couldn't export this deck.",
+    exportPdf: "Export PDF",
+    printCards: "Print cut-out cards (PDF)",
+    pdfCard: "CARD",
+    pdfAnswer: "ANSWER",
+    pdfFlashcards: "flashcards",
+    pdfGeneratedBy: "Generated by BA14 Flashcards",
+    manageCards: "Manage cards",
+    statistics: "Statistics",
+    pdfFontMissing: "The Chinese font for PDF export isn't available. Add fonts/NotoSansTC-Regular.ttf to the site and try again."
   },
   粵: {
     title: "記憶卡",
@@ -42,35 +97,81 @@ const TRANSLATIONS = {
     front: "正面（問題）...",
     back: "背面（答案）...",
     addCard: "新增卡片",
+    basic: "基本",
+    cloze: "填充",
+    clozeText: "輸入文字，用 {{c1::挖空}} 標記...",
+    clozeExtra: "補充（可留空）...",
+    wrapCloze: "挖空所選文字 (Ctrl/⌘+Shift+C)",
+    clozeMissing: "請最少加一個挖空，例如 {{c1::答案}}。",
+    richHint: "兩面都可以用 Markdown、$LaTeX$，仲可以貼上或者拖入圖片。",
     latest: "最新：",
     question: "問題",
-    answer: "答案"
+    answer: "答案",
+    due: "張到期",
+    clickToFlip: "撳卡片反轉",
+    showAnswer: "睇答案",
+    remaining: "張今次剩低",
+    shuffle: "洗牌",
+    again: "重來",
+    hard: "難",
+    good: "好",
+    easy: "易",
+    allCaughtUp: "全部溫晒！",
+    nextDue: "下一張到期：",
+    nothingScheduled: "冇排程中嘅卡",
+    reviewedToday: "張今次溫咗",
+    modeFlip: "翻卡",
+    modeTyped: "輸入",
+    modeChoice: "選擇",
+    importAnki: "匯入 Anki",
+    importCsv: "匯入 CSV / TSV",
+    importing: "匯入緊...",
+    importFailed: "讀唔到呢個 Anki 檔案。",
+    exportAnki: "匯出去 Anki (.apkg)",
+    exportFailed: "匯出唔到呢個卡組。",
+    exportPdf: "匯出 PDF",
+    printCards: "列印剪裁卡片 (PDF)",
+    pdfCard: "卡片",
+    pdfAnswer: "答案",
+    pdfFlashcards: "張記憶卡",
+    pdfGeneratedBy: "由 BA14 記憶卡產生",
+    manageCards: "管理卡片",
+    statistics: "統計",
+    pdfFontMissing: "搵唔到 PDF 用嘅中文字型。請將 fonts/NotoSansTC-Regular.ttf 加入網站再試。"
   }
 } as const;
 
-type Flashcard = {
-  id: string;
-  front: string;
-  back: string;
-  mastered: boolean;
-};
+type Strings = (typeof TRANSLATIONS)[keyof typeof TRANSLATIONS];
+
+// Deck list preview of a card's front, with images shrunk to thumbnails
+function CardPreview({ card, deckId, label }: { card: Flashcard; deckId: string; label: string }) {
+  const { Front } = rendererFor(card);
+  return (
+    <div className="flex items-start gap-1 text-xs text-[#86868B] dark:text-white/60 max-h-16 overflow-hidden [&_img]:max-h-8 [&_.katex-display]:my-0">
+      <span className="flex-shrink-0">{label}</span>
+      <div className="min-w-0">
+        <Front card={card} deckId={deckId} />
+      </div>
+    </div>
+  );
+}
 
-type Deck = {
-  id: string;
-  name: string;
-  cards: Flashcard[];
-};
 
 // Flashcard Component
 function Card({ 
   card, 
+  deckId,
   isFlipped, 
-  onFlip 
+  onFlip,
+  t
 }: { 
   card: Flashcard; 
+  deckId: string;
   isFlipped: boolean; 
   onFlip: () => void;
+  t: Strings;
 }) {
+  const { Front, Back } = rendererFor(card);
   return (
     <div 
       onClick={onFlip}
@@ -91,13 +192,13 @@ function Card({
           className="absolute inset-0 backface-hidden bg-white dark:bg-[#1C1C1E] rounded-2xl border-2 border-[#0A84FF] p-8 flex items-center justify-center"
           style={{ backfaceVisibility: 'hidden' }}
         >
-          <div className="text-center">
+          <div className="text-center max-h-full overflow-y-auto">
             <div className="text-xs uppercase tracking-wider font-semibold text-[#0A84FF] mb-4">
-              Question
+              {t.question}
+            </div>
+            <div className="text-2xl font-semibold text-[#1D1D1F] dark:text-white leading-tight">
+              <Front card={card} deckId={deckId} />
             </div>
-            <p className="text-2xl font-semibold text-[#1D1D1F] dark:text-white leading-tight">
-              {card.front}
-            </p>
           </div>
         </div>
 
@@ -109,13 +210,13 @@ function Card({
             transform: 'rotateY(180deg)'
           }}
         >
-          <div className="text-center">
+          <div className="text-center max-h-full overflow-y-auto">
             <div className="text-xs uppercase tracking-wider font-semibold text-white/70 mb-4">
-              Answer
+              {t.answer}
+            </div>
+            <div className="text-2xl font-semibold text-white leading-tight">
+              <Back card={card} deckId={deckId} />
             </div>
-            <p className="text-2xl font-semibold text-white leading-tight">
-              {card.back}
-            </p>
           </div>
         </div>
       </div>
@@ -123,63 +224,89 @@ function Card({
   );
 }
 
+const GRADE_COLORS: Record<Grade, string> = {
+  again: "#FF375F",
+  hard: "#FF9F0A",
+  good: "#30D158",
+  easy: "#0A84FF",
+};
+
+// Due cards in the order they fell due (new cards keep their creation order)
+const buildQueue = (cards: Flashcard[], now: Date = new Date()) =>
+  cards
+    .filter(c => isDue(c.schedule, now))
+    .sort((a, b) => a.schedule.due.localeCompare(b.schedule.due))
+    .map(c => c.id);
+
 // Study Mode Component
 function StudyMode({ 
   deck, 
+  lang,
+  t,
   onClose,
   onUpdateDeck
 }: { 
   deck: Deck; 
+  lang: "EN" | "粵";
+  t: Strings;
   onClose: () => void;
   onUpdateDeck: (updatedDeck: Deck) => void;
 }) {
-  const [currentIndex, setCurrentIndex] = useState(0);
-  const [isFlipped, setIsFlipped] = useState(false);
-  const [shuffled, setShuffled] = useState(false);
   const [cards, setCards] = useState(deck.cards);
-  const [masteredCount, setMasteredCount] = useState(deck.cards.filter(c => c.mastered).length);
+  const [queue, setQueue] = useState<string[]>(() => buildQueue(deck.cards));
+  const [isFlipped, setIsFlipped] = useState(false);
+  const [reviewedCount, setReviewedCount] = useState(0);
+  const [mode, setMode] = useState<StudyModeKind>("flip");
+  const shownAt = useRef(Date.now());
 
-  const currentCard = cards[currentIndex];
-  const progress = ((currentIndex + 1) / cards.length) * 100;
+  const currentCard = cards.find(c => c.id === queue[0]);
+  // An answer that is only an image or sound can't be typed or offered as an option, so that card is flipped
+  const cardMode: StudyModeKind = currentCard && !hasTextAnswer(currentCard) ? "flip" : mode;
+  const masteredCount = cards.filter(c => isMastered(c.schedule)).length;
+  const progress = queue.length === 0 ? 100 : (reviewedCount / (reviewedCount + queue.length)) * 100;
 
-  const nextCard = () => {
-    if (currentIndex < cards.length - 1) {
-      setCurrentIndex(currentIndex + 1);
-      setIsFlipped(false);
-    }
-  };
+  const nextDue = cards.reduce<string | null>(
+    (earliest, c) => (earliest === null || c.schedule.due < earliest ? c.schedule.due : earliest),
+    null
+  );
 
-  const prevCard = () => {
-    if (currentIndex > 0) {
-      setCurrentIndex(currentIndex - 1);
-      setIsFlipped(false);
-    }
-  };
+  // Time taken runs from when a card (or its repeat) comes up
+  useEffect(() => {
+    shownAt.current = Date.now();
+  }, [currentCard?.id, reviewedCount]);
 
-  const shuffleCards = () => {
-    const shuffled = [...cards].sort(() => Math.random() - 0.5);
-    setCards(shuffled);
-    setCurrentIndex(0);
+  const gradeCard = (grade: Grade) => {
+    if (!currentCard) return;
+    const now = new Date();
+    const schedule = review(currentCard.schedule, grade, now);
+    logReview({
+      deckId: deck.id,
+      cardId: currentCard.id,
+      grade,
+      reviewedAt: now.toISOString(),
+      durationMs: now.getTime() - shownAt.current,
+      state: currentCard.schedule.state,
+      nextState: schedule.state,
+      interval: schedule.interval
+    });
+    const updated = cards.map(c => c.id === currentCard.id ? { ...c, schedule } : c);
+    setCards(updated);
+
+    // Learning steps that come due soon are shown again before the session ends
+    const rest = queue.slice(1);
+    const learnAhead = new Date(schedule.due).getTime() - now.getTime() <= LEARN_AHEAD_MS;
+    setQueue(learnAhead ? [...rest, currentCard.id] : rest);
+    setReviewedCount(reviewedCount + 1);
     setIsFlipped(false);
-    setShuffled(true);
-  };
 
-  const markMastered = (mastered: boolean) => {
-    const updated = [...cards];
-    updated[currentIndex] = { ...updated[currentIndex], mastered };
-    setCards(updated);
-    setMasteredCount(updated.filter(c => c.mastered).length);
-    
     // Save back to parent deck immediately
     onUpdateDeck({ ...deck, cards: updated });
   };
 
-  const reset = () => {
-    setCurrentIndex(0);
+  const shuffleCards = () => {
+    const shuffled = [...queue].sort(() => Math.random() - 0.5);
+    setQueue(shuffled);
     setIsFlipped(false);
-    setCards(deck.cards);
-    setMasteredCount(deck.cards.filter(c => c.mastered).length);
-    setShuffled(false);
   };
 
   const handleClose = () => {
@@ -188,6 +315,26 @@ function StudyMode({
     onClose();
   };
 
+  const changeMode = (next: StudyModeKind) => {
+    setMode(next);
+    setIsFlipped(false);
+  };
+
+  // Space flips, 1–4 grade once the answer is showing (quiz modes handle their own keys)
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (!currentCard || cardMode !== "flip") return;
+      if (e.key === ' ') {
+        e.preventDefault();
+        setIsFlipped(f => !f);
+      } else if (isFlipped && ['1', '2', '3', '4'].includes(e.key)) {
+        gradeCard(GRADES[Number(e.key) - 1]);
+      }
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  });
+
   return (
     <div className="fixed inset-0 bg-black/40 dark:bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-6 animate-fadeIn">
       <div className="bg-white dark:bg-[#0B0B0D] rounded-3xl shadow-2xl w-full max-w-3xl animate-scaleIn">
@@ -196,16 +343,38 @@ function StudyMode({
           <div>
             <h3 className="text-xl font-bold text-[#1D1D1F] dark:text-white">{deck.name}</h3>
             <p className="text-sm text-[#86868B] dark:text-white/60 mt-1">
-              Card {currentIndex + 1} of {cards.length} • {masteredCount} mastered
+              {queue.length} {t.remaining} • {reviewedCount} {t.reviewedToday} • {masteredCount} {t.mastered}
             </p>
           </div>
-          <button
-            onClick={handleClose}
-            className="p-2 hover:bg-black/5 dark:hover:bg-white/10 rounded-full transition-all duration-150 hover:rotate-90"
-            aria-label="Close"
-          >
-            <X size={24} className="text-[#86868B] dark:text-white/60" />
-          </button>
+          <div className="flex items-center gap-3">
+            <div className="inline-flex p-0.5 bg-[#F5F5F7] dark:bg-[#1C1C1E] rounded-lg">
+              {([
+                ["flip", t.modeFlip],
+                ["typed", t.modeTyped],
+                ["choice", t.modeChoice]
+              ] as const).map(([value, label]) => (
+                <button
+                  key={value}
+                  onClick={() => changeMode(value)}
+                  disabled={value === "choice" && !canQuizChoice(cards)}
+                  className={`px-3 py-1 rounded-md text-xs font-semibold transition-all duration-150 disabled:opacity-40 ${
+                    mode === value
+                      ? 'bg-white dark:bg-[#2C2C2E] text-[#1D1D1F] dark:text-white shadow-sm'
+                      : 'text-[#86868B] dark:text-white/60'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            <button
+              onClick={handleClose}
+              className="p-2 hover:bg-black/5 dark:hover:bg-white/10 rounded-full transition-all duration-150 hover:rotate-90"
+              aria-label="Close"
+            >
+              <X size={24} className="text-[#86868B] dark:text-white/60" />
+            </button>
+          </div>
         </div>
 
         {/* Progress Bar */}
@@ -216,82 +385,112 @@ function StudyMode({
           />
         </div>
 
-        {/* Card */}
-        <div className="p-12">
-          <Card card={currentCard} isFlipped={isFlipped} onFlip={() => setIsFlipped(!isFlipped)} />
-          
-          <div className="text-center mt-6 text-sm text-[#86868B] dark:text-white/60">
-            Click card to flip
-          </div>
-        </div>
+        {currentCard ? (
+          <>
+            {/* Card */}
+            <div className="p-12">
+              <Card
+                card={currentCard}
+                deckId={deck.id}
+                isFlipped={isFlipped}
+                // Quiz modes reveal the answer only once it has been given
+                onFlip={() => cardMode === "flip" && setIsFlipped(!isFlipped)}
+                t={t}
+              />
+              
+              {cardMode === "flip" && (
+                <div className="text-center mt-6 text-sm text-[#86868B] dark:text-white/60">
+                  {t.clickToFlip}
+                </div>
+              )}
+            </div>
 
-        {/* Controls */}
-        <div className="px-8 py-6 border-t border-black/10 dark:border-white/10">
-          <div className="flex items-center justify-between gap-4 mb-4">
-            <button
-              onClick={prevCard}
-              disabled={currentIndex === 0}
-              className="p-3 bg-[#F5F5F7] dark:bg-[#1C1C1E] rounded-xl hover:bg-[#E8E8ED] dark:hover:bg-[#2C2C2E] disabled:opacity-40 disabled:cursor-not-allowed transition-all duration-150"
-              aria-label="Previous card"
-            >
-              <ChevronLeft size={20} className="text-[#1D1D1F] dark:text-white" />
-            </button>
+            {/* Controls */}
+            <div className="px-8 py-6 border-t border-black/10 dark:border-white/10">
+              {cardMode === "typed" ? (
+                <div className="mb-4">
+                  <TypedAnswer
+                    key={`${currentCard.id}-${reviewedCount}`}
+                    lang={lang}
+                    card={currentCard}
+                    deckId={deck.id}
+                    onReveal={() => setIsFlipped(true)}
+                    onGrade={gradeCard}
+                  />
+                </div>
+              ) : cardMode === "choice" ? (
+                <div className="mb-4">
+                  <MultipleChoice
+                    key={`${currentCard.id}-${reviewedCount}`}
+                    lang={lang}
+                    card={currentCard}
+                    cards={cards}
+                    deckId={deck.id}
+                    onReveal={() => setIsFlipped(true)}
+                    onGrade={gradeCard}
+                  />
+                </div>
+              ) : isFlipped ? (
+                <div className="grid grid-cols-4 gap-2 mb-4">
+                  {GRADES.map((grade) => (
+                    <button
+                      key={grade}
+                      onClick={() => gradeCard(grade)}
+                      className="px-3 py-3 rounded-xl font-semibold text-white transition-all duration-150 hover:opacity-90 flex flex-col items-center"
+                      style={{ backgroundColor: GRADE_COLORS[grade] }}
+                    >
+                      <span>{t[grade]}</span>
+                      <span className="text-xs font-medium opacity-80">
+                        {formatDelay(review(currentCard.schedule, grade).due)}
+                      </span>
+                    </button>
+                  ))}
+                </div>
+              ) : (
+                <button
+                  onClick={() => setIsFlipped(true)}
+                  className="w-full mb-4 px-6 py-3 bg-[#0A84FF] text-white rounded-xl font-semibold hover:bg-[#0A84FF]/90 transition-all duration-150"
+                >
+                  {t.showAnswer}
+                </button>
+              )}
 
-            <div className="flex gap-2">
               <button
-                onClick={() => markMastered(false)}
-                className={`px-6 py-3 rounded-xl font-semibold transition-all duration-150 ${
-                  currentCard.mastered === false
-                    ? 'bg-[#FF375F] text-white'
-                    : 'bg-[#F5F5F7] dark:bg-[#1C1C1E] text-[#1D1D1F] dark:text-white hover:bg-[#E8E8ED] dark:hover:bg-[#2C2C2E]'
-                }`}
+                onClick={shuffleCards}
+                className="w-full px-4 py-2.5 bg-[#F5F5F7] dark:bg-[#1C1C1E] rounded-lg hover:bg-[#E8E8ED] dark:hover:bg-[#2C2C2E] text-sm font-medium text-[#1D1D1F] dark:text-white transition-all duration-150 flex items-center justify-center gap-2"
               >
-                Need Review
-              </button>
-              <button
-                onClick={() => markMastered(true)}
-                className={`px-6 py-3 rounded-xl font-semibold transition-all duration-150 ${
-                  currentCard.mastered === true
-                    ? 'bg-[#30D158] text-white'
-                    : 'bg-[#F5F5F7] dark:bg-[#1C1C1E] text-[#1D1D1F] dark:text-white hover:bg-[#E8E8ED] dark:hover:bg-[#2C2C2E]'
-                }`}
-              >
-                Mastered
+                <Shuffle size={16} />
+                {t.shuffle}
               </button>
             </div>
-
-            <button
-              onClick={nextCard}
-              disabled={currentIndex === cards.length - 1}
-              className="p-3 bg-[#F5F5F7] dark:bg-[#1C1C1E] rounded-xl hover:bg-[#E8E8ED] dark:hover:bg-[#2C2C2E] disabled:opacity-40 disabled:cursor-not-allowed transition-all duration-150"
-              aria-label="Next card"
-            >
-              <ChevronRight size={20} className="text-[#1D1D1F] dark:text-white" />
-            </button>
-          </div>
-
-          <div className="flex gap-2">
-            <button
-              onClick={shuffleCards}
-              className="flex-1 px-4 py-2.5 bg-[#F5F5F7] dark:bg-[#1C1C1E] rounded-lg hover:bg-[#E8E8ED] dark:hover:bg-[#2C2C2E] text-sm font-medium text-[#1D1D1F] dark:text-white transition-all duration-150 flex items-center justify-center gap-2"
-            >
-              <Shuffle size={16} />
-              Shuffle
-            </button>
-            <button
-              onClick={reset}
-              className="flex-1 px-4 py-2.5 bg-[#F5F5F7] dark:bg-[#1C1C1E] rounded-lg hover:bg-[#E8E8ED] dark:hover:bg-[#2C2C2E] text-sm font-medium text-[#1D1D1F] dark:text-white transition-all duration-150 flex items-center justify-center gap-2"
-            >
-              <RotateCcw size={16} />
-              Reset
-            </button>
+          </>
+        ) : (
+          <div className="p-12 flex flex-col items-center text-center">
+            <div className="p-4 bg-[#30D158]/10 rounded-full mb-4">
+              <PartyPopper size={32} className="text-[#30D158]" />
+            </div>
+            <p className="text-xl font-bold text-[#1D1D1F] dark:text-white">{t.allCaughtUp}</p>
+            <p className="text-sm text-[#86868B] dark:text-white/60 mt-2">
+              {nextDue ? `${t.nextDue} ${formatDelay(nextDue)}` : t.nothingScheduled}
+            </p>
           </div>
-        </div>
+        )}
       </div>
     </div>
   );
 }
 
+// Decks saved before scheduling only carried a `mastered` flag
+const migrateCard = (card: Flashcard & { mastered?: boolean }): Flashcard => {
+  const { mastered, ...rest } = card;
+  if (rest.schedule) return rest;
+  const schedule = newSchedule();
+  return {
+    ...rest,
+    schedule: mastered ? { ...schedule, state: "review", interval: MASTERED_INTERVAL } : schedule
+  };
+};
+
 // Main Component
 export default function Flashcards({ theme, lang: propLang, onClose }: { theme: string; lang: string; onClose: () => void }) {
   // Use language from prop
@@ -305,7 +504,7 @@ export default function Flashcards({ theme, lang: propLang, onClose }: { theme:
     try {
       const saved = localStorage.getItem('flashcards_decks');
       if (saved) {
-        return JSON.parse(saved);
+        return (JSON.parse(saved) as Deck[]).map(d => ({ ...d, cards: d.cards.map(migrateCard) }));
       }
     } catch (error) {
       console.error('Failed to load decks:', error);
@@ -316,8 +515,8 @@ export default function Flashcards({ theme, lang: propLang, onClose }: { theme:
         id: "1",
         name: "Sample Deck",
         cards: [
-          { id: "1", front: "What is React?", back: "A JavaScript library for building user interfaces", mastered: false },
-          { id: "2", front: "What is TypeScript?", back: "A typed superset of JavaScript", mastered: false },
+          { id: "1", front: "What is React?", back: "A JavaScript library for building user interfaces", schedule: newSchedule() },
+          { id: "2", front: "What is TypeScript?", back: "A typed superset of JavaScript", schedule: newSchedule() },
         ]
       }
     ];
@@ -329,7 +528,13 @@ export default function Flashcards({ theme, lang: propLang, onClose }: { theme:
   const [newDeckName, setNewDeckName] = useState("");
   const [newCardFront, setNewCardFront] = useState("");
   const [newCardBack, setNewCardBack] = useState("");
-  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [newCardType, setNewCardType] = useState<CardType>("basic");
+  const clozeInputRef = useRef<HTMLTextAreaElement>(null);
+  const [importDeckId, setImportDeckId] = useState<string | null>(null);
+  const [managedDeckId, setManagedDeckId] = useState<string | null>(null);
+  const [statsDeckId, setStatsDeckId] = useState<string | null>(null);
+  const apkgInputRef = useRef<HTMLInputElement>(null);
+  const [isImportingApkg, setIsImportingApkg] = useState(false);
 
   // Save decks to localStorage whenever they change
   useEffect(() => {
@@ -358,20 +563,114 @@ export default function Flashcards({ theme, lang: propLang, onClose }: { theme:
     }
   };
 
+  const canAddCard = newCardType === "cloze"
+    ? newCardFront.trim() !== ""
+    : newCardFront.trim() !== "" && newCardBack.trim() !== "";
+
   const addCard = (deckId: string) => {
-    if (newCardFront.trim() && newCardBack.trim()) {
-      setDecks(decks.map(d => 
-        d.id === deckId 
-          ? { ...d, cards: [...d.cards, {
-              id: Date.now().toString(),
-              front: newCardFront.trim(),
-              back: newCardBack.trim(),
-              mastered: false
-            }]}
-          : d
-      ));
-      setNewCardFront("");
-      setNewCardBack("");
+    if (!canAddCard) return;
+    if (newCardType === "cloze" && !hasCloze(newCardFront)) {
+      alert(t.clozeMissing);
+      return;
+    }
+    const added: Flashcard[] = newCardType === "cloze"
+      ? clozeCards(newCardFront.trim(), newCardBack.trim())
+      : [{
+          id: Date.now().toString(),
+          front: newCardFront.trim(),
+          back: newCardBack.trim(),
+          schedule: newSchedule()
+        }];
+    setDecks(decks.map(d => 
+      d.id === deckId 
+        ? { ...d, cards: [...d.cards, ...added] }
+        : d
+    ));
+    setNewCardFront("");
+    setNewCardBack("");
+  };
+
+  // Pasting an image into another deck's form starts a fresh card there, as typing does
+  const editNewCard = (deck: Deck, setValue: React.Dispatch<React.SetStateAction<string>>) =>
+    (update: (value: string) => string) => {
+      if (selectedDeck?.id !== deck.id) {
+        setSelectedDeck(deck);
+        setNewCardFront("");
+        setNewCardBack("");
+      }
+      setValue(update);
+    };
+
+  // Wraps the selected text of the front field in the next cloze number
+  const wrapSelection = () => {
+    const input = clozeInputRef.current;
+    if (!input) return;
+    const { text, cursor } = wrapCloze(newCardFront, input.selectionStart ?? 0, input.selectionEnd ?? 0);
+    setNewCardFront(text);
+    requestAnimationFrame(() => {
+      input.focus();
+      input.setSelectionRange(cursor, cursor);
+    });
+  };
+
+  const updateCards = (deckId: string, update: (cards: Flashcard[]) => Flashcard[]) => {
+    setDecks(decks.map(d => d.id === deckId ? { ...d, cards: update(d.cards) } : d));
+  };
+
+  const editCard = (deckId: string, cardId: string, front: string, back: string) => {
+    updateCards(deckId, cards => {
+      const card = cards.find(c => c.id === cardId);
+      if (card?.type === "cloze") return syncClozeNote(cards, card.noteId, front, back);
+      return cards.map(c => c.id === cardId ? { ...c, front, back } : c);
+    });
+  };
+
+  const deleteCards = (deckId: string, cardIds: string[]) => {
+    updateCards(deckId, cards => cards.filter(c => !cardIds.includes(c.id)));
+    deleteCardReviews(deckId, cardIds);
+  };
+
+  const resetCards = (deckId: string, cardIds: string[]) => {
+    updateCards(deckId, cards => cards.map(c => cardIds.includes(c.id) ? { ...c, schedule: newSchedule() } : c));
+    deleteCardReviews(deckId, cardIds);
+  };
+
+  const transferCards = async (deckId: string, cardIds: string[], targetDeckId: string, mode: "move" | "copy") => {
+    const source = decks.find(d => d.id === deckId);
+    const target = decks.find(d => d.id === targetDeckId);
+    if (!source || !target) return;
+
+    // Copies always get fresh ids; moved cards keep theirs unless the target already uses it
+    const stamp = Date.now();
+    const targetIds = new Set(target.cards.map(c => c.id));
+    const picked = source.cards
+      .filter(c => cardIds.includes(c.id))
+      .map((c, i) => mode === "copy" || targetIds.has(c.id) ? { ...c, id: `${stamp}-${i}` } : c)
+      // Copied cloze siblings form a new note so later edits don't touch the originals
+      .map(c => mode === "copy" && c.type === "cloze" ? { ...c, noteId: `${c.noteId}-${stamp}` } : c);
+
+    // Media lives per deck, so bring referenced files along; files renamed to avoid a clash are renamed in the cards too
+    const names = picked.flatMap(c => [...mediaReferences(c.front), ...mediaReferences(c.back)]);
+    const renames = await copyMedia(deckId, targetDeckId, names).catch(error => {
+      console.error('Failed to copy card media:', error);
+      return new Map<string, string>();
+    });
+    const transferred = picked.map(c => renames.size === 0 ? c : {
+      ...c,
+      front: renameMediaReferences(c.front, renames),
+      back: renameMediaReferences(c.back, renames)
+    });
+
+    setDecks(prev => prev.map(d => {
+      if (d.id === targetDeckId) return { ...d, cards: [...d.cards, ...transferred] };
+      if (d.id === deckId && mode === "move") return { ...d, cards: d.cards.filter(c => !cardIds.includes(c.id)) };
+      return d;
+    }));
+
+    // Moved cards take their review history with them; copies start fresh
+    if (mode === "move") {
+      const movedIds = source.cards.filter(c => cardIds.includes(c.id)).map(c => c.id);
+      moveCardReviews(deckId, targetDeckId, new Map(movedIds.map((id, i) => [id, transferred[i].id])));
     }
   };
 
@@ -381,126 +680,104 @@ export default function Flashcards({ theme, lang: propLang, onClose }: { theme:
 
   const deleteDeck = (deckId: string) => {
     setDecks(decks.filter(d => d.id !== deckId));
+    deleteDeckMedia(deckId).catch(error => console.error('Failed to delete deck media:', error));
+    deleteDeckReviews(deckId);
   };
 
-  const importCSV = (deckId: string, e: React.ChangeEvent<HTMLInputElement>) => {
+  const importAnkiPackage = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
+    e.target.value = '';
     if (!file) return;
 
-    const reader = new FileReader();
-    reader.onload = (event) => {
-      const text = event.target?.result as string;
-      const lines = text.split('\n').filter(line => line.trim());
-      
-      const newCards: Flashcard[] = lines.map((line, index) => {
-        const [front, back] = line.split(',').map(s => s.trim());
-        return {
-          id: `${Date.now()}-${index}`,
-          front: front || '',
-          back: back || '',
-          mastered: false
-        };
-      }).filter(card => card.front && card.back);
-
-      setDecks(decks.map(d => 
-        d.id === deckId 
-          ? { ...d, cards: [...d.cards, ...newCards] }
-          : d
-      ));
-    };
-    reader.readAsText(file);
+    setIsImportingApkg(true);
+    try {
+      const imported = await importApkg(file);
+      const deckId = Date.now().toString();
+      await Promise.all(imported.media.map(m => putMedia(deckId, m.name, m.blob)));
+      setDecks(prev => [...prev, { id: deckId, name: imported.name, cards: imported.cards }]);
+    } catch (error) {
+      console.error('Failed to import Anki package:', error);
+      alert(t.importFailed);
+    } finally {
+      setIsImportingApkg(false);
+    }
   };
 
-  const exportPDF = (deck: Deck) => {
-    const pdf = new jsPDF();
-    const pageWidth = pdf.internal.pageSize.getWidth();
-    const pageHeight = pdf.internal.pageSize.getHeight();
-    const margin = 20;
-    const maxWidth = pageWidth - 2 * margin;
-    let yPos = margin;
-
-    // Title
-    pdf.setFontSize(24);
-    pdf.setTextColor(10, 132, 255); // #0A84FF
-    pdf.text(deck.name, margin, yPos);
-    yPos += 12;
-
-    // Subtitle
-    pdf.setFontSize(11);
-    pdf.setTextColor(134, 134, 139); // #86868B
-    pdf.text(`${deck.cards.length} flashcards`, margin, yPos);
-    yPos += 20;
-
-    // Cards
-    deck.cards.forEach((card, index) => {
-      // Calculate card height
-      const questionLines = pdf.splitTextToSize(card.front, maxWidth - 20);
-      const answerLines = pdf.splitTextToSize(card.back, maxWidth - 26);
-      const cardHeight = 25 + (questionLines.length * 7) + (answerLines.length * 6) + 20;
-
-      // Check if we need a new page
-      if (yPos + cardHeight > pageHeight - 30) {
-        pdf.addPage();
-        yPos = margin;
-      }
+  const exportAnkiPackage = async (deck: Deck) => {
+    try {
+      const blob = await exportApkg(deck);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${deck.name.replace(/[^a-z0-9]/gi, '_')}.apkg`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Failed to export Anki package:', error);
+      alert(t.exportFailed);
+    }
+  };
 
-      const cardStartY = yPos;
-
-      // Card border box
-      pdf.setDrawColor(229, 229, 231); // #E5E5E7
-      pdf.setLineWidth(0.8);
-      pdf.roundedRect(margin, cardStartY, maxWidth, cardHeight, 3, 3);
-
-      yPos = cardStartY + 10;
-
-      // Card number label
-      pdf.setFontSize(9);
-      pdf.setTextColor(134, 134, 139);
-      pdf.text(`CARD ${index + 1}`, margin + 8, yPos);
-      yPos += 10;
-
-      // Question text
-      pdf.setFontSize(14);
-      pdf.setFont('helvetica', 'bold');
-      pdf.setTextColor(29, 29, 31); // #1D1D1F
-      pdf.text(questionLines, margin + 8, yPos);
-      yPos += (questionLines.length * 7) + 8;
-
-      // Answer label
-      pdf.setFontSize(9);
-      pdf.setFont('helvetica', 'normal');
-      pdf.setTextColor(134, 134, 139);
-      pdf.text('ANSWER', margin + 8, yPos);
-      yPos += 7;
-
-      // Answer background box
-      pdf.setFillColor(245, 245, 247); // #F5F5F7
-      const answerBoxHeight = (answerLines.length * 6) + 10;
-      pdf.roundedRect(margin + 8, yPos - 5, maxWidth - 16, answerBoxHeight, 2, 2, 'F');
-      
-      // Answer text
-      pdf.setFontSize(12);
-      pdf.setTextColor(58, 58, 60); // #3A3A3C
-      pdf.text(answerLines, margin + 13, yPos + 2);
-      
-      yPos = cardStartY + cardHeight + 12;
-    });
+  const importCards = (deckId: string, rows: { front: string; back: string }[]) => {
+    const stamp = Date.now();
+    // Rows written in cloze syntax become one card per deletion
+    const newCards: Flashcard[] = rows.flatMap((row, index): Flashcard[] => hasCloze(row.front)
+      ? clozeCards(row.front, row.back, `${stamp}-${index}`)
+      : [{
+          id: `${stamp}-${index}`,
+          front: row.front,
+          back: row.back,
+          schedule: newSchedule()
+        }]);
+
+    setDecks(decks.map(d => 
+      d.id === deckId 
+        ? { ...d, cards: [...d.cards, ...newCards] }
+        : d
+    ));
+  };
 
-    // Footer on last page
-    pdf.setFontSize(9);
-    pdf.setFont('helvetica', 'normal');
-    pdf.setTextColor(134, 134, 139);
-    const footerText = `Generated by BA14 Flashcards • ${new Date().toLocaleDateString()}`;
-    const footerWidth = pdf.getTextWidth(footerText);
-    const footerY = pageHeight - 15;
-    pdf.text(footerText, (pageWidth - footerWidth) / 2, footerY);
-
-    // Save the PDF
-    pdf.save(`${deck.name.replace(/[^a-z0-9]/gi, '_')}_flashcards.pdf`);
+  const exportPDF = async (deck: Deck, layout: PdfLayout) => {
+    try {
+      const chrome = (language: "EN" | "粵") => ({
+        labels: {
+          card: TRANSLATIONS[language].pdfCard,
+          answer: TRANSLATIONS[language].pdfAnswer,
+          flashcards: TRANSLATIONS[language].pdfFlashcards,
+          generatedBy: TRANSLATIONS[language].pdfGeneratedBy
+        },
+        locale: language === "粵" ? "zh-HK" : "en-US"
+      });
+      // Without the CJK font, a Latin-only deck still exports with English labels
+      await exportDeckPDF(deck, layout, chrome(lang), chrome("EN"));
+    } catch (error) {
+      console.error('Failed to export PDF:', error);
+      alert(error instanceof FontUnavailableError ? t.pdfFontMissing : t.exportFailed);
+    }
   };
 
+  const importDeck = decks.find(d => d.id === importDeckId);
+  if (importDeck) {
+    return (
+      <ImportWizard
+        lang={lang}
+        deckName={importDeck.name}
+        onImport={(rows) => {
+          importCards(importDeck.id, rows);
+          setImportDeckId(null);
+        }}
+        onClose={() => setImportDeckId(null)}
+      />
+    );
+  }
+
+  const statsDeck = decks.find(d => d.id === statsDeckId);
+  if (statsDeck) {
+    return <DeckStats lang={lang} deck={statsDeck} onClose={() => setStatsDeckId(null)} />;
+  }
+
   if (studyMode && selectedDeck) {
-    return <StudyMode deck={selectedDeck} onClose={() => setStudyMode(false)} onUpdateDeck={updateDeck} />;
+    return <StudyMode deck={selectedDeck} lang={lang} t={t} onClose={() => setStudyMode(false)} onUpdateDeck={updateDeck} />;
   }
 
   return (
@@ -563,6 +840,22 @@ export default function Flashcards({ theme, lang: propLang, onClose }: { theme:
                 <Plus size={18} />
                 {t.create}
               </button>
+              <input
+                ref={apkgInputRef}
+                type="file"
+                accept=".apkg"
+                onChange={importAnkiPackage}
+                className="hidden"
+              />
+              <button
+                onClick={() => apkgInputRef.current?.click()}
+                disabled={isImportingApkg}
+                className="px-4 py-3 bg-[#F5F5F7] dark:bg-[#1C1C1E] text-[#1D1D1F] dark:text-white rounded-xl font-semibold hover:bg-[#E8E8ED] dark:hover:bg-[#2C2C2E] disabled:opacity-40 disabled:cursor-not-allowed transition-all duration-150 flex items-center gap-2 whitespace-nowrap"
+                title={t.importAnki}
+              >
+                <PackageOpen size={18} />
+                <span className="hidden sm:inline">{isImportingApkg ? t.importing : t.importAnki}</span>
+              </button>
             </div>
           </div>
 
@@ -570,36 +863,64 @@ export default function Flashcards({ theme, lang: propLang, onClose }: { theme:
           <div className="space-y-4">
             {decks.map((deck) => (
               <div key={deck.id} className="bg-[#F5F5F7] dark:bg-[#1C1C1E] rounded-2xl p-6 border border-black/[0.06] dark:border-white/10">
-                <div className="flex items-start justify-between mb-4">
+                <div className="flex items-start justify-between gap-3 mb-4">
                   <div className="flex-1">
                     <h4 className="text-lg font-bold text-[#1D1D1F] dark:text-white">{deck.name}</h4>
                     <p className="text-sm text-[#86868B] dark:text-white/60 mt-1">
-                      {deck.cards.length} {t.cards} • {deck.cards.filter(c => c.mastered).length} {t.mastered}
+                      {deck.cards.length} {t.cards} • {deck.cards.filter(c => isDue(c.schedule)).length} {t.due} • {deck.cards.filter(c => isMastered(c.schedule)).length} {t.mastered}
                     </p>
                   </div>
-                  <div className="flex gap-2">
-                    <input
-                      ref={fileInputRef}
-                      type="file"
-                      accept=".csv"
-                      onChange={(e) => importCSV(deck.id, e)}
-                      className="hidden"
-                    />
+                  <div className="flex flex-wrap justify-end gap-2">
+                    <button
+                      onClick={() => setManagedDeckId(managedDeckId === deck.id ? null : deck.id)}
+                      disabled={deck.cards.length === 0}
+                      className={`p-2.5 rounded-lg disabled:opacity-40 disabled:cursor-not-allowed transition-all duration-150 ${
+                        managedDeckId === deck.id
+                          ? 'bg-[#0A84FF] text-white'
+                          : 'bg-white dark:bg-[#2C2C2E] text-[#1D1D1F] dark:text-white hover:bg-[#E8E8ED] dark:hover:bg-[#3A3A3C]'
+                      }`}
+                      title={t.manageCards}
+                    >
+                      <ListChecks size={18} />
+                    </button>
+                    <button
+                      onClick={() => setStatsDeckId(deck.id)}
+                      className="p-2.5 bg-white dark:bg-[#2C2C2E] rounded-lg hover:bg-[#E8E8ED] dark:hover:bg-[#3A3A3C] transition-all duration-150"
+                      title={t.statistics}
+                    >
+                      <BarChart3 size={18} className="text-[#1D1D1F] dark:text-white" />
+                    </button>
                     <button
-                      onClick={() => fileInputRef.current?.click()}
+                      onClick={() => setImportDeckId(deck.id)}
                       className="p-2.5 bg-white dark:bg-[#2C2C2E] rounded-lg hover:bg-[#E8E8ED] dark:hover:bg-[#3A3A3C] transition-all duration-150"
-                      title="Import CSV"
+                      title={t.importCsv}
                     >
                       <Upload size={18} className="text-[#1D1D1F] dark:text-white" />
                     </button>
                     <button
-                      onClick={() => exportPDF(deck)}
+                      onClick={() => exportPDF(deck, 'list')}
                       disabled={deck.cards.length === 0}
                       className="p-2.5 bg-white dark:bg-[#2C2C2E] rounded-lg hover:bg-[#E8E8ED] dark:hover:bg-[#3A3A3C] disabled:opacity-40 disabled:cursor-not-allowed transition-all duration-150"
-                      title="Export PDF"
+                      title={t.exportPdf}
                     >
                       <Download size={18} className="text-[#1D1D1F] dark:text-white" />
                     </button>
+                    <button
+                      onClick={() => exportPDF(deck, 'cutout')}
+                      disabled={deck.cards.length === 0}
+                      className="p-2.5 bg-white dark:bg-[#2C2C2E] rounded-lg hover:bg-[#E8E8ED] dark:hover:bg-[#3A3A3C] disabled:opacity-40 disabled:cursor-not-allowed transition-all duration-150"
+                      title={t.printCards}
+                    >
+                      <Scissors size={18} className="text-[#1D1D1F] dark:text-white" />
+                    </button>
+                    <button
+                      onClick={() => exportAnkiPackage(deck)}
+                      disabled={deck.cards.length === 0}
+                      className="p-2.5 bg-white dark:bg-[#2C2C2E] rounded-lg hover:bg-[#E8E8ED] dark:hover:bg-[#3A3A3C] disabled:opacity-40 disabled:cursor-not-allowed transition-all duration-150"
+                      title={t.exportAnki}
+                    >
+                      <Package size={18} className="text-[#1D1D1F] dark:text-white" />
+                    </button>
                     <button
                       onClick={() => {
                         if (confirm(`Delete deck "${deck.name}"? This cannot be undone.`)) {
@@ -627,30 +948,80 @@ export default function Flashcards({ theme, lang: propLang, onClose }: { theme:
 
                 {/* Add Card Form */}
                 <div className="space-y-2 mb-4">
-                  <input
-                    type="text"
-                    value={selectedDeck?.id === deck.id ? newCardFront : ""}
-                    onChange={(e) => {
-                      setSelectedDeck(deck);
-                      setNewCardFront(e.target.value);
-                    }}
-                    placeholder={t.front}
-                    className="w-full px-4 py-2.5 bg-white dark:bg-[#2C2C2E] border border-black/10 dark:border-white/10 rounded-lg text-sm text-[#1D1D1F] dark:text-white placeholder-[#86868B] dark:placeholder-white/40 outline-none focus:ring-2 focus:ring-[#0A84FF]/50 transition-all duration-150"
-                  />
-                  <input
-                    type="text"
+                  <div className="inline-flex p-0.5 bg-white dark:bg-[#2C2C2E] rounded-lg">
+                    {(["basic", "cloze"] as const).map(type => (
+                      <button
+                        key={type}
+                        onClick={() => {
+                          if (selectedDeck?.id !== deck.id) {
+                            setSelectedDeck(deck);
+                            setNewCardFront("");
+                            setNewCardBack("");
+                          }
+                          setNewCardType(type);
+                        }}
+                        className={`px-3 py-1 rounded-md text-xs font-semibold transition-all duration-150 ${
+                          (selectedDeck?.id === deck.id ? newCardType : "basic") === type
+                            ? 'bg-[#0A84FF] text-white'
+                            : 'text-[#86868B] dark:text-white/60 hover:text-[#1D1D1F] dark:hover:text-white'
+                        }`}
+                      >
+                        {type === "cloze" ? t.cloze : t.basic}
+                      </button>
+                    ))}
+                  </div>
+                  <div className="flex gap-2">
+                    <textarea
+                      ref={selectedDeck?.id === deck.id ? clozeInputRef : undefined}
+                      rows={2}
+                      value={selectedDeck?.id === deck.id ? newCardFront : ""}
+                      onChange={(e) => {
+                        setSelectedDeck(deck);
+                        setNewCardFront(e.target.value);
+                      }}
+                      onKeyDown={(e) => {
+                        if (newCardType === "cloze" && (e.metaKey || e.ctrlKey) && e.shiftKey && e.key.toLowerCase() === 'c') {
+                          e.preventDefault();
+                          wrapSelection();
+                        }
+                      }}
+                      {...imageInputProps(deck.id, editNewCard(deck, setNewCardFront))}
+                      placeholder={selectedDeck?.id === deck.id && newCardType === "cloze" ? t.clozeText : t.front}
+                      className="flex-1 min-w-0 px-4 py-2.5 bg-white dark:bg-[#2C2C2E] border border-black/10 dark:border-white/10 rounded-lg text-sm text-[#1D1D1F] dark:text-white placeholder-[#86868B] dark:placeholder-white/40 outline-none focus:ring-2 focus:ring-[#0A84FF]/50 transition-all duration-150 resize-y"
+                    />
+                    {selectedDeck?.id === deck.id && newCardType === "cloze" && (
+                      <button
+                        onMouseDown={(e) => e.preventDefault()}
+                        onClick={wrapSelection}
+                        title={t.wrapCloze}
+                        className="px-3 bg-white dark:bg-[#2C2C2E] border border-black/10 dark:border-white/10 rounded-lg text-xs font-mono font-semibold text-[#0A84FF] hover:bg-[#0A84FF]/10 transition-all duration-150 flex-shrink-0"
+                      >
+                        {"[…]"}
+                      </button>
+                    )}
+                  </div>
+                  <textarea
+                    rows={2}
                     value={selectedDeck?.id === deck.id ? newCardBack : ""}
                     onChange={(e) => {
                       setSelectedDeck(deck);
                       setNewCardBack(e.target.value);
                     }}
-                    onKeyPress={(e) => e.key === 'Enter' && addCard(deck.id)}
-                    placeholder={t.back}
-                    className="w-full px-4 py-2.5 bg-white dark:bg-[#2C2C2E] border border-black/10 dark:border-white/10 rounded-lg text-sm text-[#1D1D1F] dark:text-white placeholder-[#86868B] dark:placeholder-white/40 outline-none focus:ring-2 focus:ring-[#0A84FF]/50 transition-all duration-150"
+                    onKeyDown={(e) => {
+                      // Enter adds the card, Shift+Enter starts a new line
+                      if (e.key === 'Enter' && !e.shiftKey) {
+                        e.preventDefault();
+                        addCard(deck.id);
+                      }
+                    }}
+                    {...imageInputProps(deck.id, editNewCard(deck, setNewCardBack))}
+                    placeholder={selectedDeck?.id === deck.id && newCardType === "cloze" ? t.clozeExtra : t.back}
+                    className="w-full px-4 py-2.5 bg-white dark:bg-[#2C2C2E] border border-black/10 dark:border-white/10 rounded-lg text-sm text-[#1D1D1F] dark:text-white placeholder-[#86868B] dark:placeholder-white/40 outline-none focus:ring-2 focus:ring-[#0A84FF]/50 transition-all duration-150 resize-y"
                   />
+                  <p className="text-xs text-[#86868B] dark:text-white/40">{t.richHint}</p>
                   <button
                     onClick={() => addCard(deck.id)}
-                    disabled={!newCardFront.trim() || !newCardBack.trim() || selectedDeck?.id !== deck.id}
+                    disabled={!canAddCard || selectedDeck?.id !== deck.id}
                     className="w-full px-4 py-2.5 bg-white dark:bg-[#2C2C2E] border-2 border-dashed border-black/10 dark:border-white/10 rounded-lg text-sm font-medium text-[#1D1D1F] dark:text-white hover:bg-[#E8E8ED] dark:hover:bg-[#3A3A3C] disabled:opacity-40 disabled:cursor-not-allowed transition-all duration-150 flex items-center justify-center gap-2"
                   >
                     <Plus size={16} />
@@ -658,11 +1029,22 @@ export default function Flashcards({ theme, lang: propLang, onClose }: { theme:
                   </button>
                 </div>
 
+                {/* Card Manager */}
+                {managedDeckId === deck.id && deck.cards.length > 0 && (
+                  <CardManager
+                    lang={lang}
+                    deck={deck}
+                    decks={decks}
+                    onEditCard={(cardId, front, back) => editCard(deck.id, cardId, front, back)}
+                    onDeleteCards={(cardIds) => deleteCards(deck.id, cardIds)}
+                    onTransferCards={(cardIds, targetDeckId, mode) => transferCards(deck.id, cardIds, targetDeckId, mode)}
+                    onResetCards={(cardIds) => resetCards(deck.id, cardIds)}
+                  />
+                )}
+
                 {/* Cards Preview */}
-                {deck.cards.length > 0 && (
-                  <div className="text-xs text-[#86868B] dark:text-white/60">
-                    {t.latest} {deck.cards[deck.cards.length - 1].front}
-                  </div>
+                {managedDeckId !== deck.id && deck.cards.length > 0 && (
+                  <CardPreview card={deck.cards[deck.cards.length - 1]} deckId={deck.id} label={t.latest} />
                 )}
               </div>
             ))}
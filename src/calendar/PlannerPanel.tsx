@@ -0,0 +1,244 @@
+import React from "react";
+import { AlertCircle, Check, Clock, RefreshCw, WandSparkles, X } from "lucide-react";
+import { WeekStart, formatDuration, formatTime, parseDateKey, toDateKey, weekdayNames } from "./dates";
+import { Plan, WorkingHours, isPlannable, plannedMinutes, remainingEffort } from "./planner";
+import type { Task } from "./types";
+
+/**
+ * Planner panel — working hours, and the work sessions proposed for tasks with an estimate
+ * - Proposals show on the week and day views until they're accepted or discarded
+ * - Accepted sessions are kept on their tasks and count as busy time when planning again
+ */
+
+const TRANSLATIONS = {
+  EN: {
+    planner: "Planner",
+    intro: "Give tasks an estimated effort in their details, and the planner finds time for them before they're due.",
+    workingHours: "Working hours",
+    to: "to",
+    pending: (count: number, hours: string) => `${count} task${count === 1 ? '' : 's'} to plan · ${hours} of work`,
+    nothingToPlan: "Nothing to plan: no pending all-day task has effort left to schedule.",
+    plan: "Plan my time",
+    proposal: "Proposed sessions",
+    accept: "Accept",
+    regenerate: "Regenerate",
+    discard: "Discard",
+    noRoom: "No free time fits before the due dates. Try longer working hours.",
+    didntFit: (title: string, hours: string) => `${hours} of "${title}" didn't fit before it's due`,
+    planned: (hours: string) => `${hours} already planned in accepted sessions`,
+    clearPlanned: "Clear upcoming sessions",
+    confirmClear: "Remove all upcoming accepted sessions?",
+    close: "Close"
+  },
+  粵: {
+    planner: "時間規劃",
+    intro: "喺任務詳情填低預計要幾耐，規劃就會喺截止之前幫你搵時間做。",
+    workingHours: "做嘢時間",
+    to: "至",
+    pending: (count: number, hours: string) => `${count} 個任務要規劃 · 共 ${hours}`,
+    nothingToPlan: "冇嘢要規劃：冇未完成嘅全日任務仲有時間要安排。",
+    plan: "幫我編時間",
+    proposal: "建議時段",
+    accept: "接受",
+    regenerate: "重新編排",
+    discard: "放棄",
+    noRoom: "截止之前搵唔到空檔。試吓延長做嘢時間。",
+    didntFit: (title: string, hours: string) => `「${title}」有 ${hours} 喺截止前編唔落`,
+    planned: (hours: string) => `已接受嘅時段共 ${hours}`,
+    clearPlanned: "清除之後嘅時段",
+    confirmClear: "刪除所有之後已接受嘅時段？",
+    close: "關閉"
+  }
+} as const;
+
+export default function PlannerPanel({
+  lang,
+  weekStart,
+  hours,
+  onHoursChange,
+  tasks,
+  plan,
+  onPlan,
+  onAccept,
+  onDiscard,
+  onClearPlanned,
+  onClose
+}: {
+  lang: "EN" | "粵";
+  weekStart: WeekStart;
+  hours: WorkingHours;
+  onHoursChange: (hours: WorkingHours) => void;
+  tasks: Task[];
+  plan: Plan | null;
+  onPlan: () => void;
+  onAccept: () => void;
+  onDiscard: () => void;
+  onClearPlanned: () => void;
+  onClose: () => void;
+}) {
+  const t = TRANSLATIONS[lang];
+  const locale = lang === "粵" ? "zh-HK" : "en-US";
+  const today = toDateKey(new Date());
+  const pending = tasks.filter((task) => isPlannable(task, today));
+  const pendingMinutes = pending.reduce((sum, task) => sum + remainingEffort(task), 0);
+  const upcomingPlanned = tasks.reduce(
+    (sum, task) => sum + plannedMinutes({ ...task, workBlocks: task.workBlocks?.filter((block) => block.date >= today) }),
+    0
+  );
+  const titleOf = (id: string) => tasks.find((task) => task.id === id)?.title ?? "";
+  const dayOrder = weekdayNames(locale, weekStart, "short").map((name, i) => ({ name, day: (i + weekStart) % 7 }));
+  const planDates = plan ? [...new Set(plan.blocks.map((block) => block.date))] : [];
+
+  const label = "flex items-center gap-1.5 text-xs font-semibold text-[#86868B] dark:text-white/60 uppercase tracking-wider mb-2";
+  const field = "px-2 py-1.5 bg-[#F5F5F7] dark:bg-[#1C1C1E] rounded-lg text-sm text-[#1D1D1F] dark:text-white outline-none focus:ring-2 focus:ring-[#0A84FF]/50 transition-all duration-150";
+
+  const toggleDay = (day: number) =>
+    onHoursChange({ ...hours, days: hours.days.includes(day) ? hours.days.filter((d) => d !== day) : [...hours.days, day] });
+
+  return (
+    <div
+      className="absolute inset-y-0 right-0 z-20 w-full sm:w-96 bg-white dark:bg-[#0B0B0D] border-l border-black/10 dark:border-white/10 shadow-2xl flex flex-col animate-slideIn"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className="flex items-center justify-between px-6 py-4 border-b border-black/10 dark:border-white/10">
+        <h3 className="flex items-center gap-2 text-lg font-semibold text-[#1D1D1F] dark:text-white">
+          <WandSparkles size={20} className="text-[#FF9F0A]" />
+          {t.planner}
+        </h3>
+        <button
+          onClick={onClose}
+          className="p-1.5 text-[#86868B] hover:bg-black/5 dark:hover:bg-white/10 rounded-lg transition-all duration-150"
+          title={t.close}
+        >
+          <X size={18} />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-6 py-4 space-y-5">
+        <p className="text-sm text-[#86868B] dark:text-white/60">{t.intro}</p>
+
+        {/* Working hours */}
+        <div>
+          <p className={label}><Clock size={12} />{t.workingHours}</p>
+          <div className="flex gap-1 mb-2">
+            {dayOrder.map(({ name, day }) => {
+              const active = hours.days.includes(day);
+              return (
+                <button
+                  key={day}
+                  onClick={() => toggleDay(day)}
+                  className={`flex-1 py-1.5 rounded-lg text-xs font-medium transition-all duration-150 ${
+                    active ? 'bg-[#FF9F0A] text-white' : 'bg-[#F5F5F7] dark:bg-[#1C1C1E] text-[#86868B] dark:text-white/60'
+                  }`}
+                  aria-pressed={active}
+                >
+                  {name}
+                </button>
+              );
+            })}
+          </div>
+          <div className="flex items-center gap-2 text-sm text-[#86868B] dark:text-white/60">
+            <input
+              type="time"
+              value={hours.start}
+              onChange={(e) => e.target.value && e.target.value < hours.end && onHoursChange({ ...hours, start: e.target.value })}
+              className={field}
+            />
+            {t.to}
+            <input
+              type="time"
+              value={hours.end}
+              onChange={(e) => e.target.value > hours.start && onHoursChange({ ...hours, end: e.target.value })}
+              className={field}
+            />
+          </div>
+        </div>
+
+        {/* Work to plan */}
+        <div className="space-y-2">
+          <p className="text-sm font-medium text-[#1D1D1F] dark:text-white">
+            {pending.length > 0 ? t.pending(pending.length, formatDuration(pendingMinutes)) : t.nothingToPlan}
+          </p>
+          {upcomingPlanned > 0 && (
+            <p className="flex items-center gap-2 text-xs text-[#86868B] dark:text-white/60">
+              {t.planned(formatDuration(upcomingPlanned))}
+              <button
+                onClick={() => confirm(t.confirmClear) && onClearPlanned()}
+                className="font-medium text-[#FF375F] hover:underline"
+              >
+                {t.clearPlanned}
+              </button>
+            </p>
+          )}
+          {!plan && (
+            <button
+              onClick={onPlan}
+              disabled={pending.length === 0 || hours.days.length === 0}
+              className="w-full flex items-center justify-center gap-2 px-4 py-2.5 bg-[#FF9F0A] text-white rounded-lg font-medium hover:bg-[#FF9F0A]/90 disabled:opacity-40 disabled:cursor-not-allowed transition-all duration-150"
+            >
+              <WandSparkles size={16} />
+              {t.plan}
+            </button>
+          )}
+        </div>
+
+        {/* Proposal */}
+        {plan && (
+          <div className="space-y-3">
+            <p className={label}>{t.proposal}</p>
+            {plan.blocks.length === 0 && (
+              <p className="text-sm text-[#86868B] dark:text-white/60">{t.noRoom}</p>
+            )}
+            {planDates.map((date) => (
+              <div key={date} className="space-y-1">
+                <p className="text-xs font-semibold text-[#1D1D1F] dark:text-white">
+                  {parseDateKey(date).toLocaleDateString(locale, { weekday: 'short', month: 'short', day: 'numeric' })}
+                </p>
+                {plan.blocks.filter((block) => block.date === date).map((block) => (
+                  <div
+                    key={`${block.taskId}-${block.start}`}
+                    className="flex items-center gap-3 px-3 py-1.5 rounded-lg border border-dashed border-[#FF9F0A]/60 bg-[#FF9F0A]/5 text-sm"
+                  >
+                    <span className="text-xs text-[#86868B] dark:text-white/60 tabular-nums whitespace-nowrap">
+                      {formatTime(block.start, locale)}–{formatTime(block.end, locale)}
+                    </span>
+                    <span className="truncate text-[#1D1D1F] dark:text-white">{titleOf(block.taskId)}</span>
+                  </div>
+                ))}
+              </div>
+            ))}
+            {plan.unscheduled.map(({ taskId, minutes }) => (
+              <p key={taskId} className="flex items-start gap-1.5 text-xs text-[#FF375F]">
+                <AlertCircle size={14} className="flex-shrink-0" />
+                {t.didntFit(titleOf(taskId), formatDuration(minutes))}
+              </p>
+            ))}
+            <div className="flex gap-2 pt-1">
+              <button
+                onClick={onAccept}
+                disabled={plan.blocks.length === 0}
+                className="flex-1 flex items-center justify-center gap-1.5 px-3 py-2 bg-[#30D158] text-white rounded-lg text-sm font-medium hover:bg-[#30D158]/90 disabled:opacity-40 disabled:cursor-not-allowed transition-all duration-150"
+              >
+                <Check size={16} />
+                {t.accept}
+              </button>
+              <button
+                onClick={onPlan}
+                className="flex items-center justify-center gap-1.5 px-3 py-2 text-sm font-medium text-[#0A84FF] hover:bg-[#0A84FF]/10 rounded-lg transition-all duration-150"
+              >
+                <RefreshCw size={14} />
+                {t.regenerate}
+              </button>
+              <button
+                onClick={onDiscard}
+                className="px-3 py-2 text-sm font-medium text-[#86868B] dark:text-white/60 hover:bg-black/5 dark:hover:bg-white/10 rounded-lg transition-all duration-150"
+              >
+                {t.discard}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
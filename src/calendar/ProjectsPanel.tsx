@@ -0,0 +1,416 @@
+import React, { useState } from "react";
+import { ArrowDown, ArrowUp, FolderKanban, Lock, Milestone as MilestoneIcon, Plus, Target, Trash2, X } from "lucide-react";
+import { addDaysToKey, parseDateKey, toDateKey } from "./dates";
+import { Milestone, Project, SlipRisk, blockersOf, milestoneProgress, projectStatus, projectTasks } from "./projects";
+import type { TaskOccurrence } from "./types";
+
+/**
+ * Projects panel — each project's progress, slip risk and next action, with its milestones and tasks
+ * - Projects, milestones and tasks are edited in place; every change is saved as it is made
+ * - Blocked-by links are set in a task's details
+ */
+
+const TRANSLATIONS = {
+  EN: {
+    projects: "Projects",
+    empty: "Group the tasks of a thesis or group assignment into a project to track progress against its deadline.",
+    newProject: "New project",
+    projectName: "Name this project:",
+    name: "Name",
+    start: "Started",
+    deadline: "Deadline",
+    due: (date: string, days: number) =>
+      days < 0 ? `Due ${date} · ${-days} day${days === -1 ? '' : 's'} ago` : days === 0 ? `Due today` : `Due ${date} · ${days} day${days === 1 ? '' : 's'} left`,
+    risks: { done: "Done", onTrack: "On track", atRisk: "At risk", behind: "Behind", overdue: "Past deadline" },
+    next: "Next",
+    allBlocked: "Everything left is waiting on something",
+    noTasks: "Add tasks to track progress",
+    lateMilestones: (titles: string) => `Late: ${titles}`,
+    projected: (date: string) => `At this pace: ${date}`,
+    milestones: "Milestones",
+    milestoneTitle: "Milestone",
+    addMilestone: "Add milestone",
+    moveUp: "Move up",
+    moveDown: "Move down",
+    tasks: "Tasks",
+    noMilestone: "No milestone",
+    addTask: "Add a task...",
+    waitingOn: (titles: string) => `Waiting on ${titles}`,
+    deleteProject: "Delete project",
+    confirmDelete: (name: string) => `Delete the project "${name}"? Its tasks are kept.`,
+    close: "Close"
+  },
+  粵: {
+    projects: "項目",
+    empty: "將論文或者小組功課嘅任務放埋一個項目，就可以睇住截止日跟進進度。",
+    newProject: "新增項目",
+    projectName: "幫呢個項目改個名：",
+    name: "名稱",
+    start: "開始日",
+    deadline: "截止日",
+    due: (date: string, days: number) =>
+      days < 0 ? `${date} 截止 · 過咗 ${-days} 日` : days === 0 ? `今日截止` : `${date} 截止 · 仲有 ${days} 日`,
+    risks: { done: "完成", onTrack: "進度正常", atRisk: "有機會趕唔切", behind: "落後", overdue: "過咗截止日" },
+    next: "下一步",
+    allBlocked: "剩低嘅任務全部都等緊其他任務",
+    noTasks: "加入任務就可以跟進進度",
+    lateMilestones: (titles: string) => `遲咗：${titles}`,
+    projected: (date: string) => `照呢個速度：${date} 完成`,
+    milestones: "里程碑",
+    milestoneTitle: "里程碑",
+    addMilestone: "新增里程碑",
+    moveUp: "上移",
+    moveDown: "下移",
+    tasks: "任務",
+    noMilestone: "未分里程碑",
+    addTask: "新增任務...",
+    waitingOn: (titles: string) => `等緊：${titles}`,
+    deleteProject: "刪除項目",
+    confirmDelete: (name: string) => `刪除項目「${name}」？入面嘅任務會保留。`,
+    close: "關閉"
+  }
+} as const;
+
+const RISK_COLORS: Record<SlipRisk, string> = {
+  done: "#30D158",
+  onTrack: "#30D158",
+  atRisk: "#FF9F0A",
+  behind: "#FF375F",
+  overdue: "#FF375F",
+};
+
+const PROJECT_WEEKS = 4;
+
+export default function ProjectsPanel({
+  lang,
+  projects,
+  tasks,
+  onChange,
+  onDeleteProject,
+  onRemoveMilestone,
+  onAddTask,
+  onToggleTask,
+  onOpenTask,
+  onClose
+}: {
+  lang: "EN" | "粵";
+  projects: Project[];
+  tasks: TaskOccurrence[]; // each series once, as its current occurrence
+  onChange: (projects: Project[]) => void;
+  onDeleteProject: (id: string) => void;
+  onRemoveMilestone: (project: Project, milestoneId: string) => void;
+  onAddTask: (project: Project, milestoneId: string | undefined, title: string) => void;
+  onToggleTask: (task: TaskOccurrence) => void;
+  onOpenTask: (id: string) => void;
+  onClose: () => void;
+}) {
+  const t = TRANSLATIONS[lang];
+  const locale = lang === "粵" ? "zh-HK" : "en-US";
+  const today = toDateKey(new Date());
+  const [openId, setOpenId] = useState<string | null>(projects.length === 1 ? projects[0].id : null);
+  const [newTitles, setNewTitles] = useState<Record<string, string>>({});
+
+  const label = "flex items-center gap-1.5 text-xs font-semibold text-[#86868B] dark:text-white/60 uppercase tracking-wider mb-2";
+  const field = "px-2 py-1.5 bg-[#F5F5F7] dark:bg-[#1C1C1E] rounded-lg text-sm text-[#1D1D1F] dark:text-white outline-none focus:ring-2 focus:ring-[#0A84FF]/50 transition-all duration-150";
+
+  const formatDate = (date: string) => parseDateKey(date).toLocaleDateString(locale, { month: 'short', day: 'numeric' });
+  const daysUntil = (date: string) => Math.round((parseDateKey(date).getTime() - parseDateKey(today).getTime()) / 86400000);
+
+  const createProject = () => {
+    const name = prompt(t.projectName)?.trim();
+    if (!name) return;
+    const project: Project = { id: Date.now().toString(), name, start: today, deadline: addDaysToKey(today, PROJECT_WEEKS * 7), milestones: [] };
+    onChange([...projects, project]);
+    setOpenId(project.id);
+  };
+
+  const update = (id: string, change: Partial<Project>) =>
+    onChange(projects.map((p) => (p.id === id ? { ...p, ...change } : p)));
+
+  const updateMilestone = (project: Project, id: string, change: Partial<Milestone>) =>
+    update(project.id, { milestones: project.milestones.map((m) => (m.id === id ? { ...m, ...change } : m)) });
+
+  const moveMilestone = (project: Project, index: number, step: number) => {
+    const milestones = [...project.milestones];
+    [milestones[index], milestones[index + step]] = [milestones[index + step], milestones[index]];
+    update(project.id, { milestones });
+  };
+
+  const addTask = (project: Project, milestoneId?: string) => {
+    const key = `${project.id}:${milestoneId ?? ''}`;
+    const title = newTitles[key]?.trim();
+    if (!title) return;
+    onAddTask(project, milestoneId, title);
+    setNewTitles({ ...newTitles, [key]: "" });
+  };
+
+  const renderTask = (task: TaskOccurrence) => {
+    const blockers = blockersOf(task, tasks);
+    return (
+      <div key={task.id} className="flex items-center gap-2 text-sm">
+        <input
+          type="checkbox"
+          checked={task.completed}
+          onChange={() => onToggleTask(task)}
+          className="accent-[#30D158]"
+        />
+        <button
+          onClick={() => onOpenTask(task.id)}
+          className={`flex-1 min-w-0 text-left truncate hover:underline ${
+            task.completed ? 'line-through text-[#86868B] dark:text-white/40' : blockers.length > 0 ? 'text-[#86868B] dark:text-white/60' : 'text-[#1D1D1F] dark:text-white'
+          }`}
+        >
+          {task.title}
+        </button>
+        {blockers.length > 0 && (
+          <span title={t.waitingOn(blockers.map((b) => b.title).join(', '))}>
+            <Lock size={12} className="text-[#FF9F0A]" />
+          </span>
+        )}
+        <span className="text-xs text-[#86868B] dark:text-white/40 tabular-nums">{formatDate(task.date)}</span>
+      </div>
+    );
+  };
+
+  const renderAddTask = (project: Project, milestoneId?: string) => {
+    const key = `${project.id}:${milestoneId ?? ''}`;
+    return (
+      <input
+        type="text"
+        value={newTitles[key] ?? ''}
+        onChange={(e) => setNewTitles({ ...newTitles, [key]: e.target.value })}
+        onKeyDown={(e) => e.key === 'Enter' && addTask(project, milestoneId)}
+        placeholder={t.addTask}
+        className={`${field} w-full text-xs py-1`}
+      />
+    );
+  };
+
+  return (
+    <div
+      className="absolute inset-y-0 right-0 z-20 w-full sm:w-[28rem] bg-white dark:bg-[#0B0B0D] border-l border-black/10 dark:border-white/10 shadow-2xl flex flex-col animate-slideIn"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className="flex items-center justify-between px-6 py-4 border-b border-black/10 dark:border-white/10">
+        <h3 className="flex items-center gap-2 text-lg font-semibold text-[#1D1D1F] dark:text-white">
+          <FolderKanban size={20} className="text-[#0A84FF]" />
+          {t.projects}
+        </h3>
+        <button
+          onClick={onClose}
+          className="p-1.5 text-[#86868B] hover:bg-black/5 dark:hover:bg-white/10 rounded-lg transition-all duration-150"
+          title={t.close}
+        >
+          <X size={18} />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-6 py-4 space-y-4">
+        {projects.length === 0 && (
+          <p className="text-sm text-[#86868B] dark:text-white/60 text-center px-4 pt-8">{t.empty}</p>
+        )}
+
+        {projects.map((project) => {
+          const status = projectStatus(project, tasks, today);
+          const members = projectTasks(project, tasks);
+          const color = RISK_COLORS[status.risk];
+          const isOpen = openId === project.id;
+          return (
+            <div key={project.id} className="rounded-xl border border-black/10 dark:border-white/10 p-4 space-y-3">
+              {/* Summary */}
+              <button onClick={() => setOpenId(isOpen ? null : project.id)} className="w-full text-left space-y-2" aria-expanded={isOpen}>
+                <div className="flex items-center gap-2">
+                  <span className="flex-1 min-w-0 font-semibold text-[#1D1D1F] dark:text-white truncate">{project.name || '—'}</span>
+                  <span
+                    className="flex-shrink-0 px-2 py-0.5 rounded-full text-xs font-semibold"
+                    style={{ backgroundColor: `${color}20`, color }}
+                  >
+                    {t.risks[status.risk]}
+                  </span>
+                </div>
+                <p className="text-xs text-[#86868B] dark:text-white/60">{t.due(formatDate(project.deadline), daysUntil(project.deadline))}</p>
+                <div className="flex items-center gap-2">
+                  <div className="flex-1 h-1.5 bg-[#F5F5F7] dark:bg-[#1C1C1E] rounded-full overflow-hidden">
+                    <div className="h-full transition-all duration-300" style={{ width: `${status.percent}%`, backgroundColor: color }} />
+                  </div>
+                  <span className="text-xs text-[#86868B] dark:text-white/60 tabular-nums">
+                    {status.done}/{status.total} · {status.percent}%
+                  </span>
+                </div>
+              </button>
+
+              {/* Next action */}
+              {status.risk !== "done" && (
+                <div className="flex items-center gap-1.5 text-sm">
+                  <Target size={14} className="flex-shrink-0 text-[#0A84FF]" />
+                  {status.nextAction ? (
+                    <>
+                      <span className="text-xs font-semibold text-[#86868B] dark:text-white/60 uppercase tracking-wider">{t.next}</span>
+                      <button
+                        onClick={() => onOpenTask(status.nextAction!.id)}
+                        className="min-w-0 truncate font-medium text-[#0A84FF] hover:underline"
+                      >
+                        {status.nextAction.title}
+                      </button>
+                    </>
+                  ) : (
+                    <span className="text-xs text-[#86868B] dark:text-white/60">{status.total === 0 ? t.noTasks : t.allBlocked}</span>
+                  )}
+                </div>
+              )}
+              {(status.lateMilestones.length > 0 || (status.projectedFinish && status.risk !== "done")) && (
+                <div className="text-xs space-y-0.5">
+                  {status.lateMilestones.length > 0 && (
+                    <p className="text-[#FF375F]">{t.lateMilestones(status.lateMilestones.map((m) => m.title || formatDate(m.date)).join(', '))}</p>
+                  )}
+                  {status.projectedFinish && (
+                    <p className={status.projectedFinish > project.deadline ? 'text-[#FF375F]' : 'text-[#86868B] dark:text-white/60'}>
+                      {t.projected(formatDate(status.projectedFinish))}
+                    </p>
+                  )}
+                </div>
+              )}
+
+              {isOpen && (
+                <div className="pt-3 border-t border-black/10 dark:border-white/10 space-y-5">
+                  {/* Project */}
+                  <div className="space-y-2">
+                    <input
+                      type="text"
+                      value={project.name}
+                      onChange={(e) => update(project.id, { name: e.target.value })}
+                      aria-label={t.name}
+                      className={`${field} w-full font-medium`}
+                    />
+                    <div className="flex gap-3">
+                      <label className="flex-1 text-xs text-[#86868B] dark:text-white/60">
+                        {t.start}
+                        <input
+                          type="date"
+                          value={project.start}
+                          max={project.deadline}
+                          onChange={(e) => e.target.value && update(project.id, { start: e.target.value })}
+                          className={`${field} w-full mt-1`}
+                        />
+                      </label>
+                      <label className="flex-1 text-xs text-[#86868B] dark:text-white/60">
+                        {t.deadline}
+                        <input
+                          type="date"
+                          value={project.deadline}
+                          min={project.start}
+                          onChange={(e) => e.target.value && update(project.id, { deadline: e.target.value })}
+                          className={`${field} w-full mt-1`}
+                        />
+                      </label>
+                    </div>
+                  </div>
+
+                  {/* Milestones */}
+                  <div>
+                    <p className={label}><MilestoneIcon size={12} />{t.milestones}</p>
+                    <div className="space-y-1.5">
+                      {project.milestones.map((milestone, index) => {
+                        const progress = milestoneProgress(milestone, members);
+                        return (
+                          <div key={milestone.id} className="flex items-center gap-1.5">
+                            <div className="flex flex-col">
+                              <button
+                                onClick={() => moveMilestone(project, index, -1)}
+                                disabled={index === 0}
+                                className="text-[#86868B] hover:text-[#0A84FF] disabled:opacity-20"
+                                aria-label={t.moveUp}
+                              >
+                                <ArrowUp size={12} />
+                              </button>
+                              <button
+                                onClick={() => moveMilestone(project, index, 1)}
+                                disabled={index === project.milestones.length - 1}
+                                className="text-[#86868B] hover:text-[#0A84FF] disabled:opacity-20"
+                                aria-label={t.moveDown}
+                              >
+                                <ArrowDown size={12} />
+                              </button>
+                            </div>
+                            <input
+                              type="text"
+                              value={milestone.title}
+                              onChange={(e) => updateMilestone(project, milestone.id, { title: e.target.value })}
+                              placeholder={t.milestoneTitle}
+                              className={`${field} flex-1 min-w-0`}
+                            />
+                            <input
+                              type="date"
+                              value={milestone.date}
+                              onChange={(e) => e.target.value && updateMilestone(project, milestone.id, { date: e.target.value })}
+                              className={`${field} w-36`}
+                            />
+                            <span className="w-8 text-xs text-right text-[#86868B] dark:text-white/60 tabular-nums">
+                              {progress.done}/{progress.total}
+                            </span>
+                            <button
+                              onClick={() => onRemoveMilestone(project, milestone.id)}
+                              className="p-1 text-[#FF375F] hover:bg-[#FF375F]/10 rounded transition-all duration-150"
+                            >
+                              <Trash2 size={14} />
+                            </button>
+                          </div>
+                        );
+                      })}
+                    </div>
+                    <button
+                      onClick={() => update(project.id, { milestones: [...project.milestones, { id: Date.now().toString(), title: "", date: project.deadline }] })}
+                      className="mt-2 flex items-center gap-1 px-2 py-1 text-xs font-medium text-[#0A84FF] hover:bg-[#0A84FF]/10 rounded transition-all duration-150"
+                    >
+                      <Plus size={12} />
+                      {t.addMilestone}
+                    </button>
+                  </div>
+
+                  {/* Tasks by milestone */}
+                  <div>
+                    <p className={label}>{t.tasks}</p>
+                    <div className="space-y-4">
+                      {project.milestones.map((milestone) => (
+                        <div key={milestone.id} className="space-y-1.5">
+                          <p className="text-xs font-medium text-[#1D1D1F] dark:text-white">
+                            {milestone.title || t.milestoneTitle}
+                            <span className="ml-1.5 text-[#86868B] dark:text-white/40">{formatDate(milestone.date)}</span>
+                          </p>
+                          {members.filter((task) => task.milestoneId === milestone.id).map(renderTask)}
+                          {renderAddTask(project, milestone.id)}
+                        </div>
+                      ))}
+                      <div className="space-y-1.5">
+                        {project.milestones.length > 0 && (
+                          <p className="text-xs font-medium text-[#86868B] dark:text-white/60">{t.noMilestone}</p>
+                        )}
+                        {members.filter((task) => !project.milestones.some((m) => m.id === task.milestoneId)).map(renderTask)}
+                        {renderAddTask(project)}
+                      </div>
+                    </div>
+                  </div>
+
+                  <button
+                    onClick={() => confirm(t.confirmDelete(project.name)) && onDeleteProject(project.id)}
+                    className="w-full px-3 py-2 text-sm font-medium text-[#FF375F] hover:bg-[#FF375F]/10 rounded-lg transition-all duration-150"
+                  >
+                    {t.deleteProject}
+                  </button>
+                </div>
+              )}
+            </div>
+          );
+        })}
+
+        <button
+          onClick={createProject}
+          className="w-full flex items-center justify-center gap-1.5 px-3 py-2.5 text-sm font-medium text-[#0A84FF] border border-dashed border-[#0A84FF] rounded-xl hover:bg-[#0A84FF]/10 transition-all duration-150"
+        >
+          <Plus size={16} />
+          {t.newProject}
+        </button>
+      </div>
+    </div>
+  );
+}
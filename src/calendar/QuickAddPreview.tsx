@@ -0,0 +1,74 @@
+import React from "react";
+import { Flag, Sparkles } from "lucide-react";
+import { formatTime, parseDateKey } from "./dates";
+import type { QuickAdd } from "./quickAdd";
+import { PRIORITY_COLORS, describePriority } from "./TaskDetail";
+import type { Category } from "./types";
+
+/**
+ * Preview chip under the add-task input — shows what quick-add understood before the task is saved
+ */
+
+const TRANSLATIONS = {
+  EN: {
+    understood: "Will add",
+    noTitle: "Add a title"
+  },
+  粵: {
+    understood: "將會新增",
+    noTitle: "請輸入標題"
+  }
+} as const;
+
+export default function QuickAddPreview({
+  lang,
+  value,
+  categories
+}: {
+  lang: "EN" | "粵";
+  value: QuickAdd;
+  categories: Category[];
+}) {
+  const t = TRANSLATIONS[lang];
+  const locale = lang === "粵" ? "zh-HK" : "en-US";
+  const category = categories.find((c) => c.id === value.categoryId);
+
+  // Nothing beyond a title was recognised
+  if (!value.date && !value.start && !category && !value.priority) return null;
+
+  return (
+    <div className="flex items-center gap-1.5 flex-wrap text-xs mb-3" aria-live="polite">
+      <Sparkles size={14} className="text-[#FF9F0A]" aria-label={t.understood} />
+      <span className={`font-medium ${value.title ? 'text-[#1D1D1F] dark:text-white' : 'text-[#86868B] dark:text-white/60 italic'}`}>
+        {value.title || t.noTitle}
+      </span>
+      {value.date && (
+        <span className="px-2 py-0.5 rounded-full bg-[#0A84FF]/10 text-[#0A84FF] font-medium">
+          {parseDateKey(value.date).toLocaleDateString(locale, { weekday: 'short', month: 'short', day: 'numeric' })}
+        </span>
+      )}
+      {value.start && (
+        <span className="px-2 py-0.5 rounded-full bg-[#0A84FF]/10 text-[#0A84FF] font-medium">
+          {formatTime(value.start, locale)}{value.end && `–${formatTime(value.end, locale)}`}
+        </span>
+      )}
+      {category && (
+        <span
+          className="px-2 py-0.5 rounded-full font-medium"
+          style={{ backgroundColor: `${category.color}20`, color: category.color }}
+        >
+          #{category.name}
+        </span>
+      )}
+      {value.priority && (
+        <span
+          className="flex items-center gap-1 px-2 py-0.5 rounded-full font-medium"
+          style={{ backgroundColor: `${PRIORITY_COLORS[value.priority]}20`, color: PRIORITY_COLORS[value.priority] }}
+        >
+          <Flag size={10} />
+          {describePriority(value.priority, lang)}
+        </span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,270 @@
+import React, { useEffect, useRef } from "react";
+import { Repeat } from "lucide-react";
+import { WeekStart, parseDateKey, weekdayNames } from "./dates";
+import { RecurrenceRule, Weekday, WEEKDAYS, Frequency } from "./recurrence";
+
+/**
+ * Repeat picker for new tasks
+ * - Daily, weekly on chosen weekdays, or monthly on the date or the nth weekday of the task's day
+ * - Every N days/weeks/months
+ * - Ends never, on a date, or after a number of times
+ * - Days taken from the task's day follow it when that day changes, unless they were changed by hand
+ */
+
+const TRANSLATIONS = {
+  EN: {
+    repeat: "Repeat",
+    never: "Does not repeat",
+    freq: { DAILY: "Daily", WEEKLY: "Weekly", MONTHLY: "Monthly" },
+    every: "Every",
+    units: { DAILY: "day(s)", WEEKLY: "week(s)", MONTHLY: "month(s)" },
+    onDay: (day: number) => `On day ${day}`,
+    onNth: (nth: string, weekday: string) => `On the ${nth} ${weekday}`,
+    nth: { 1: "first", 2: "second", 3: "third", 4: "fourth", 5: "fifth", [-1]: "last" } as Record<number, string>,
+    ends: "Ends",
+    endsNever: "Never",
+    endsOn: "On",
+    endsAfter: "After",
+    times: "times",
+    describe: {
+      DAILY: (n: number) => (n === 1 ? "Every day" : `Every ${n} days`),
+      WEEKLY: (n: number, days: string) => (n === 1 ? `Weekly on ${days}` : `Every ${n} weeks on ${days}`),
+      MONTHLY: (n: number, on: string) => (n === 1 ? `Monthly ${on}` : `Every ${n} months ${on}`),
+      monthDay: (day: number) => (day === -1 ? "on the last day" : `on day ${day}`),
+      nthWeekday: (nth: string, weekday: string) => `on the ${nth} ${weekday}`,
+      until: (date: string) => `, until ${date}`,
+      count: (n: number) => `, ${n} times`,
+      separator: ", "
+    }
+  },
+  粵: {
+    repeat: "重複",
+    never: "唔重複",
+    freq: { DAILY: "每日", WEEKLY: "每星期", MONTHLY: "每月" },
+    every: "每",
+    units: { DAILY: "日", WEEKLY: "星期", MONTHLY: "個月" },
+    onDay: (day: number) => `每月 ${day} 號`,
+    onNth: (nth: string, weekday: string) => `${nth}星期${weekday}`,
+    nth: { 1: "第一個", 2: "第二個", 3: "第三個", 4: "第四個", 5: "第五個", [-1]: "最後一個" } as Record<number, string>,
+    ends: "結束",
+    endsNever: "永不",
+    endsOn: "日期",
+    endsAfter: "重複",
+    times: "次",
+    describe: {
+      DAILY: (n: number) => (n === 1 ? "每日" : `每 ${n} 日`),
+      WEEKLY: (n: number, days: string) => (n === 1 ? `每星期${days}` : `每 ${n} 星期嘅星期${days}`),
+      MONTHLY: (n: number, on: string) => (n === 1 ? `每月${on}` : `每 ${n} 個月${on}`),
+      monthDay: (day: number) => (day === -1 ? "最後一日" : ` ${day} 號`),
+      nthWeekday: (nth: string, weekday: string) => `${nth}星期${weekday}`,
+      until: (date: string) => `，直至 ${date}`,
+      count: (n: number) => `，共 ${n} 次`,
+      separator: "、"
+    }
+  }
+} as const;
+
+type Lang = "EN" | "粵";
+
+const FREQUENCIES: Frequency[] = ["DAILY", "WEEKLY", "MONTHLY"];
+
+// Sunday first, to index by Date.getDay(); 粵 phrases add the 星期 themselves, so they take the bare 一, 二…
+const weekdayLabels = (lang: Lang, locale: string) => weekdayNames(locale, 0, lang === "粵" ? "narrow" : "short");
+
+// Which weekday of its month a date is: 1–4, or -1 when it's also the last one
+const nthWeekdayOf = (date: Date) => {
+  const nth = Math.ceil(date.getDate() / 7);
+  const isLast = date.getDate() + 7 > new Date(date.getFullYear(), date.getMonth() + 1, 0).getDate();
+  return isLast && nth >= 4 ? -1 : nth;
+};
+
+/**
+ * One-line summary of a rule, e.g. "Every 2 weeks on Mon, Thu".
+ */
+export function describeRecurrence(rule: RecurrenceRule, lang: Lang, locale: string): string {
+  const t = TRANSLATIONS[lang];
+  const d = t.describe;
+  const weekdays = weekdayLabels(lang, locale);
+  let text: string;
+  if (rule.freq === "DAILY") {
+    text = d.DAILY(rule.interval);
+  } else if (rule.freq === "WEEKLY") {
+    const days = (rule.byDay ?? []).map((day) => weekdays[WEEKDAYS.indexOf(day)]).join(d.separator);
+    text = d.WEEKLY(rule.interval, days);
+  } else {
+    const on = rule.byWeekdayOfMonth
+      ? d.nthWeekday(t.nth[rule.byWeekdayOfMonth.nth], weekdays[WEEKDAYS.indexOf(rule.byWeekdayOfMonth.weekday)])
+      : d.monthDay(rule.byMonthDay ?? 1);
+    text = d.MONTHLY(rule.interval, on);
+  }
+  if (rule.until) text += d.until(parseDateKey(rule.until).toLocaleDateString(locale, { month: 'short', day: 'numeric', year: 'numeric' }));
+  else if (rule.count) text += d.count(rule.count);
+  return text;
+}
+
+export default function RecurrenceEditor({
+  lang,
+  value,
+  onChange,
+  anchor,
+  weekStart = 0
+}: {
+  lang: Lang;
+  value: RecurrenceRule | undefined;
+  onChange: (rule: RecurrenceRule | undefined) => void;
+  anchor: string; // the day the task is added on, e.g. a date typed into a quick add
+  weekStart?: WeekStart; // which weekday the toggles start from
+}) {
+  const t = TRANSLATIONS[lang];
+  const weekdays = weekdayLabels(lang, lang === "粵" ? "zh-HK" : "en-US");
+  const anchorDate = parseDateKey(anchor);
+  const anchorWeekday = WEEKDAYS[anchorDate.getDay()];
+  const anchorNth = nthWeekdayOf(anchorDate);
+
+  // Re-anchor the parts of the rule that still match the previous day
+  const previousAnchor = useRef(anchor);
+  useEffect(() => {
+    const previous = parseDateKey(previousAnchor.current);
+    previousAnchor.current = anchor;
+    if (!value || previous.getTime() === anchorDate.getTime()) return;
+    const change: Partial<RecurrenceRule> = {};
+    if (value.byDay?.length === 1 && value.byDay[0] === WEEKDAYS[previous.getDay()]) change.byDay = [anchorWeekday];
+    if (value.byMonthDay === previous.getDate()) change.byMonthDay = anchorDate.getDate();
+    const { byWeekdayOfMonth } = value;
+    if (byWeekdayOfMonth?.weekday === WEEKDAYS[previous.getDay()] && byWeekdayOfMonth.nth === nthWeekdayOf(previous)) {
+      change.byWeekdayOfMonth = { weekday: anchorWeekday, nth: anchorNth };
+    }
+    if (value.until && value.until < anchor) change.until = anchor;
+    if (Object.keys(change).length > 0) onChange({ ...value, ...change });
+  }, [anchor]);
+
+  const setFreq = (freq: string) => {
+    if (!freq) return onChange(undefined);
+    const rule: RecurrenceRule = { freq: freq as Frequency, interval: 1, until: value?.until, count: value?.count };
+    if (freq === "WEEKLY") rule.byDay = [anchorWeekday];
+    if (freq === "MONTHLY") rule.byMonthDay = anchorDate.getDate();
+    onChange(rule);
+  };
+
+  const update = (change: Partial<RecurrenceRule>) => value && onChange({ ...value, ...change });
+
+  const toggleWeekday = (day: Weekday) => {
+    if (!value) return;
+    const byDay = value.byDay ?? [];
+    const next = byDay.includes(day) ? byDay.filter((d) => d !== day) : [...byDay, day];
+    // A weekly rule needs at least one day
+    if (next.length > 0) update({ byDay: WEEKDAYS.filter((d) => next.includes(d)) });
+  };
+
+  const ends = value?.until ? "until" : value?.count ? "count" : "never";
+
+  const selectClass = "px-3 py-1.5 bg-[#F5F5F7] dark:bg-[#1C1C1E] rounded-lg text-xs text-[#1D1D1F] dark:text-white border-none outline-none";
+  const inputClass = "px-2 py-1 bg-[#F5F5F7] dark:bg-[#1C1C1E] border border-black/10 dark:border-white/10 rounded-lg text-xs text-[#1D1D1F] dark:text-white outline-none focus:ring-1 focus:ring-[#0A84FF]";
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2 flex-wrap">
+        <Repeat size={14} className="text-[#86868B] dark:text-white/60" />
+        <select value={value?.freq ?? ""} onChange={(e) => setFreq(e.target.value)} className={selectClass} aria-label={t.repeat}>
+          <option value="">{t.never}</option>
+          {FREQUENCIES.map((freq) => (
+            <option key={freq} value={freq}>{t.freq[freq]}</option>
+          ))}
+        </select>
+        {value && (
+          <label className="flex items-center gap-1.5 text-xs text-[#86868B] dark:text-white/60">
+            {t.every}
+            <input
+              type="number"
+              min={1}
+              max={99}
+              value={value.interval}
+              onChange={(e) => update({ interval: Math.max(1, Math.min(99, Number(e.target.value) || 1)) })}
+              className={`${inputClass} w-12`}
+            />
+            {t.units[value.freq]}
+          </label>
+        )}
+      </div>
+
+      {value?.freq === "WEEKLY" && (
+        <div className="flex gap-1 flex-wrap">
+          {[...WEEKDAYS.slice(weekStart), ...WEEKDAYS.slice(0, weekStart)].map((day) => {
+            const active = value.byDay?.includes(day);
+            return (
+              <button
+                key={day}
+                onClick={() => toggleWeekday(day)}
+                className={`w-9 py-1 rounded-lg text-xs font-medium transition-all duration-150 ${
+                  active
+                    ? 'bg-[#0A84FF] text-white'
+                    : 'bg-[#F5F5F7] dark:bg-[#1C1C1E] text-[#86868B] dark:text-white/60 hover:bg-black/5 dark:hover:bg-white/10'
+                }`}
+              >
+                {weekdays[WEEKDAYS.indexOf(day)]}
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      {value?.freq === "MONTHLY" && (
+        <select
+          value={value.byWeekdayOfMonth ? "weekday" : "date"}
+          onChange={(e) =>
+            e.target.value === "weekday"
+              ? update({ byMonthDay: undefined, byWeekdayOfMonth: { weekday: anchorWeekday, nth: anchorNth } })
+              : update({ byMonthDay: anchorDate.getDate(), byWeekdayOfMonth: undefined })
+          }
+          className={selectClass}
+        >
+          <option value="date">{t.onDay(anchorDate.getDate())}</option>
+          <option value="weekday">{t.onNth(t.nth[anchorNth], weekdays[anchorDate.getDay()])}</option>
+        </select>
+      )}
+
+      {value && (
+        <div className="flex items-center gap-2 flex-wrap text-xs text-[#86868B] dark:text-white/60">
+          {t.ends}
+          <select
+            value={ends}
+            onChange={(e) => {
+              const next = e.target.value;
+              update({
+                until: next === "until" ? anchor : undefined,
+                count: next === "count" ? 10 : undefined
+              });
+            }}
+            className={selectClass}
+          >
+            <option value="never">{t.endsNever}</option>
+            <option value="until">{t.endsOn}</option>
+            <option value="count">{t.endsAfter}</option>
+          </select>
+          {ends === "until" && (
+            <input
+              type="date"
+              value={value.until}
+              min={anchor}
+              onChange={(e) => e.target.value && update({ until: e.target.value })}
+              className={inputClass}
+            />
+          )}
+          {ends === "count" && (
+            <>
+              <input
+                type="number"
+                min={1}
+                max={999}
+                value={value.count}
+                onChange={(e) => update({ count: Math.max(1, Math.min(999, Number(e.target.value) || 1)) })}
+                className={`${inputClass} w-14`}
+              />
+              {t.times}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
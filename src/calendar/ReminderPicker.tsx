@@ -0,0 +1,78 @@
+import React from "react";
+import { Bell } from "lucide-react";
+import { REMINDER_PRESETS, Reminder, ReminderPreset, presetOf } from "./reminders";
+
+/**
+ * Reminder chips for a task — pick any number of the preset reminders
+ */
+
+const TRANSLATIONS = {
+  EN: {
+    remind: "Remind me",
+    presets: {
+      atStart: "At start",
+      "10min": "10 min before",
+      "1hour": "1 hour before",
+      "1day": "1 day before",
+      morning: "9:00 on the day",
+      dayBeforeMorning: "9:00 the day before"
+    }
+  },
+  粵: {
+    remind: "提醒我",
+    presets: {
+      atStart: "開始時",
+      "10min": "10 分鐘前",
+      "1hour": "1 個鐘前",
+      "1day": "1 日前",
+      morning: "當日 9:00",
+      dayBeforeMorning: "前一日 9:00"
+    }
+  }
+} as const;
+
+const PRESETS = Object.keys(REMINDER_PRESETS) as ReminderPreset[];
+
+export const describeReminder = (reminder: Reminder, lang: "EN" | "粵") => {
+  const preset = presetOf(reminder);
+  return preset ? TRANSLATIONS[lang].presets[preset] : "";
+};
+
+export default function ReminderPicker({
+  lang,
+  value,
+  onChange
+}: {
+  lang: "EN" | "粵";
+  value: Reminder[];
+  onChange: (reminders: Reminder[]) => void;
+}) {
+  const t = TRANSLATIONS[lang];
+  const chosen = new Set(value.map(presetOf));
+
+  const toggle = (preset: ReminderPreset) =>
+    onChange(
+      chosen.has(preset)
+        ? value.filter((reminder) => presetOf(reminder) !== preset)
+        : [...value, REMINDER_PRESETS[preset]]
+    );
+
+  return (
+    <div className="flex items-center gap-1.5 flex-wrap">
+      <Bell size={14} className="text-[#86868B] dark:text-white/60" aria-label={t.remind} />
+      {PRESETS.map((preset) => (
+        <button
+          key={preset}
+          onClick={() => toggle(preset)}
+          className={`px-2 py-1 rounded-lg text-xs font-medium transition-all duration-150 ${
+            chosen.has(preset)
+              ? 'bg-[#0A84FF] text-white'
+              : 'bg-[#F5F5F7] dark:bg-[#1C1C1E] text-[#86868B] dark:text-white/60 hover:bg-black/5 dark:hover:bg-white/10'
+          }`}
+        >
+          {t.presets[preset]}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+import React from "react";
+import { BellRing, X } from "lucide-react";
+import { ClickedReminder, snoozeFromPage } from "./useReminders";
+
+/**
+ * Snooze bar for a clicked reminder
+ * - Shown after a reminder notification is clicked, over whatever is open
+ * - The way to snooze where notifications have no actions (Firefox, Safari, plain Notifications)
+ */
+
+const TRANSLATIONS = {
+  EN: {
+    reminder: "Reminder",
+    snooze10: "Snooze 10 min",
+    snooze60: "Snooze 1 hour",
+    dismiss: "Dismiss"
+  },
+  粵: {
+    reminder: "提醒",
+    snooze10: "10 分鐘後再提",
+    snooze60: "1 個鐘後再提",
+    dismiss: "關閉"
+  }
+} as const;
+
+const SNOOZE_MINUTES = [10, 60] as const;
+
+export default function ReminderSnooze({
+  lang,
+  reminder,
+  onDone
+}: {
+  lang: "EN" | "粵";
+  reminder: ClickedReminder;
+  onDone: () => void;
+}) {
+  const t = TRANSLATIONS[lang];
+
+  const snooze = (minutes: number) => {
+    snoozeFromPage(reminder.key, minutes);
+    onDone();
+  };
+
+  return (
+    <div
+      className="fixed bottom-6 left-1/2 -translate-x-1/2 z-[60] w-[calc(100%-2rem)] max-w-md flex items-center gap-3 px-4 py-3 bg-white dark:bg-[#1C1C1E] border border-black/10 dark:border-white/10 rounded-2xl shadow-2xl animate-fadeIn"
+      role="status"
+    >
+      <BellRing size={18} className="flex-shrink-0 text-[#FF9F0A]" />
+      <div className="min-w-0 flex-1">
+        <p className="text-xs text-[#86868B] dark:text-white/60">{t.reminder}</p>
+        <p className="text-sm font-medium text-[#1D1D1F] dark:text-white truncate">{reminder.title}</p>
+      </div>
+      {SNOOZE_MINUTES.map((minutes) => (
+        <button
+          key={minutes}
+          onClick={() => snooze(minutes)}
+          className="px-2.5 py-1.5 text-xs font-medium text-[#0A84FF] hover:bg-[#0A84FF]/10 rounded-lg transition-all duration-150 whitespace-nowrap"
+        >
+          {minutes === 10 ? t.snooze10 : t.snooze60}
+        </button>
+      ))}
+      <button
+        onClick={onDone}
+        className="p-1.5 text-[#86868B] hover:bg-black/5 dark:hover:bg-white/10 rounded-lg transition-all duration-150"
+        aria-label={t.dismiss}
+        title={t.dismiss}
+      >
+        <X size={16} />
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,204 @@
+import React from "react";
+import type { PointerEvent as ReactPointerEvent } from "react";
+import { Flag, GripVertical, ListChecks } from "lucide-react";
+import { formatTime, parseDateKey } from "./dates";
+import { PRIORITY_COLORS, describePriority, subtaskProgress } from "./TaskDetail";
+import type { Category, TaskOccurrence } from "./types";
+
+/**
+ * Board view — task cards in columns by status (To do / Doing / Done) or by category
+ * - Cards are dragged between columns, or moved with the left and right arrow keys on their handle
+ * - Columns are drop targets with a data-drop-column attribute, e.g. "status:doing" or "category:<id>"
+ */
+
+const TRANSLATIONS = {
+  EN: {
+    groupBy: "Group by",
+    groupings: { status: "Status", category: "Category" },
+    statuses: { todo: "To do", doing: "Doing", done: "Done" },
+    noCategory: "No category",
+    emptyColumn: "Drop tasks here",
+    moveHint: "Drag to another column to move. Left and right arrow keys move between columns."
+  },
+  粵: {
+    groupBy: "分組",
+    groupings: { status: "狀態", category: "類別" },
+    statuses: { todo: "未做", doing: "做緊", done: "做完" },
+    noCategory: "冇類別",
+    emptyColumn: "拖任務嚟呢度",
+    moveHint: "拖去其他欄就可以搬。用左右方向鍵可以搬去隔籬欄。"
+  }
+} as const;
+
+export type BoardGrouping = "status" | "category";
+
+export type BoardStatus = "todo" | "doing" | "done";
+
+const STATUSES: BoardStatus[] = ["todo", "doing", "done"];
+
+const STATUS_COLORS: Record<BoardStatus, string> = { todo: "#86868B", doing: "#FF9F0A", done: "#30D158" };
+
+export const boardStatus = (task: TaskOccurrence): BoardStatus =>
+  task.completed ? "done" : task.doing ? "doing" : "todo";
+
+type Column = {
+  id: string;
+  title: string;
+  color: string;
+  tasks: TaskOccurrence[];
+};
+
+export default function TaskBoard({
+  lang,
+  tasks,
+  categories,
+  grouping,
+  onGroupingChange,
+  over,
+  onDragStart,
+  onMoveTo,
+  onOpen
+}: {
+  lang: "EN" | "粵";
+  tasks: TaskOccurrence[]; // in the order cards appear within a column
+  categories: Category[];
+  grouping: BoardGrouping;
+  onGroupingChange: (grouping: BoardGrouping) => void;
+  over?: string | null; // the column a dragged card is over
+  onDragStart: (event: ReactPointerEvent, task: TaskOccurrence) => void;
+  onMoveTo: (task: TaskOccurrence, column: string) => void;
+  onOpen: (task: TaskOccurrence) => void;
+}) {
+  const t = TRANSLATIONS[lang];
+  const locale = lang === "粵" ? "zh-HK" : "en-US";
+
+  const columns: Column[] = grouping === "status"
+    ? STATUSES.map((status) => ({
+        id: `status:${status}`,
+        title: t.statuses[status],
+        color: STATUS_COLORS[status],
+        tasks: tasks.filter((task) => boardStatus(task) === status)
+      }))
+    : [
+        ...categories.map((cat) => ({
+          id: `category:${cat.id}`,
+          title: cat.name,
+          color: cat.color,
+          tasks: tasks.filter((task) => task.categoryId === cat.id)
+        })),
+        {
+          id: "category:",
+          title: t.noCategory,
+          color: "#86868B",
+          tasks: tasks.filter((task) => !categories.some((cat) => cat.id === task.categoryId))
+        }
+      ];
+
+  const columnOf = (task: TaskOccurrence) =>
+    columns.findIndex((column) => column.tasks.includes(task));
+
+  const moveWithKeys = (e: React.KeyboardEvent, task: TaskOccurrence) => {
+    const step = ({ ArrowLeft: -1, ArrowRight: 1 } as Record<string, number>)[e.key];
+    if (step === undefined) return;
+    e.preventDefault();
+    const target = columns[columnOf(task) + step];
+    if (target) onMoveTo(task, target.id);
+  };
+
+  return (
+    <div className="flex flex-col h-full gap-3">
+      <div className="flex items-center gap-2 text-xs text-[#86868B] dark:text-white/60">
+        {t.groupBy}
+        <div className="flex gap-1 bg-[#F5F5F7] dark:bg-[#1C1C1E] rounded-lg p-0.5">
+          {(["status", "category"] as BoardGrouping[]).map((g) => (
+            <button
+              key={g}
+              onClick={() => onGroupingChange(g)}
+              className={`px-2.5 py-1 rounded-md font-medium transition-all duration-150 ${
+                grouping === g
+                  ? 'bg-white dark:bg-[#2C2C2E] text-[#1D1D1F] dark:text-white shadow-sm'
+                  : 'hover:text-[#1D1D1F] dark:hover:text-white'
+              }`}
+              aria-pressed={grouping === g}
+            >
+              {t.groupings[g]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex-1 min-h-0 flex gap-3 overflow-x-auto pb-2">
+        {columns.map((column) => (
+          <div
+            key={column.id}
+            data-drop-column={column.id}
+            className={`flex flex-col w-56 flex-shrink-0 rounded-xl bg-[#F5F5F7] dark:bg-[#1C1C1E]/60 p-2 transition-all duration-150 ${
+              over === column.id ? 'ring-2 ring-[#FF9F0A]' : ''
+            }`}
+          >
+            <div className="flex items-center gap-2 px-1.5 pb-2 text-xs font-semibold uppercase tracking-wider text-[#86868B] dark:text-white/60">
+              <span className="w-2 h-2 rounded-full flex-shrink-0" style={{ backgroundColor: column.color }} />
+              <span className="truncate">{column.title}</span>
+              <span className="ml-auto tabular-nums">{column.tasks.length}</span>
+            </div>
+            <div className="flex-1 overflow-y-auto space-y-2">
+              {column.tasks.length === 0 && (
+                <p className="px-2 py-6 text-center text-xs text-[#86868B]/70 dark:text-white/30 border border-dashed border-[#D1D1D6] dark:border-white/10 rounded-lg">
+                  {t.emptyColumn}
+                </p>
+              )}
+              {column.tasks.map((task) => {
+                const category = categories.find((cat) => cat.id === task.categoryId);
+                const progress = subtaskProgress(task);
+                return (
+                  <div
+                    key={`${task.id}-${task.occurrenceDate ?? ''}`}
+                    className="group flex items-start gap-1.5 p-2.5 bg-white dark:bg-[#1C1C1E] rounded-lg border border-black/5 dark:border-white/10 border-l-4 shadow-sm"
+                    style={{ borderLeftColor: category?.color ?? '#D1D1D6' }}
+                  >
+                    <button
+                      onPointerDown={(event) => onDragStart(event, task)}
+                      onKeyDown={(e) => moveWithKeys(e, task)}
+                      className="flex-shrink-0 -ml-1 mt-0.5 text-[#D1D1D6] dark:text-white/20 hover:text-[#86868B] focus:text-[#0A84FF] cursor-grab active:cursor-grabbing touch-none outline-none"
+                      aria-label={`${task.title}. ${t.moveHint}`}
+                      title={t.moveHint}
+                    >
+                      <GripVertical size={14} />
+                    </button>
+                    <div className="min-w-0 flex-1">
+                      <button
+                        onClick={() => onOpen(task)}
+                        className={`block w-full text-left text-sm font-medium break-words hover:underline ${
+                          task.completed ? 'line-through text-[#86868B] dark:text-white/40' : 'text-[#1D1D1F] dark:text-white'
+                        }`}
+                      >
+                        {task.title}
+                      </button>
+                      <div className="mt-1 flex items-center gap-2 flex-wrap text-xs text-[#86868B] dark:text-white/60">
+                        <span>
+                          {parseDateKey(task.date).toLocaleDateString(locale, { month: 'short', day: 'numeric' })}
+                          {task.start && ` ${formatTime(task.start, locale)}`}
+                        </span>
+                        {task.priority && (
+                          <span className="flex items-center gap-0.5" style={{ color: PRIORITY_COLORS[task.priority] }} title={describePriority(task.priority, lang)}>
+                            <Flag size={11} />
+                          </span>
+                        )}
+                        {progress.total > 0 && (
+                          <span className="flex items-center gap-0.5 tabular-nums">
+                            <ListChecks size={11} />
+                            {progress.done}/{progress.total}
+                          </span>
+                        )}
+                      </div>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
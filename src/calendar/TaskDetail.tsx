@@ -0,0 +1,402 @@
+import React, { useEffect, useState } from "react";
+import { AlarmClock, Flag, FolderKanban, Hourglass, ListChecks, Lock, Plus, StickyNote, Trash2, X } from "lucide-react";
+import { formatDuration, formatTime, parseDateKey, toDateKey } from "./dates";
+import type { Project } from "./projects";
+import type { Priority, Task } from "./types";
+
+/**
+ * Task detail panel — title, notes, priority, due time, effort, a subtask checklist and the task's project
+ * - Every change is saved as it is made
+ * - Details belong to the whole series for repeating tasks
+ */
+
+const TRANSLATIONS = {
+  EN: {
+    details: "Task details",
+    title: "Title",
+    notes: "Notes",
+    notesPlaceholder: "Add notes, links or who's doing what...",
+    priority: "Priority",
+    priorities: { none: "None", high: "High", medium: "Medium", low: "Low" },
+    due: "Due time",
+    clear: "Clear",
+    subtasks: "Subtasks",
+    addSubtask: "Add a subtask...",
+    sharedBySeries: "Shared by every occurrence of this repeating task",
+    effort: "Estimated effort",
+    noEstimate: "Not estimated",
+    sessions: "Planned sessions",
+    project: "Project",
+    noProject: "No project",
+    noMilestone: "No milestone",
+    blockedBy: "Blocked by",
+    addBlocker: "Add a task this waits on...",
+    close: "Close"
+  },
+  粵: {
+    details: "任務詳情",
+    title: "標題",
+    notes: "備註",
+    notesPlaceholder: "加入備註、連結或者分工...",
+    priority: "優先次序",
+    priorities: { none: "無", high: "高", medium: "中", low: "低" },
+    due: "截止時間",
+    clear: "清除",
+    subtasks: "子任務",
+    addSubtask: "新增子任務...",
+    sharedBySeries: "呢個重複任務嘅所有日子都會共用",
+    effort: "預計要幾耐",
+    noEstimate: "未估計",
+    sessions: "已編時段",
+    project: "項目",
+    noProject: "冇項目",
+    noMilestone: "未分里程碑",
+    blockedBy: "要等",
+    addBlocker: "加一個要先做完嘅任務...",
+    close: "關閉"
+  }
+} as const;
+
+export const PRIORITIES: Priority[] = ["high", "medium", "low"];
+
+// Effort choices, in minutes
+const ESTIMATES = [15, 30, 45, 60, 90, 120, 180, 240, 360, 480];
+
+export const PRIORITY_COLORS: Record<Priority, string> = {
+  high: "#FF375F",
+  medium: "#FF9F0A",
+  low: "#0A84FF",
+};
+
+// Sort key: high first, tasks without a priority last
+export const priorityRank = (priority?: Priority) => (priority ? PRIORITIES.indexOf(priority) : PRIORITIES.length);
+
+export const describePriority = (priority: Priority, lang: "EN" | "粵") => TRANSLATIONS[lang].priorities[priority];
+
+export const subtaskProgress = (task: Task) => ({
+  done: task.subtasks?.filter((subtask) => subtask.done).length ?? 0,
+  total: task.subtasks?.length ?? 0,
+});
+
+export type TaskDetails = Pick<Task, "title" | "notes" | "priority" | "due" | "subtasks" | "projectId" | "milestoneId" | "blockedBy" | "estimate" | "workBlocks">;
+
+export default function TaskDetail({
+  lang,
+  task,
+  projects,
+  blockers,
+  blockerOptions,
+  onChange,
+  onClose
+}: {
+  lang: "EN" | "粵";
+  task: Task;
+  projects: Project[];
+  blockers: Task[]; // the tasks in blockedBy
+  blockerOptions: Task[]; // other tasks of the project this one could wait on without a loop
+  onChange: (details: Partial<TaskDetails>) => void;
+  onClose: () => void;
+}) {
+  const t = TRANSLATIONS[lang];
+  const [title, setTitle] = useState(task.title);
+  const [newSubtask, setNewSubtask] = useState("");
+  const subtasks = task.subtasks ?? [];
+  const { done, total } = subtaskProgress(task);
+  const project = projects.find((p) => p.id === task.projectId);
+  const locale = lang === "粵" ? "zh-HK" : "en-US";
+  const today = toDateKey(new Date());
+  const upcomingBlocks = (task.workBlocks ?? []).filter((block) => block.date >= today);
+
+  // Another task opened in the same panel
+  useEffect(() => setTitle(task.title), [task.id]);
+
+  const commitTitle = () => {
+    if (title.trim()) onChange({ title: title.trim() });
+    else setTitle(task.title);
+  };
+
+  const addSubtask = () => {
+    if (!newSubtask.trim()) return;
+    onChange({ subtasks: [...subtasks, { id: Date.now().toString(), title: newSubtask.trim(), done: false }] });
+    setNewSubtask("");
+  };
+
+  const updateSubtask = (id: string, change: { title?: string; done?: boolean }) =>
+    onChange({ subtasks: subtasks.map((subtask) => (subtask.id === id ? { ...subtask, ...change } : subtask)) });
+
+  const removeBlocker = (id: string) => {
+    const rest = (task.blockedBy ?? []).filter((blocker) => blocker !== id);
+    onChange({ blockedBy: rest.length > 0 ? rest : undefined });
+  };
+
+  const removeBlock = (index: number) => {
+    const rest = (task.workBlocks ?? []).filter((block) => block !== upcomingBlocks[index]);
+    onChange({ workBlocks: rest.length > 0 ? rest : undefined });
+  };
+
+  const deleteSubtask = (id: string) => {
+    const rest = subtasks.filter((subtask) => subtask.id !== id);
+    onChange({ subtasks: rest.length > 0 ? rest : undefined });
+  };
+
+  const label = "flex items-center gap-1.5 text-xs font-semibold text-[#86868B] dark:text-white/60 uppercase tracking-wider mb-2";
+  const field = "w-full px-3 py-2 bg-[#F5F5F7] dark:bg-[#1C1C1E] rounded-lg text-sm text-[#1D1D1F] dark:text-white outline-none focus:ring-2 focus:ring-[#0A84FF]/50 transition-all duration-150";
+
+  return (
+    <div
+      className="absolute inset-y-0 right-0 z-20 w-full sm:w-96 bg-white dark:bg-[#0B0B0D] border-l border-black/10 dark:border-white/10 shadow-2xl flex flex-col animate-slideIn"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className="flex items-center justify-between px-6 py-4 border-b border-black/10 dark:border-white/10">
+        <h3 className="text-lg font-semibold text-[#1D1D1F] dark:text-white">{t.details}</h3>
+        <button
+          onClick={onClose}
+          className="p-1.5 text-[#86868B] hover:bg-black/5 dark:hover:bg-white/10 rounded-lg transition-all duration-150"
+          title={t.close}
+        >
+          <X size={18} />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-6 py-4 space-y-5">
+        {/* Title */}
+        <div>
+          <label className={label} htmlFor="task-detail-title">{t.title}</label>
+          <input
+            id="task-detail-title"
+            type="text"
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            onBlur={commitTitle}
+            onKeyDown={(e) => e.key === 'Enter' && commitTitle()}
+            className={field}
+          />
+          {task.recurrence && (
+            <p className="text-xs text-[#86868B] dark:text-white/40 mt-1.5">{t.sharedBySeries}</p>
+          )}
+        </div>
+
+        {/* Priority */}
+        <div>
+          <p className={label}><Flag size={12} />{t.priority}</p>
+          <div className="flex gap-1.5 flex-wrap">
+            {[undefined, ...PRIORITIES].map((priority) => {
+              const active = task.priority === priority;
+              const color = priority ? PRIORITY_COLORS[priority] : "#86868B";
+              return (
+                <button
+                  key={priority ?? "none"}
+                  onClick={() => onChange({ priority })}
+                  className="px-3 py-1.5 rounded-lg text-xs font-medium transition-all duration-150"
+                  style={{
+                    backgroundColor: active ? `${color}20` : 'transparent',
+                    color: active ? color : '#86868B',
+                    border: `1px solid ${active ? color : '#D1D1D6'}`
+                  }}
+                >
+                  {t.priorities[priority ?? "none"]}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+
+        {/* Due time */}
+        <div>
+          <label className={label} htmlFor="task-detail-due"><AlarmClock size={12} />{t.due}</label>
+          <div className="flex items-center gap-2">
+            <input
+              id="task-detail-due"
+              type="time"
+              value={task.due ?? ''}
+              onChange={(e) => onChange({ due: e.target.value || undefined })}
+              className={`${field} w-auto`}
+            />
+            {task.due && (
+              <button
+                onClick={() => onChange({ due: undefined })}
+                className="px-3 py-1.5 text-xs font-medium text-[#86868B] dark:text-white/60 hover:bg-black/5 dark:hover:bg-white/10 rounded-lg transition-all duration-150"
+              >
+                {t.clear}
+              </button>
+            )}
+          </div>
+        </div>
+
+        {/* Effort */}
+        <div>
+          <label className={label} htmlFor="task-detail-effort"><Hourglass size={12} />{t.effort}</label>
+          <select
+            id="task-detail-effort"
+            value={task.estimate ?? ''}
+            onChange={(e) => onChange({ estimate: e.target.value ? Number(e.target.value) : undefined })}
+            className={`${field} w-auto`}
+          >
+            <option value="">{t.noEstimate}</option>
+            {[...new Set([...ESTIMATES, ...(task.estimate ? [task.estimate] : [])])].sort((a, b) => a - b).map((minutes) => (
+              <option key={minutes} value={minutes}>{formatDuration(minutes)}</option>
+            ))}
+          </select>
+          {upcomingBlocks.length > 0 && (
+            <div className="mt-2 space-y-1">
+              <p className="text-xs text-[#86868B] dark:text-white/60">{t.sessions}</p>
+              {upcomingBlocks.map((block, index) => (
+                <div key={`${block.date}-${block.start}`} className="group flex items-center gap-2 text-xs text-[#FF9F0A]">
+                  <span className="flex-1">
+                    {parseDateKey(block.date).toLocaleDateString(locale, { weekday: 'short', month: 'short', day: 'numeric' })}
+                    {' · '}
+                    {formatTime(block.start, locale)}–{formatTime(block.end, locale)}
+                  </span>
+                  <button
+                    onClick={() => removeBlock(index)}
+                    className="opacity-0 group-hover:opacity-100 p-1 text-[#FF375F] hover:bg-[#FF375F]/10 rounded transition-all duration-150"
+                  >
+                    <Trash2 size={12} />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Project */}
+        {projects.length > 0 && (
+          <div>
+            <label className={label} htmlFor="task-detail-project"><FolderKanban size={12} />{t.project}</label>
+            <select
+              id="task-detail-project"
+              value={task.projectId ?? ''}
+              onChange={(e) => onChange({ projectId: e.target.value || undefined, milestoneId: undefined, blockedBy: undefined })}
+              className={field}
+            >
+              <option value="">{t.noProject}</option>
+              {projects.map((p) => (
+                <option key={p.id} value={p.id}>{p.name}</option>
+              ))}
+            </select>
+            {project && project.milestones.length > 0 && (
+              <select
+                value={task.milestoneId ?? ''}
+                onChange={(e) => onChange({ milestoneId: e.target.value || undefined })}
+                className={`${field} mt-2`}
+                aria-label={t.noMilestone}
+              >
+                <option value="">{t.noMilestone}</option>
+                {project.milestones.map((m) => (
+                  <option key={m.id} value={m.id}>{m.title || m.date}</option>
+                ))}
+              </select>
+            )}
+            {project && (
+              <div className="mt-3">
+                <p className="flex items-center gap-1.5 text-xs text-[#86868B] dark:text-white/60 mb-1.5">
+                  <Lock size={12} />
+                  {t.blockedBy}
+                </p>
+                <div className="flex gap-1.5 flex-wrap">
+                  {blockers.map((blocker) => (
+                    <span
+                      key={blocker.id}
+                      className={`flex items-center gap-1 pl-2 pr-1 py-0.5 rounded-lg text-xs font-medium ${
+                        blocker.completed ? 'bg-[#30D158]/10 text-[#30D158] line-through' : 'bg-[#FF9F0A]/10 text-[#FF9F0A]'
+                      }`}
+                    >
+                      {blocker.title}
+                      <button onClick={() => removeBlocker(blocker.id)} className="p-0.5 rounded hover:bg-black/5 dark:hover:bg-white/10">
+                        <X size={10} />
+                      </button>
+                    </span>
+                  ))}
+                </div>
+                {blockerOptions.length > 0 && (
+                  <select
+                    value=""
+                    onChange={(e) => e.target.value && onChange({ blockedBy: [...(task.blockedBy ?? []), e.target.value] })}
+                    className={`${field} mt-2 text-xs`}
+                    aria-label={t.blockedBy}
+                  >
+                    <option value="">{t.addBlocker}</option>
+                    {blockerOptions.map((option) => (
+                      <option key={option.id} value={option.id}>{option.title}</option>
+                    ))}
+                  </select>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Subtasks */}
+        <div>
+          <p className={label}>
+            <ListChecks size={12} />
+            {t.subtasks}
+            {total > 0 && <span className="ml-auto normal-case tracking-normal">{done}/{total}</span>}
+          </p>
+          {total > 0 && (
+            <div className="h-1 bg-[#F5F5F7] dark:bg-[#1C1C1E] rounded-full overflow-hidden mb-2">
+              <div className="h-full bg-[#30D158] transition-all duration-300" style={{ width: `${(done / total) * 100}%` }} />
+            </div>
+          )}
+          <div className="space-y-1">
+            {subtasks.map((subtask) => (
+              <div key={subtask.id} className="group flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={subtask.done}
+                  onChange={(e) => updateSubtask(subtask.id, { done: e.target.checked })}
+                  className="accent-[#30D158]"
+                />
+                <input
+                  type="text"
+                  value={subtask.title}
+                  onChange={(e) => updateSubtask(subtask.id, { title: e.target.value })}
+                  onBlur={(e) => !e.target.value.trim() && deleteSubtask(subtask.id)}
+                  className={`flex-1 min-w-0 px-2 py-1 bg-transparent rounded text-sm outline-none focus:bg-[#F5F5F7] dark:focus:bg-[#1C1C1E] ${
+                    subtask.done ? 'line-through text-[#86868B] dark:text-white/40' : 'text-[#1D1D1F] dark:text-white'
+                  }`}
+                />
+                <button
+                  onClick={() => deleteSubtask(subtask.id)}
+                  className="opacity-0 group-hover:opacity-100 p-1 text-[#FF375F] hover:bg-[#FF375F]/10 rounded transition-all duration-150"
+                >
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            ))}
+          </div>
+          <div className="flex gap-2 mt-2">
+            <input
+              type="text"
+              value={newSubtask}
+              onChange={(e) => setNewSubtask(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && addSubtask()}
+              placeholder={t.addSubtask}
+              className={field}
+            />
+            <button
+              onClick={addSubtask}
+              disabled={!newSubtask.trim()}
+              className="px-3 bg-[#0A84FF] text-white rounded-lg hover:bg-[#0A84FF]/90 disabled:opacity-40 disabled:cursor-not-allowed transition-all duration-150"
+            >
+              <Plus size={16} />
+            </button>
+          </div>
+        </div>
+
+        {/* Notes */}
+        <div>
+          <label className={label} htmlFor="task-detail-notes"><StickyNote size={12} />{t.notes}</label>
+          <textarea
+            id="task-detail-notes"
+            value={task.notes ?? ''}
+            onChange={(e) => onChange({ notes: e.target.value || undefined })}
+            placeholder={t.notesPlaceholder}
+            rows={6}
+            className={`${field} resize-y`}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
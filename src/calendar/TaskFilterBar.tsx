@@ -0,0 +1,205 @@
+import React from "react";
+import { Bookmark, Flag, Search, X } from "lucide-react";
+import { DateRange, EMPTY_FILTER, SmartList, TaskFilter, TaskStatus, isFilterEmpty, sameFilter } from "./filters";
+import { PRIORITIES, PRIORITY_COLORS, describePriority } from "./TaskDetail";
+import type { Category } from "./types";
+
+/**
+ * Search and filters for the all-tasks list, with saved smart lists
+ */
+
+const TRANSLATIONS = {
+  EN: {
+    search: "Search tasks...",
+    statuses: { pending: "Pending", overdue: "Overdue", completed: "Completed" },
+    ranges: {
+      any: "Any time",
+      today: "Today",
+      thisWeek: "This week",
+      next7Days: "Next 7 days",
+      thisMonth: "This month",
+      custom: "Custom dates"
+    },
+    from: "From",
+    to: "To",
+    smartLists: "Smart lists",
+    saveList: "Save as list",
+    listName: "Name this smart list:",
+    deleteList: (name: string) => `Delete the smart list "${name}"?`,
+    clear: "Clear"
+  },
+  粵: {
+    search: "搜尋任務...",
+    statuses: { pending: "待辦", overdue: "過期", completed: "完成" },
+    ranges: {
+      any: "任何時間",
+      today: "今日",
+      thisWeek: "今個星期",
+      next7Days: "未來 7 日",
+      thisMonth: "今個月",
+      custom: "自訂日期"
+    },
+    from: "由",
+    to: "至",
+    smartLists: "智能清單",
+    saveList: "儲存做清單",
+    listName: "幫呢個智能清單改個名：",
+    deleteList: (name: string) => `刪除智能清單「${name}」？`,
+    clear: "清除"
+  }
+} as const;
+
+const STATUSES: TaskStatus[] = ["pending", "overdue", "completed"];
+const RANGES: DateRange[] = ["any", "today", "thisWeek", "next7Days", "thisMonth", "custom"];
+
+const toggle = <T,>(list: T[], value: T) => (list.includes(value) ? list.filter((v) => v !== value) : [...list, value]);
+
+export default function TaskFilterBar({
+  lang,
+  filter,
+  onChange,
+  categories,
+  smartLists,
+  onSaveList,
+  onDeleteList
+}: {
+  lang: "EN" | "粵";
+  filter: TaskFilter;
+  onChange: (filter: TaskFilter) => void;
+  categories: Category[];
+  smartLists: SmartList[];
+  onSaveList: (name: string) => void;
+  onDeleteList: (id: string) => void;
+}) {
+  const t = TRANSLATIONS[lang];
+  const inputClass = "px-2 py-1 bg-[#F5F5F7] dark:bg-[#1C1C1E] rounded-lg text-xs text-[#1D1D1F] dark:text-white outline-none focus:ring-1 focus:ring-[#0A84FF]";
+
+  const chip = (label: React.ReactNode, active: boolean, onClick: () => void, color = "#0A84FF", key?: string) => (
+    <button
+      key={key}
+      onClick={onClick}
+      className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-xs font-medium transition-all duration-150"
+      style={{
+        backgroundColor: active ? `${color}20` : 'transparent',
+        color: active ? color : '#86868B',
+        border: `1px solid ${active ? color : '#D1D1D6'}`
+      }}
+      aria-pressed={active}
+    >
+      {label}
+    </button>
+  );
+
+  const saveList = () => {
+    const name = prompt(t.listName)?.trim();
+    if (name) onSaveList(name);
+  };
+
+  return (
+    <div className="space-y-3">
+      {/* Search */}
+      <div className="relative">
+        <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-[#86868B] dark:text-white/60" />
+        <input
+          type="search"
+          value={filter.query}
+          onChange={(e) => onChange({ ...filter, query: e.target.value })}
+          placeholder={t.search}
+          className="w-full pl-9 pr-4 py-2.5 bg-[#F5F5F7] dark:bg-[#1C1C1E] border border-black/10 dark:border-white/10 rounded-lg text-sm text-[#1D1D1F] dark:text-white placeholder-[#86868B] dark:placeholder-white/40 outline-none focus:ring-2 focus:ring-[#0A84FF]/50 transition-all duration-150"
+        />
+      </div>
+
+      {/* Dates and status */}
+      <div className="flex items-center gap-2 flex-wrap">
+        <select
+          value={filter.range}
+          onChange={(e) => onChange({ ...filter, range: e.target.value as DateRange })}
+          className={inputClass}
+        >
+          {RANGES.map((range) => (
+            <option key={range} value={range}>{t.ranges[range]}</option>
+          ))}
+        </select>
+        {filter.range === "custom" && (
+          <>
+            <input
+              type="date"
+              value={filter.from ?? ''}
+              onChange={(e) => onChange({ ...filter, from: e.target.value || undefined })}
+              className={inputClass}
+              aria-label={t.from}
+            />
+            –
+            <input
+              type="date"
+              value={filter.to ?? ''}
+              min={filter.from}
+              onChange={(e) => onChange({ ...filter, to: e.target.value || undefined })}
+              className={inputClass}
+              aria-label={t.to}
+            />
+          </>
+        )}
+        {STATUSES.map((status) =>
+          chip(
+            t.statuses[status],
+            filter.statuses.includes(status),
+            () => onChange({ ...filter, statuses: toggle(filter.statuses, status) }),
+            status === "overdue" ? "#FF375F" : status === "completed" ? "#30D158" : "#0A84FF",
+            status
+          )
+        )}
+      </div>
+
+      {/* Categories and priorities */}
+      <div className="flex items-center gap-2 flex-wrap">
+        {categories.map((cat) =>
+          chip(cat.name, filter.categoryIds.includes(cat.id), () => onChange({ ...filter, categoryIds: toggle(filter.categoryIds, cat.id) }), cat.color, cat.id)
+        )}
+        {PRIORITIES.map((priority) =>
+          chip(
+            <><Flag size={12} />{describePriority(priority, lang)}</>,
+            filter.priorities.includes(priority),
+            () => onChange({ ...filter, priorities: toggle(filter.priorities, priority) }),
+            PRIORITY_COLORS[priority],
+            priority
+          )
+        )}
+      </div>
+
+      {/* Smart lists */}
+      <div className="flex items-center gap-2 flex-wrap">
+        <Bookmark size={14} className="text-[#86868B] dark:text-white/60" aria-label={t.smartLists} />
+        {smartLists.map((list) => (
+          <div key={list.id} className="relative group">
+            {chip(list.name, sameFilter(list.filter, filter), () => onChange(list.filter), "#5856D6")}
+            <button
+              onClick={() => confirm(t.deleteList(list.name)) && onDeleteList(list.id)}
+              className="absolute -top-1 -right-1 w-4 h-4 bg-[#FF375F] rounded-full flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity duration-150"
+            >
+              <X size={10} className="text-white" strokeWidth={3} />
+            </button>
+          </div>
+        ))}
+        {!isFilterEmpty(filter) && (
+          <>
+            {!smartLists.some((list) => sameFilter(list.filter, filter)) && (
+              <button
+                onClick={saveList}
+                className="px-3 py-1.5 rounded-lg text-xs font-medium text-[#5856D6] border border-dashed border-[#5856D6] hover:bg-[#5856D6]/10 transition-all duration-150"
+              >
+                + {t.saveList}
+              </button>
+            )}
+            <button
+              onClick={() => onChange(EMPTY_FILTER)}
+              className="px-3 py-1.5 rounded-lg text-xs font-medium text-[#86868B] dark:text-white/60 hover:bg-black/5 dark:hover:bg-white/10 transition-all duration-150"
+            >
+              {t.clear}
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
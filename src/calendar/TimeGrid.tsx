@@ -0,0 +1,277 @@
+import React, { useEffect, useRef, useState } from "react";
+import { formatTime, toDateKey, toMinutes } from "./dates";
+import { layoutDay } from "./layout";
+import type { ClassOccurrence } from "./timetable";
+import type { Category, TaskOccurrence } from "./types";
+
+/**
+ * Week and day views — hourly time slots
+ * - All-day tasks sit in a strip above the hours
+ * - Timed tasks are blocks sized by their start and end; overlapping ones share the column
+ * - Timetabled classes sit behind the tasks as a read-only layer
+ * - Planned work sessions are orange, dashed while only proposed
+ * - A red line marks the current time in today's column
+ * - Day headers and columns are drop targets for dragged tasks, which keep their times
+ */
+
+const TRANSLATIONS = {
+  EN: {
+    allDay: "All day"
+  },
+  粵: {
+    allDay: "全日"
+  }
+} as const;
+
+const HOUR_HEIGHT = 48; // px
+const DEFAULT_DURATION = 60; // minutes, for timed tasks without an end
+const SCROLL_TO_HOUR = 8;
+
+// A planner session: an accepted one, or one proposed and waiting to be accepted
+export type GridSession = {
+  id: string;
+  title: string;
+  date: string;
+  start: string;
+  end: string;
+  proposed: boolean;
+};
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+export const taskRange = (task: TaskOccurrence) => {
+  const start = toMinutes(task.start ?? "00:00");
+  const end = task.end ? toMinutes(task.end) : start + DEFAULT_DURATION;
+  return { start, end: Math.min(Math.max(end, start), 24 * 60) };
+};
+
+function useNow() {
+  const [now, setNow] = useState(new Date());
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 60 * 1000);
+    return () => clearInterval(timer);
+  }, []);
+  return now;
+}
+
+export default function TimeGrid({
+  lang,
+  days,
+  tasks,
+  classes = [],
+  sessions = [],
+  categories,
+  selectedDate,
+  onSelectDate,
+  dropDate
+}: {
+  lang: "EN" | "粵";
+  days: Date[];
+  tasks: TaskOccurrence[]; // occurrences within the shown days
+  classes?: ClassOccurrence[]; // classes within the shown days
+  sessions?: GridSession[]; // planned work within the shown days
+  categories: Category[];
+  selectedDate: Date;
+  onSelectDate: (date: Date) => void;
+  dropDate?: string | null; // the day a dragged task is over
+}) {
+  const t = TRANSLATIONS[lang];
+  const locale = lang === "粵" ? "zh-HK" : "en-US";
+  const now = useNow();
+  const todayKey = toDateKey(now);
+  const selectedKey = toDateKey(selectedDate);
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  // Open on the working day, or on the current time if that's later
+  useEffect(() => {
+    const hour = Math.max(SCROLL_TO_HOUR, new Date().getHours() - 1);
+    scrollRef.current?.scrollTo({ top: hour * HOUR_HEIGHT });
+  }, []);
+
+  const colorOf = (task: TaskOccurrence) => categories.find((c) => c.id === task.categoryId)?.color ?? "#86868B";
+  const columns = days.map((day) => {
+    const key = toDateKey(day);
+    const dayTasks = tasks.filter((task) => task.date === key);
+    return {
+      day,
+      key,
+      classes: classes.filter((c) => c.date === key),
+      sessions: sessions.filter((session) => session.date === key),
+      allDay: dayTasks.filter((task) => !task.start),
+      timed: layoutDay(dayTasks.filter((task) => task.start), taskRange),
+    };
+  });
+  const hasAllDay = columns.some((column) => column.allDay.length > 0);
+  const gridTemplate = { gridTemplateColumns: `3.5rem repeat(${days.length}, minmax(0, 1fr))` };
+  const nowMinutes = now.getHours() * 60 + now.getMinutes();
+
+  return (
+    <div className="flex flex-col h-full min-h-[28rem]">
+      {/* Day headers */}
+      <div className="grid border-b border-black/10 dark:border-white/10" style={gridTemplate}>
+        <div />
+        {columns.map(({ day, key }) => (
+          <button
+            key={key}
+            onClick={() => onSelectDate(day)}
+            data-drop-date={key}
+            className={`py-2 flex flex-col items-center gap-0.5 rounded-lg hover:bg-black/5 dark:hover:bg-white/5 transition-all duration-150 ${
+              key === dropDate ? 'ring-2 ring-[#FF9F0A]' : ''
+            }`}
+          >
+            <span className="text-xs font-semibold text-[#86868B] dark:text-white/60 uppercase tracking-wider">
+              {day.toLocaleDateString(locale, { weekday: 'short' })}
+            </span>
+            <span
+              className={`w-8 h-8 flex items-center justify-center rounded-full text-sm font-bold ${
+                key === selectedKey
+                  ? 'bg-[#0A84FF] text-white'
+                  : key === todayKey
+                    ? 'text-[#FF9F0A]'
+                    : 'text-[#1D1D1F] dark:text-white'
+              }`}
+            >
+              {day.getDate()}
+            </span>
+          </button>
+        ))}
+      </div>
+
+      {/* All-day strip */}
+      {hasAllDay && (
+        <div className="grid border-b border-black/10 dark:border-white/10 py-1" style={gridTemplate}>
+          <div className="text-[10px] text-[#86868B] dark:text-white/60 text-right pr-2 pt-1">{t.allDay}</div>
+          {columns.map(({ day, key, allDay }) => (
+            <div key={key} className="px-0.5 space-y-0.5 min-w-0">
+              {allDay.map((task) => (
+                <button
+                  key={`${task.id}-${task.occurrenceDate ?? ''}`}
+                  onClick={() => onSelectDate(day)}
+                  className={`w-full px-1.5 py-0.5 rounded text-[11px] font-medium text-left truncate ${task.completed ? 'line-through opacity-50' : ''}`}
+                  style={{ backgroundColor: `${colorOf(task)}20`, color: colorOf(task) }}
+                  title={task.title}
+                >
+                  {task.title}
+                </button>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Hourly slots */}
+      <div ref={scrollRef} className="flex-1 overflow-y-auto">
+        <div className="grid relative" style={{ ...gridTemplate, height: 24 * HOUR_HEIGHT }}>
+          <div className="relative">
+            {HOURS.slice(1).map((hour) => (
+              <span
+                key={hour}
+                className="absolute right-2 -translate-y-1/2 text-[10px] text-[#86868B] dark:text-white/60"
+                style={{ top: hour * HOUR_HEIGHT }}
+              >
+                {formatTime(`${String(hour).padStart(2, '0')}:00`, locale)}
+              </span>
+            ))}
+          </div>
+
+          {columns.map(({ day, key, timed, classes: dayClasses, sessions: daySessions }) => (
+            <div
+              key={key}
+              onClick={() => onSelectDate(day)}
+              data-drop-date={key}
+              className={`relative border-l border-black/5 dark:border-white/5 ${key === dropDate ? 'bg-[#FF9F0A]/10' : ''}`}
+            >
+              {HOURS.map((hour) => (
+                <div
+                  key={hour}
+                  className="absolute inset-x-0 border-t border-black/5 dark:border-white/5"
+                  style={{ top: hour * HOUR_HEIGHT }}
+                />
+              ))}
+
+              {dayClasses.map((c) => {
+                const start = toMinutes(c.start);
+                const end = toMinutes(c.end);
+                return (
+                  <div
+                    key={c.id}
+                    className="absolute inset-x-0.5 rounded-md px-1.5 py-0.5 overflow-hidden text-[10px] leading-tight border border-dashed border-[#5856D6]/50 text-[#5856D6] pointer-events-none"
+                    style={{
+                      top: (start / 60) * HOUR_HEIGHT,
+                      height: ((end - start) / 60) * HOUR_HEIGHT - 2,
+                      background: 'repeating-linear-gradient(135deg, #5856D610 0 6px, transparent 6px 12px)'
+                    }}
+                  >
+                    <p className="font-semibold truncate">{c.course}</p>
+                    {c.venue && <p className="truncate opacity-80">{c.venue}</p>}
+                  </div>
+                );
+              })}
+
+              {daySessions.map((session) => {
+                const start = toMinutes(session.start);
+                const end = toMinutes(session.end);
+                return (
+                  <div
+                    key={session.id}
+                    className={`absolute inset-x-0.5 rounded-md px-1.5 py-0.5 overflow-hidden text-[10px] leading-tight text-[#FF9F0A] pointer-events-none ${
+                      session.proposed ? 'border border-dashed border-[#FF9F0A]/70' : 'border-l-2 border-[#FF9F0A] bg-[#FF9F0A]/15'
+                    }`}
+                    style={{
+                      top: (start / 60) * HOUR_HEIGHT,
+                      height: ((end - start) / 60) * HOUR_HEIGHT - 2,
+                      ...(session.proposed && { background: 'repeating-linear-gradient(135deg, #FF9F0A14 0 6px, transparent 6px 12px)' })
+                    }}
+                  >
+                    <p className="font-semibold truncate">{session.title}</p>
+                    {end - start >= 40 && (
+                      <p className="truncate opacity-80">{formatTime(session.start, locale)}–{formatTime(session.end, locale)}</p>
+                    )}
+                  </div>
+                );
+              })}
+
+              {timed.map(({ item: task, start, end, column, columns: count }) => {
+                const color = colorOf(task);
+                return (
+                  <div
+                    key={`${task.id}-${task.occurrenceDate ?? ''}`}
+                    className={`absolute rounded-md px-1.5 py-0.5 overflow-hidden text-[11px] leading-tight border-l-2 ${task.completed ? 'opacity-50' : ''}`}
+                    style={{
+                      top: (start / 60) * HOUR_HEIGHT,
+                      height: ((end - start) / 60) * HOUR_HEIGHT - 2,
+                      left: `calc(${(column / count) * 100}% + 1px)`,
+                      width: `calc(${100 / count}% - 2px)`,
+                      backgroundColor: `${color}20`,
+                      borderColor: color,
+                      color
+                    }}
+                    title={`${task.title} · ${formatTime(task.start!, locale)}${task.end ? `–${formatTime(task.end, locale)}` : ''}`}
+                  >
+                    <p className={`font-semibold truncate ${task.completed ? 'line-through' : ''}`}>{task.title}</p>
+                    {end - start >= 40 && (
+                      <p className="truncate opacity-80">
+                        {formatTime(task.start!, locale)}{task.end && `–${formatTime(task.end, locale)}`}
+                      </p>
+                    )}
+                  </div>
+                );
+              })}
+
+              {key === todayKey && (
+                <div
+                  className="absolute inset-x-0 z-10 pointer-events-none"
+                  style={{ top: (nowMinutes / 60) * HOUR_HEIGHT }}
+                >
+                  <div className="relative h-0.5 bg-[#FF375F]">
+                    <div className="absolute -left-1 -top-[3px] w-2 h-2 rounded-full bg-[#FF375F]" />
+                  </div>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
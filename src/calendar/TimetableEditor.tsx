@@ -0,0 +1,318 @@
+import React, { useState } from "react";
+import { CalendarRange, Eye, GraduationCap, MapPin, Plus, Trash2, X } from "lucide-react";
+import { addDaysToKey, parseDateKey, toDateKey, weekdayNames } from "./dates";
+import { ClassSession, Semester, parseSessions } from "./timetable";
+
+/**
+ * Timetable panel — the semester's dates, breaks and weekly class sessions
+ * - Sessions can be added one by one or pasted from a course planner, one per line
+ * - Every change is saved as it is made
+ */
+
+const TRANSLATIONS = {
+  EN: {
+    timetable: "Class timetable",
+    create: "Set up this semester",
+    empty: "Add your weekly classes to see them on the calendar, with the teaching week in the header.",
+    semesterName: "Semester",
+    semesterPlaceholder: "e.g. 2026–27 Sem 1",
+    start: "Teaching starts",
+    end: "Teaching ends",
+    breaks: "Breaks (reading week, holidays)",
+    addBreak: "Add break",
+    sessions: "Weekly classes",
+    course: "Course",
+    venue: "Venue",
+    addSession: "Add class",
+    paste: "Paste classes",
+    pasteHint: "One class per line: course, day, time, venue — e.g. COMP3230 Mon 09:30-11:20 MWT1",
+    addPasted: "Add pasted classes",
+    badLines: (lines: number[]) => `Couldn't read line${lines.length === 1 ? '' : 's'} ${lines.join(', ')}. Use: COURSE Day HH:MM-HH:MM Venue`,
+    show: "Show classes on the calendar",
+    remove: "Remove timetable",
+    confirmRemove: "Remove this semester's timetable?",
+    close: "Close"
+  },
+  粵: {
+    timetable: "上堂時間表",
+    create: "設定今個學期",
+    empty: "加入每星期嘅堂，就可以喺行事曆見到，標題仲會顯示教學週。",
+    semesterName: "學期",
+    semesterPlaceholder: "例如：2026–27 上學期",
+    start: "開課日",
+    end: "最後上課日",
+    breaks: "假期（閱讀週、公眾假期）",
+    addBreak: "新增假期",
+    sessions: "每週課堂",
+    course: "科目",
+    venue: "地點",
+    addSession: "新增課堂",
+    paste: "貼上課堂",
+    pasteHint: "每行一堂：科目、星期、時間、地點 — 例如 COMP3230 星期一 09:30-11:20 MWT1",
+    addPasted: "加入貼上嘅課堂",
+    badLines: (lines: number[]) => `第 ${lines.join('、')} 行讀唔到。格式：科目 星期 HH:MM-HH:MM 地點`,
+    show: "喺行事曆顯示課堂",
+    remove: "刪除時間表",
+    confirmRemove: "刪除今個學期嘅時間表？",
+    close: "關閉"
+  }
+} as const;
+
+const SEMESTER_WEEKS = 13;
+
+export default function TimetableEditor({
+  lang,
+  value,
+  onChange,
+  onClose
+}: {
+  lang: "EN" | "粵";
+  value: Semester | null;
+  onChange: (semester: Semester | null) => void;
+  onClose: () => void;
+}) {
+  const t = TRANSLATIONS[lang];
+  const locale = lang === "粵" ? "zh-HK" : "en-US";
+  const [pasted, setPasted] = useState("");
+  const weekdays = weekdayNames(locale, 0); // Sunday first, as session weekdays are numbered
+
+  const label = "flex items-center gap-1.5 text-xs font-semibold text-[#86868B] dark:text-white/60 uppercase tracking-wider mb-2";
+  const field = "px-2 py-1.5 bg-[#F5F5F7] dark:bg-[#1C1C1E] rounded-lg text-sm text-[#1D1D1F] dark:text-white outline-none focus:ring-2 focus:ring-[#0A84FF]/50 transition-all duration-150";
+
+  const createSemester = () => {
+    const today = toDateKey(new Date());
+    onChange({ name: "", start: today, end: addDaysToKey(today, SEMESTER_WEEKS * 7 - 3), breaks: [], sessions: [], visible: true });
+  };
+
+  const update = (change: Partial<Semester>) => value && onChange({ ...value, ...change });
+
+  const updateSession = (id: string, change: Partial<ClassSession>) =>
+    value && update({ sessions: value.sessions.map((s) => (s.id === id ? { ...s, ...change } : s)) });
+
+  const addSession = () =>
+    value && update({
+      sessions: [...value.sessions, { id: Date.now().toString(), course: "", weekday: parseDateKey(value.start).getDay(), start: "09:30", end: "10:20" }]
+    });
+
+  const addPasted = () => {
+    if (!value) return;
+    const { sessions, badLines } = parseSessions(pasted);
+    if (sessions.length > 0) update({ sessions: [...value.sessions, ...sessions] });
+    if (badLines.length > 0) alert(t.badLines(badLines));
+    else setPasted("");
+  };
+
+  return (
+    <div
+      className="absolute inset-y-0 right-0 z-20 w-full sm:w-[28rem] bg-white dark:bg-[#0B0B0D] border-l border-black/10 dark:border-white/10 shadow-2xl flex flex-col animate-slideIn"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className="flex items-center justify-between px-6 py-4 border-b border-black/10 dark:border-white/10">
+        <h3 className="flex items-center gap-2 text-lg font-semibold text-[#1D1D1F] dark:text-white">
+          <GraduationCap size={20} className="text-[#5856D6]" />
+          {t.timetable}
+        </h3>
+        <button
+          onClick={onClose}
+          className="p-1.5 text-[#86868B] hover:bg-black/5 dark:hover:bg-white/10 rounded-lg transition-all duration-150"
+          title={t.close}
+        >
+          <X size={18} />
+        </button>
+      </div>
+
+      {!value ? (
+        <div className="flex-1 flex flex-col items-center justify-center text-center px-8 gap-4">
+          <p className="text-sm text-[#86868B] dark:text-white/60">{t.empty}</p>
+          <button
+            onClick={createSemester}
+            className="px-5 py-2.5 bg-[#5856D6] text-white rounded-lg font-medium hover:bg-[#5856D6]/90 transition-all duration-150"
+          >
+            {t.create}
+          </button>
+        </div>
+      ) : (
+        <div className="flex-1 overflow-y-auto px-6 py-4 space-y-5">
+          {/* Semester */}
+          <div className="space-y-3">
+            <div>
+              <label className={label} htmlFor="semester-name">{t.semesterName}</label>
+              <input
+                id="semester-name"
+                type="text"
+                value={value.name}
+                onChange={(e) => update({ name: e.target.value })}
+                placeholder={t.semesterPlaceholder}
+                className={`${field} w-full`}
+              />
+            </div>
+            <div className="flex gap-3">
+              <div className="flex-1">
+                <label className={label} htmlFor="semester-start">{t.start}</label>
+                <input
+                  id="semester-start"
+                  type="date"
+                  value={value.start}
+                  onChange={(e) => e.target.value && update({ start: e.target.value })}
+                  className={`${field} w-full`}
+                />
+              </div>
+              <div className="flex-1">
+                <label className={label} htmlFor="semester-end">{t.end}</label>
+                <input
+                  id="semester-end"
+                  type="date"
+                  value={value.end}
+                  min={value.start}
+                  onChange={(e) => e.target.value && update({ end: e.target.value })}
+                  className={`${field} w-full`}
+                />
+              </div>
+            </div>
+            <label className="flex items-center gap-2 text-sm text-[#1D1D1F] dark:text-white cursor-pointer">
+              <input
+                type="checkbox"
+                checked={value.visible}
+                onChange={(e) => update({ visible: e.target.checked })}
+                className="accent-[#5856D6]"
+              />
+              <Eye size={14} className="text-[#86868B]" />
+              {t.show}
+            </label>
+          </div>
+
+          {/* Breaks */}
+          <div>
+            <p className={label}><CalendarRange size={12} />{t.breaks}</p>
+            <div className="space-y-1.5">
+              {value.breaks.map((b, i) => (
+                <div key={i} className="group flex items-center gap-2 text-sm text-[#86868B]">
+                  <input
+                    type="date"
+                    value={b.from}
+                    min={value.start}
+                    max={value.end}
+                    onChange={(e) => e.target.value && update({ breaks: value.breaks.map((x, j) => (j === i ? { from: e.target.value, to: x.to < e.target.value ? e.target.value : x.to } : x)) })}
+                    className={field}
+                  />
+                  –
+                  <input
+                    type="date"
+                    value={b.to}
+                    min={b.from}
+                    max={value.end}
+                    onChange={(e) => e.target.value && update({ breaks: value.breaks.map((x, j) => (j === i ? { ...x, to: e.target.value } : x)) })}
+                    className={field}
+                  />
+                  <button
+                    onClick={() => update({ breaks: value.breaks.filter((_, j) => j !== i) })}
+                    className="p-1 text-[#FF375F] hover:bg-[#FF375F]/10 rounded transition-all duration-150"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              ))}
+            </div>
+            <button
+              onClick={() => update({ breaks: [...value.breaks, { from: value.start, to: addDaysToKey(value.start, 6) }] })}
+              className="mt-2 flex items-center gap-1 px-2 py-1 text-xs font-medium text-[#0A84FF] hover:bg-[#0A84FF]/10 rounded transition-all duration-150"
+            >
+              <Plus size={12} />
+              {t.addBreak}
+            </button>
+          </div>
+
+          {/* Sessions */}
+          <div>
+            <p className={label}><GraduationCap size={12} />{t.sessions}</p>
+            <div className="space-y-1.5">
+              {value.sessions.map((session) => (
+                <div key={session.id} className="flex items-center gap-1.5 flex-wrap">
+                  <input
+                    type="text"
+                    value={session.course}
+                    onChange={(e) => updateSession(session.id, { course: e.target.value })}
+                    placeholder={t.course}
+                    className={`${field} w-24 font-medium`}
+                  />
+                  <select
+                    value={session.weekday}
+                    onChange={(e) => updateSession(session.id, { weekday: Number(e.target.value) })}
+                    className={field}
+                  >
+                    {[1, 2, 3, 4, 5, 6, 0].map((d) => (
+                      <option key={d} value={d}>{weekdays[d]}</option>
+                    ))}
+                  </select>
+                  <input
+                    type="time"
+                    value={session.start}
+                    onChange={(e) => e.target.value && updateSession(session.id, { start: e.target.value })}
+                    className={field}
+                  />
+                  <input
+                    type="time"
+                    value={session.end}
+                    min={session.start}
+                    onChange={(e) => e.target.value > session.start && updateSession(session.id, { end: e.target.value })}
+                    className={field}
+                  />
+                  <div className="flex items-center gap-1 flex-1 min-w-[6rem]">
+                    <MapPin size={12} className="text-[#86868B] flex-shrink-0" />
+                    <input
+                      type="text"
+                      value={session.venue ?? ''}
+                      onChange={(e) => updateSession(session.id, { venue: e.target.value || undefined })}
+                      placeholder={t.venue}
+                      className={`${field} w-full`}
+                    />
+                  </div>
+                  <button
+                    onClick={() => update({ sessions: value.sessions.filter((s) => s.id !== session.id) })}
+                    className="p-1 text-[#FF375F] hover:bg-[#FF375F]/10 rounded transition-all duration-150"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              ))}
+            </div>
+            <button
+              onClick={addSession}
+              className="mt-2 flex items-center gap-1 px-2 py-1 text-xs font-medium text-[#0A84FF] hover:bg-[#0A84FF]/10 rounded transition-all duration-150"
+            >
+              <Plus size={12} />
+              {t.addSession}
+            </button>
+          </div>
+
+          {/* Paste */}
+          <div>
+            <label className={label} htmlFor="timetable-paste">{t.paste}</label>
+            <textarea
+              id="timetable-paste"
+              value={pasted}
+              onChange={(e) => setPasted(e.target.value)}
+              placeholder={t.pasteHint}
+              rows={4}
+              className={`${field} w-full font-mono text-xs resize-y`}
+            />
+            <button
+              onClick={addPasted}
+              disabled={!pasted.trim()}
+              className="mt-2 px-3 py-1.5 text-xs font-medium bg-[#5856D6] text-white rounded-lg hover:bg-[#5856D6]/90 disabled:opacity-40 disabled:cursor-not-allowed transition-all duration-150"
+            >
+              {t.addPasted}
+            </button>
+          </div>
+
+          <button
+            onClick={() => confirm(t.confirmRemove) && onChange(null)}
+            className="w-full px-3 py-2 text-sm font-medium text-[#FF375F] hover:bg-[#FF375F]/10 rounded-lg transition-all duration-150"
+          >
+            {t.remove}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
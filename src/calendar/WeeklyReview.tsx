@@ -0,0 +1,281 @@
+import React, { useState } from "react";
+import { ArrowRight, Check, ChevronLeft, ChevronRight, ClipboardCheck, Trash2, X } from "lucide-react";
+import { addDaysToKey, parseDateKey, toDateKey, toMinutes } from "./dates";
+import { expandTasks } from "./recurrence";
+import { taskRange } from "./TimeGrid";
+import { Semester, classesBetween } from "./timetable";
+import type { Category, Task, TaskOccurrence } from "./types";
+
+/**
+ * Weekly review — a short guided pass over the past week and the one ahead
+ * 1. What got done and what was missed, per category
+ * 2. Triage each missed task: done, today, next week, another day, or drop it
+ * 3. How loaded the next seven days are, counting tasks, scheduled hours and classes
+ * Weeks here are the seven days before today and the seven from today, whatever day the review happens on.
+ */
+
+const TRANSLATIONS = {
+  EN: {
+    review: "Weekly review",
+    steps: ["Last week", "Missed tasks", "Week ahead"],
+    back: "Back",
+    next: "Next",
+    finish: "Finish",
+    completedCount: (n: number) => `${n} done`,
+    missedCount: (n: number) => `${n} missed`,
+    nothingLastWeek: "Nothing was scheduled last week.",
+    allTriaged: "Nothing left to triage — every missed task has a plan.",
+    done: "Done",
+    today: "Today",
+    nextWeek: "Next week",
+    drop: "Drop",
+    reschedule: "Reschedule",
+    uncategorized: "No category",
+    tasks: (n: number) => `${n} task${n === 1 ? '' : 's'}`,
+    hours: (h: number) => `${h} h scheduled`,
+    classes: (n: number) => `${n} class${n === 1 ? '' : 'es'}`,
+    busy: "Busy",
+    free: "Free"
+  },
+  粵: {
+    review: "每週回顧",
+    steps: ["上星期", "未完成任務", "未來一星期"],
+    back: "上一步",
+    next: "下一步",
+    finish: "完成",
+    completedCount: (n: number) => `完成 ${n} 個`,
+    missedCount: (n: number) => `漏咗 ${n} 個`,
+    nothingLastWeek: "上星期冇安排任務。",
+    allTriaged: "全部未完成任務都處理好晒。",
+    done: "完成",
+    today: "今日",
+    nextWeek: "下星期",
+    drop: "放棄",
+    reschedule: "改期",
+    uncategorized: "未分類",
+    tasks: (n: number) => `${n} 個任務`,
+    hours: (h: number) => `已排 ${h} 個鐘`,
+    classes: (n: number) => `${n} 堂`,
+    busy: "忙",
+    free: "得閒"
+  }
+} as const;
+
+const REVIEW_DAYS = 7;
+
+// Scheduled hours past which a day is flagged as busy
+const BUSY_HOURS = 6;
+
+export default function WeeklyReview({
+  lang,
+  tasks,
+  categories,
+  timetable,
+  onComplete,
+  onMove,
+  onDrop,
+  onClose
+}: {
+  lang: "EN" | "粵";
+  tasks: Task[];
+  categories: Category[];
+  timetable: Semester | null;
+  onComplete: (task: TaskOccurrence) => void;
+  onMove: (task: TaskOccurrence, date: string) => void;
+  onDrop: (task: TaskOccurrence) => void;
+  onClose: () => void;
+}) {
+  const t = TRANSLATIONS[lang];
+  const locale = lang === "粵" ? "zh-HK" : "en-US";
+  const [step, setStep] = useState(0);
+
+  const today = toDateKey(new Date());
+  const lastWeek = expandTasks(tasks, addDaysToKey(today, -REVIEW_DAYS), addDaysToKey(today, -1));
+  const missed = lastWeek.filter((task) => !task.completed);
+  const weekAhead = Array.from({ length: REVIEW_DAYS }, (_, i) => addDaysToKey(today, i));
+  const aheadTasks = expandTasks(tasks, weekAhead[0], weekAhead[REVIEW_DAYS - 1]).filter((task) => !task.completed);
+  const aheadClasses = classesBetween(timetable, weekAhead[0], weekAhead[REVIEW_DAYS - 1]);
+
+  const formatDay = (date: string, options: Intl.DateTimeFormatOptions) => parseDateKey(date).toLocaleDateString(locale, options);
+  const categoryOf = (id?: string) => categories.find((c) => c.id === id);
+
+  // Last week per category, busiest first
+  const byCategory = [...categories.map((c) => c.id), undefined]
+    .map((id) => {
+      const items = lastWeek.filter((task) => (id ? task.categoryId === id : !categoryOf(task.categoryId)));
+      return { id, done: items.filter((task) => task.completed).length, missed: items.filter((task) => !task.completed).length };
+    })
+    .filter((row) => row.done + row.missed > 0)
+    .sort((a, b) => b.done + b.missed - (a.done + a.missed));
+
+  // Timed tasks and classes count towards a day's hours; all-day tasks only towards its task count
+  const load = weekAhead.map((date) => {
+    const dayTasks = aheadTasks.filter((task) => task.date === date);
+    const dayClasses = aheadClasses.filter((c) => c.date === date);
+    const minutes =
+      dayTasks.filter((task) => task.start).reduce((sum, task) => {
+        const { start, end } = taskRange(task);
+        return sum + end - start;
+      }, 0) +
+      dayClasses.reduce((sum, c) => sum + toMinutes(c.end) - toMinutes(c.start), 0);
+    return { date, tasks: dayTasks.length, classes: dayClasses.length, hours: Math.round((minutes / 60) * 10) / 10 };
+  });
+  const maxLoad = Math.max(1, ...load.map((day) => day.hours + day.tasks));
+
+  const actionButton = (label: React.ReactNode, onClick: () => void, color = "#0A84FF") => (
+    <button
+      onClick={onClick}
+      className="flex items-center gap-1 px-2 py-1 rounded text-xs font-medium transition-all duration-150 hover:opacity-80"
+      style={{ backgroundColor: `${color}15`, color }}
+    >
+      {label}
+    </button>
+  );
+
+  return (
+    <div
+      className="absolute inset-y-0 right-0 z-20 w-full sm:w-[30rem] bg-white dark:bg-[#0B0B0D] border-l border-black/10 dark:border-white/10 shadow-2xl flex flex-col animate-slideIn"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className="flex items-center justify-between px-6 py-4 border-b border-black/10 dark:border-white/10">
+        <h3 className="flex items-center gap-2 text-lg font-semibold text-[#1D1D1F] dark:text-white">
+          <ClipboardCheck size={20} className="text-[#30D158]" />
+          {t.review}
+        </h3>
+        <button
+          onClick={onClose}
+          className="p-1.5 text-[#86868B] hover:bg-black/5 dark:hover:bg-white/10 rounded-lg transition-all duration-150"
+        >
+          <X size={18} />
+        </button>
+      </div>
+
+      {/* Steps */}
+      <div className="flex gap-1 px-6 pt-4">
+        {t.steps.map((name, i) => (
+          <button
+            key={name}
+            onClick={() => setStep(i)}
+            className={`flex-1 pb-2 border-b-2 text-xs font-semibold transition-all duration-150 ${
+              i === step ? 'border-[#0A84FF] text-[#0A84FF]' : 'border-black/10 dark:border-white/10 text-[#86868B] dark:text-white/60'
+            }`}
+          >
+            {i + 1}. {name}
+            {i === 1 && missed.length > 0 && ` (${missed.length})`}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-6 py-4">
+        {step === 0 && (
+          <div className="space-y-3">
+            <p className="text-xs text-[#86868B] dark:text-white/60">
+              {formatDay(addDaysToKey(today, -REVIEW_DAYS), { month: 'short', day: 'numeric' })} – {formatDay(addDaysToKey(today, -1), { month: 'short', day: 'numeric' })}
+            </p>
+            {byCategory.length === 0 && <p className="text-sm text-[#86868B] dark:text-white/60">{t.nothingLastWeek}</p>}
+            {byCategory.map(({ id, done, missed: missedCount }) => {
+              const category = categoryOf(id);
+              const total = done + missedCount;
+              return (
+                <div key={id ?? 'none'}>
+                  <div className="flex items-center justify-between text-sm mb-1">
+                    <span className="font-medium" style={{ color: category?.color ?? '#86868B' }}>{category?.name ?? t.uncategorized}</span>
+                    <span className="text-xs text-[#86868B] dark:text-white/60">
+                      <span className="text-[#30D158]">{t.completedCount(done)}</span>
+                      {missedCount > 0 && <> · <span className="text-[#FF375F]">{t.missedCount(missedCount)}</span></>}
+                    </span>
+                  </div>
+                  <div className="h-2 flex rounded-full overflow-hidden bg-black/5 dark:bg-white/10">
+                    <div className="bg-[#30D158]" style={{ width: `${(done / total) * 100}%` }} />
+                    <div className="bg-[#FF375F]" style={{ width: `${(missedCount / total) * 100}%` }} />
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {step === 1 && (
+          <div className="space-y-2">
+            {missed.length === 0 && <p className="text-sm text-[#86868B] dark:text-white/60">{t.allTriaged}</p>}
+            {missed.map((task) => {
+              const category = categoryOf(task.categoryId);
+              return (
+                <div key={`${task.id}-${task.occurrenceDate ?? ''}`} className="p-3 rounded-lg bg-[#F5F5F7] dark:bg-[#1C1C1E] space-y-2">
+                  <div className="flex items-center gap-2 text-sm">
+                    <span className="w-2 h-2 rounded-full flex-shrink-0" style={{ backgroundColor: category?.color ?? '#86868B' }} />
+                    <span className="flex-1 min-w-0 truncate text-[#1D1D1F] dark:text-white">{task.title}</span>
+                    <span className="text-xs text-[#86868B] dark:text-white/60">{formatDay(task.date, { weekday: 'short', month: 'short', day: 'numeric' })}</span>
+                  </div>
+                  <div className="flex items-center gap-1.5 flex-wrap">
+                    {actionButton(<><Check size={12} />{t.done}</>, () => onComplete(task), "#30D158")}
+                    {actionButton(<><ArrowRight size={12} />{t.today}</>, () => onMove(task, today))}
+                    {actionButton(t.nextWeek, () => onMove(task, addDaysToKey(today, REVIEW_DAYS)))}
+                    <input
+                      type="date"
+                      value=""
+                      min={today}
+                      onChange={(e) => e.target.value && onMove(task, e.target.value)}
+                      className="px-2 py-0.5 bg-white dark:bg-[#2C2C2E] rounded text-xs text-[#1D1D1F] dark:text-white outline-none focus:ring-1 focus:ring-[#0A84FF]"
+                      aria-label={t.reschedule}
+                      title={t.reschedule}
+                    />
+                    <div className="flex-1" />
+                    {actionButton(<><Trash2 size={12} />{t.drop}</>, () => onDrop(task), "#FF375F")}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {step === 2 && (
+          <div className="space-y-2">
+            {load.map((day) => {
+              const busy = day.hours >= BUSY_HOURS;
+              return (
+                <div key={day.date} className="flex items-center gap-3">
+                  <span className="w-20 flex-shrink-0 text-xs font-medium text-[#1D1D1F] dark:text-white">
+                    {day.date === today ? t.today : formatDay(day.date, { weekday: 'short', day: 'numeric' })}
+                  </span>
+                  <div className="flex-1 min-w-0">
+                    <div className="h-2 rounded-full bg-black/5 dark:bg-white/10 overflow-hidden">
+                      <div
+                        className="h-full rounded-full"
+                        style={{ width: `${((day.hours + day.tasks) / maxLoad) * 100}%`, backgroundColor: busy ? '#FF375F' : '#0A84FF' }}
+                      />
+                    </div>
+                    <p className="text-[11px] text-[#86868B] dark:text-white/60 mt-0.5">
+                      {[t.tasks(day.tasks), day.hours > 0 && t.hours(day.hours), day.classes > 0 && t.classes(day.classes)].filter(Boolean).join(' · ')}
+                    </p>
+                  </div>
+                  <span className={`text-[11px] font-semibold ${busy ? 'text-[#FF375F]' : day.tasks + day.classes === 0 ? 'text-[#30D158]' : 'text-transparent'}`}>
+                    {busy ? t.busy : t.free}
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      <div className="flex items-center justify-between px-6 py-4 border-t border-black/10 dark:border-white/10">
+        <button
+          onClick={() => setStep(step - 1)}
+          disabled={step === 0}
+          className="flex items-center gap-1 px-3 py-1.5 text-sm font-medium text-[#86868B] dark:text-white/60 hover:bg-black/5 dark:hover:bg-white/10 rounded-lg disabled:opacity-0 transition-all duration-150"
+        >
+          <ChevronLeft size={16} />
+          {t.back}
+        </button>
+        <button
+          onClick={() => (step < t.steps.length - 1 ? setStep(step + 1) : onClose())}
+          className="flex items-center gap-1 px-4 py-1.5 text-sm font-medium bg-[#0A84FF] text-white rounded-lg hover:bg-[#0A84FF]/90 transition-all duration-150"
+        >
+          {step < t.steps.length - 1 ? t.next : t.finish}
+          {step < t.steps.length - 1 && <ChevronRight size={16} />}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,167 @@
+import React, { useState } from "react";
+import { Flame } from "lucide-react";
+import { WeekStart, addDaysToKey, parseDateKey, startOfWeek, toDateKey, weekdayNames } from "./dates";
+import type { Priority, TaskOccurrence } from "./types";
+
+/**
+ * Year view — all twelve months as a heatmap of each day's task load
+ * - Load is the number of tasks, or the tasks weighted by priority (high 3, medium 2, low or none 1)
+ * - Shades are relative to the year's busiest day, in four steps
+ * - The busiest week is called out, to spot crunch weeks such as exams
+ */
+
+const TRANSLATIONS = {
+  EN: {
+    count: "Task count",
+    weighted: "By priority",
+    less: "Less",
+    more: "More",
+    load: (count: number, weight: number) => `${count} task${count === 1 ? '' : 's'}${weight !== count ? ` · weight ${weight}` : ''}`,
+    busiestWeek: (range: string, count: number) => `Busiest week: ${range} · ${count} task${count === 1 ? '' : 's'}`
+  },
+  粵: {
+    count: "任務數量",
+    weighted: "按優先次序",
+    less: "少",
+    more: "多",
+    load: (count: number, weight: number) => `${count} 個任務${weight !== count ? ` · 比重 ${weight}` : ''}`,
+    busiestWeek: (range: string, count: number) => `最忙嘅一週：${range} · ${count} 個任務`
+  }
+} as const;
+
+type HeatMode = "count" | "weighted";
+
+const PRIORITY_WEIGHTS: Record<Priority, number> = { high: 3, medium: 2, low: 1 };
+
+const MODE_COLORS: Record<HeatMode, string> = { count: "#0A84FF", weighted: "#FF375F" };
+
+// Hex alpha for shades 1–4
+const SHADES = ["", "33", "66", "AA", "FF"];
+
+const weightOf = (task: TaskOccurrence) => (task.priority ? PRIORITY_WEIGHTS[task.priority] : 1);
+
+export default function YearHeatmap({
+  lang,
+  year,
+  tasks,
+  selectedDate,
+  weekStart,
+  onSelectDate
+}: {
+  lang: "EN" | "粵";
+  year: number;
+  tasks: TaskOccurrence[]; // occurrences within the year
+  selectedDate: Date;
+  weekStart: WeekStart;
+  onSelectDate: (date: Date) => void;
+}) {
+  const t = TRANSLATIONS[lang];
+  const locale = lang === "粵" ? "zh-HK" : "en-US";
+  const [mode, setMode] = useState<HeatMode>("count");
+  const todayKey = toDateKey(new Date());
+  const selectedKey = toDateKey(selectedDate);
+  const color = MODE_COLORS[mode];
+
+  const counts = new Map<string, number>();
+  const weights = new Map<string, number>();
+  tasks.forEach((task) => {
+    counts.set(task.date, (counts.get(task.date) ?? 0) + 1);
+    weights.set(task.date, (weights.get(task.date) ?? 0) + weightOf(task));
+  });
+  const loads = mode === "count" ? counts : weights;
+  const max = Math.max(1, ...loads.values());
+  const shadeOf = (date: string) => {
+    const load = loads.get(date) ?? 0;
+    return load === 0 ? 0 : Math.ceil((load / max) * 4);
+  };
+
+  // Weeks that start in the year, by the chosen first day of the week
+  let busiest: { from: string; count: number } | null = null;
+  for (let from = toDateKey(startOfWeek(new Date(year, 0, 1), weekStart)); from <= `${year}-12-31`; from = addDaysToKey(from, 7)) {
+    let count = 0;
+    for (let i = 0; i < 7; i++) count += counts.get(addDaysToKey(from, i)) ?? 0;
+    if (count > 0 && (!busiest || count > busiest.count)) busiest = { from, count };
+  }
+  const formatDay = (date: string) => parseDateKey(date).toLocaleDateString(locale, { month: 'short', day: 'numeric' });
+
+  const weekdays = weekdayNames(locale, weekStart, "narrow");
+
+  return (
+    <div className="space-y-4">
+      {/* Mode and legend */}
+      <div className="flex items-center justify-between gap-3 flex-wrap text-xs">
+        <div className="flex gap-1 bg-[#F5F5F7] dark:bg-[#1C1C1E] rounded-lg p-0.5">
+          {(["count", "weighted"] as HeatMode[]).map((m) => (
+            <button
+              key={m}
+              onClick={() => setMode(m)}
+              className={`px-2.5 py-1 rounded-md font-medium transition-all duration-150 ${
+                mode === m
+                  ? 'bg-white dark:bg-[#2C2C2E] text-[#1D1D1F] dark:text-white shadow-sm'
+                  : 'text-[#86868B] dark:text-white/60 hover:text-[#1D1D1F] dark:hover:text-white'
+              }`}
+              aria-pressed={mode === m}
+            >
+              {m === "count" ? t.count : t.weighted}
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center gap-1 text-[#86868B] dark:text-white/60">
+          {t.less}
+          {SHADES.map((alpha, shade) => (
+            <span
+              key={shade}
+              className={`w-2.5 h-2.5 rounded-[3px] ${shade === 0 ? 'bg-[#F5F5F7] dark:bg-white/5' : ''}`}
+              style={shade > 0 ? { backgroundColor: `${color}${alpha}` } : undefined}
+            />
+          ))}
+          {t.more}
+        </div>
+      </div>
+
+      {busiest && (
+        <p className="flex items-center gap-1.5 text-xs font-medium text-[#FF375F]">
+          <Flame size={14} />
+          {t.busiestWeek(`${formatDay(busiest.from)} – ${formatDay(addDaysToKey(busiest.from, 6))}`, busiest.count)}
+        </p>
+      )}
+
+      {/* Months */}
+      <div className="grid grid-cols-2 sm:grid-cols-3 gap-x-4 gap-y-5">
+        {Array.from({ length: 12 }, (_, month) => {
+          const offset = (new Date(year, month, 1).getDay() - weekStart + 7) % 7;
+          const days = new Date(year, month + 1, 0).getDate();
+          return (
+            <div key={month}>
+              <p className="text-xs font-semibold text-[#1D1D1F] dark:text-white mb-1.5">
+                {new Date(year, month, 1).toLocaleDateString(locale, { month: 'long' })}
+              </p>
+              <div className="grid grid-cols-7 gap-[3px]">
+                {weekdays.map((day, i) => (
+                  <span key={i} className="text-[9px] text-center text-[#86868B] dark:text-white/40 leading-none pb-0.5">{day}</span>
+                ))}
+                {Array.from({ length: offset }, (_, i) => <span key={`blank-${i}`} />)}
+                {Array.from({ length: days }, (_, i) => {
+                  const date = new Date(year, month, i + 1);
+                  const key = toDateKey(date);
+                  const shade = shadeOf(key);
+                  return (
+                    <button
+                      key={key}
+                      onClick={() => onSelectDate(date)}
+                      className={`aspect-square rounded-[3px] transition-all duration-150 hover:scale-125 ${
+                        shade === 0 ? 'bg-[#F5F5F7] dark:bg-white/5' : ''
+                      } ${key === selectedKey ? 'ring-2 ring-[#0A84FF]' : key === todayKey ? 'ring-1 ring-[#FF9F0A]' : ''}`}
+                      style={shade > 0 ? { backgroundColor: `${color}${SHADES[shade]}` } : undefined}
+                      title={`${date.toLocaleDateString(locale, { weekday: 'short', month: 'short', day: 'numeric' })}: ${t.load(counts.get(key) ?? 0, weights.get(key) ?? 0)}`}
+                    />
+                  );
+                })}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+/**
+ * Calendar date helpers
+ * - Dates without a time are "YYYY-MM-DD" keys in local time, as stored on tasks
+ */
+
+export const toDateKey = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+export const parseDateKey = (key: string) => {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+export const addDays = (date: Date, days: number) =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+export const addDaysToKey = (key: string, days: number) => toDateKey(addDays(parseDateKey(key), days));
+
+export const daysInMonth = (year: number, month: number) => new Date(year, month + 1, 0).getDate();
+
+// Times of day are "HH:MM" strings in local time
+export const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+export const fromMinutes = (minutes: number) =>
+  `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+
+export const formatTime = (time: string, locale: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return new Date(2000, 0, 1, hours, minutes).toLocaleTimeString(locale, { hour: 'numeric', minute: '2-digit' });
+};
+
+// A length of time in minutes, e.g. "45m" or "1.5h"
+export const formatDuration = (minutes: number) =>
+  minutes >= 60 ? `${Math.round((minutes / 60) * 10) / 10}h` : `${minutes}m`;
+
+// The first day of the week: 0 for Sunday, 1 for Monday, as Date.getDay()
+export type WeekStart = 0 | 1;
+
+export const startOfWeek = (date: Date, weekStart: WeekStart = 0) => addDays(date, -((date.getDay() - weekStart + 7) % 7));
+
+// Weekday names in display order, from Intl; 4 January 2026 was a Sunday
+export const weekdayNames = (locale: string, weekStart: WeekStart, format: "short" | "long" | "narrow" = "short") =>
+  Array.from({ length: 7 }, (_, i) => new Date(2026, 0, 4 + weekStart + i).toLocaleDateString(locale, { weekday: format }));
@@ -0,0 +1,106 @@
+import { WeekStart, addDaysToKey, parseDateKey, startOfWeek, toDateKey } from "./dates";
+import type { Priority, TaskOccurrence } from "./types";
+
+/**
+ * Task filters and smart lists
+ * - A filter combines text search, a date range, statuses, categories and priorities; empty parts match everything
+ * - Relative ranges ("this week") are worked out again each day, so a saved list stays current
+ * - Smart lists are named filters kept in localStorage
+ */
+
+export type TaskStatus = "pending" | "overdue" | "completed";
+
+export type DateRange = "any" | "today" | "thisWeek" | "next7Days" | "thisMonth" | "custom";
+
+export type TaskFilter = {
+  query: string;
+  range: DateRange;
+  from?: string; // YYYY-MM-DD, for custom ranges
+  to?: string;
+  statuses: TaskStatus[];
+  categoryIds: string[];
+  priorities: Priority[];
+};
+
+export type SmartList = {
+  id: string;
+  name: string;
+  filter: TaskFilter;
+};
+
+export const EMPTY_FILTER: TaskFilter = { query: "", range: "any", statuses: [], categoryIds: [], priorities: [] };
+
+const SMART_LISTS_KEY = "calendar_smart_lists";
+
+export const isFilterEmpty = (filter: TaskFilter) =>
+  !filter.query.trim() &&
+  filter.range === "any" &&
+  filter.statuses.length === 0 &&
+  filter.categoryIds.length === 0 &&
+  filter.priorities.length === 0;
+
+export const sameFilter = (a: TaskFilter, b: TaskFilter) => JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * The first and last day a filter covers; either is missing when open-ended.
+ */
+export function filterDates(filter: TaskFilter, today: string, weekStart: WeekStart = 0): { from?: string; to?: string } {
+  switch (filter.range) {
+    case "today":
+      return { from: today, to: today };
+    case "thisWeek": {
+      const from = toDateKey(startOfWeek(parseDateKey(today), weekStart));
+      return { from, to: addDaysToKey(from, 6) };
+    }
+    case "next7Days":
+      return { from: today, to: addDaysToKey(today, 6) };
+    case "thisMonth": {
+      const date = parseDateKey(today);
+      return {
+        from: toDateKey(new Date(date.getFullYear(), date.getMonth(), 1)),
+        to: toDateKey(new Date(date.getFullYear(), date.getMonth() + 1, 0)),
+      };
+    }
+    case "custom":
+      return { from: filter.from || undefined, to: filter.to || undefined };
+    default:
+      return {};
+  }
+}
+
+export const statusOf = (task: TaskOccurrence, today: string): TaskStatus =>
+  task.completed ? "completed" : task.date < today ? "overdue" : "pending";
+
+// Every word has to appear somewhere in the title, notes or subtasks
+const matchesQuery = (task: TaskOccurrence, query: string) => {
+  const text = [task.title, task.notes ?? "", ...(task.subtasks ?? []).map((s) => s.title)].join("\n").toLowerCase();
+  return query.toLowerCase().split(/\s+/).filter(Boolean).every((word) => text.includes(word));
+};
+
+export function matchesFilter(task: TaskOccurrence, filter: TaskFilter, today: string, weekStart: WeekStart = 0): boolean {
+  const { from, to } = filterDates(filter, today, weekStart);
+  if (from && task.date < from) return false;
+  if (to && task.date > to) return false;
+  if (filter.statuses.length > 0 && !filter.statuses.includes(statusOf(task, today))) return false;
+  if (filter.categoryIds.length > 0 && !filter.categoryIds.includes(task.categoryId ?? "")) return false;
+  if (filter.priorities.length > 0 && (!task.priority || !filter.priorities.includes(task.priority))) return false;
+  return matchesQuery(task, filter.query);
+}
+
+export function loadSmartLists(): SmartList[] {
+  try {
+    const saved = localStorage.getItem(SMART_LISTS_KEY);
+    if (saved) return JSON.parse(saved);
+  } catch (error) {
+    console.error('Failed to load smart lists:', error);
+  }
+  return [];
+}
+
+export function saveSmartLists(lists: SmartList[]) {
+  try {
+    localStorage.setItem(SMART_LISTS_KEY, JSON.stringify(lists));
+  } catch (error) {
+    console.error('Failed to save smart lists:', error);
+  }
+}
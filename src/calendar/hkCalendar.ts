@@ -0,0 +1,182 @@
+/**
+ * Hong Kong general holidays and lunar dates, without the network
+ * - Holidays are the gazetted general holidays, including the "day following" substitutes when one falls on a Sunday,
+ *   bundled for 2024–2027; the table needs extending when the next year's holidays are gazetted
+ * - Years outside the table have no holiday data, which the calendar says rather than showing no holidays
+ * - Lunar dates come from the browser's Chinese calendar (Intl), so they cover any year
+ */
+
+type HolidayName = { EN: string; 粵: string };
+
+const NEW_YEAR: HolidayName = { EN: "New Year's Day", 粵: "一月一日" };
+const LNY_1: HolidayName = { EN: "Lunar New Year's Day", 粵: "農曆年初一" };
+const LNY_2: HolidayName = { EN: "Second day of Lunar New Year", 粵: "農曆年初二" };
+const LNY_3: HolidayName = { EN: "Third day of Lunar New Year", 粵: "農曆年初三" };
+const LNY_4: HolidayName = { EN: "Fourth day of Lunar New Year", 粵: "農曆年初四" };
+const CHING_MING: HolidayName = { EN: "Ching Ming Festival", 粵: "清明節" };
+const AFTER_CHING_MING: HolidayName = { EN: "Day following Ching Ming Festival", 粵: "清明節翌日" };
+const GOOD_FRIDAY: HolidayName = { EN: "Good Friday", 粵: "耶穌受難節" };
+const AFTER_GOOD_FRIDAY: HolidayName = { EN: "Day following Good Friday", 粵: "耶穌受難節翌日" };
+const EASTER_MONDAY: HolidayName = { EN: "Easter Monday", 粵: "復活節星期一" };
+const AFTER_EASTER_MONDAY: HolidayName = { EN: "Day following Easter Monday", 粵: "復活節星期一翌日" };
+const LABOUR_DAY: HolidayName = { EN: "Labour Day", 粵: "勞動節" };
+const BUDDHA: HolidayName = { EN: "Birthday of the Buddha", 粵: "佛誕" };
+const AFTER_BUDDHA: HolidayName = { EN: "Day following the Birthday of the Buddha", 粵: "佛誕翌日" };
+const TUEN_NG: HolidayName = { EN: "Tuen Ng Festival", 粵: "端午節" };
+const HKSAR_DAY: HolidayName = { EN: "HKSAR Establishment Day", 粵: "香港特別行政區成立紀念日" };
+const AFTER_MID_AUTUMN: HolidayName = { EN: "Day following Mid-Autumn Festival", 粵: "中秋節翌日" };
+const NATIONAL_DAY: HolidayName = { EN: "National Day", 粵: "國慶日" };
+const CHUNG_YEUNG: HolidayName = { EN: "Chung Yeung Festival", 粵: "重陽節" };
+const AFTER_CHUNG_YEUNG: HolidayName = { EN: "Day following Chung Yeung Festival", 粵: "重陽節翌日" };
+const CHRISTMAS: HolidayName = { EN: "Christmas Day", 粵: "聖誕節" };
+const AFTER_CHRISTMAS: HolidayName = { EN: "First weekday after Christmas Day", 粵: "聖誕節後第一個工作日" };
+
+const HOLIDAYS: Record<string, HolidayName> = {
+  // 2024
+  "2024-01-01": NEW_YEAR,
+  "2024-02-10": LNY_1,
+  "2024-02-12": LNY_3,
+  "2024-02-13": LNY_4,
+  "2024-03-29": GOOD_FRIDAY,
+  "2024-03-30": AFTER_GOOD_FRIDAY,
+  "2024-04-01": EASTER_MONDAY,
+  "2024-04-04": CHING_MING,
+  "2024-05-01": LABOUR_DAY,
+  "2024-05-15": BUDDHA,
+  "2024-06-10": TUEN_NG,
+  "2024-07-01": HKSAR_DAY,
+  "2024-09-18": AFTER_MID_AUTUMN,
+  "2024-10-01": NATIONAL_DAY,
+  "2024-10-11": CHUNG_YEUNG,
+  "2024-12-25": CHRISTMAS,
+  "2024-12-26": AFTER_CHRISTMAS,
+  // 2025
+  "2025-01-01": NEW_YEAR,
+  "2025-01-29": LNY_1,
+  "2025-01-30": LNY_2,
+  "2025-01-31": LNY_3,
+  "2025-04-04": CHING_MING,
+  "2025-04-18": GOOD_FRIDAY,
+  "2025-04-19": AFTER_GOOD_FRIDAY,
+  "2025-04-21": EASTER_MONDAY,
+  "2025-05-01": LABOUR_DAY,
+  "2025-05-05": BUDDHA,
+  "2025-05-31": TUEN_NG,
+  "2025-07-01": HKSAR_DAY,
+  "2025-10-01": NATIONAL_DAY,
+  "2025-10-07": AFTER_MID_AUTUMN,
+  "2025-10-29": CHUNG_YEUNG,
+  "2025-12-25": CHRISTMAS,
+  "2025-12-26": AFTER_CHRISTMAS,
+  // 2026
+  "2026-01-01": NEW_YEAR,
+  "2026-02-17": LNY_1,
+  "2026-02-18": LNY_2,
+  "2026-02-19": LNY_3,
+  "2026-04-03": GOOD_FRIDAY,
+  "2026-04-04": AFTER_GOOD_FRIDAY,
+  "2026-04-06": AFTER_CHING_MING,
+  "2026-04-07": AFTER_EASTER_MONDAY,
+  "2026-05-01": LABOUR_DAY,
+  "2026-05-25": AFTER_BUDDHA,
+  "2026-06-19": TUEN_NG,
+  "2026-07-01": HKSAR_DAY,
+  "2026-09-26": AFTER_MID_AUTUMN,
+  "2026-10-01": NATIONAL_DAY,
+  "2026-10-19": AFTER_CHUNG_YEUNG,
+  "2026-12-25": CHRISTMAS,
+  "2026-12-26": AFTER_CHRISTMAS,
+  // 2027
+  "2027-01-01": NEW_YEAR,
+  "2027-02-08": LNY_2,
+  "2027-02-09": LNY_3,
+  "2027-02-10": LNY_4,
+  "2027-03-26": GOOD_FRIDAY,
+  "2027-03-27": AFTER_GOOD_FRIDAY,
+  "2027-03-29": EASTER_MONDAY,
+  "2027-04-05": CHING_MING,
+  "2027-05-01": LABOUR_DAY,
+  "2027-05-13": BUDDHA,
+  "2027-06-09": TUEN_NG,
+  "2027-07-01": HKSAR_DAY,
+  "2027-09-16": AFTER_MID_AUTUMN,
+  "2027-10-01": NATIONAL_DAY,
+  "2027-10-08": CHUNG_YEUNG,
+  "2027-12-25": CHRISTMAS,
+  "2027-12-27": AFTER_CHRISTMAS,
+};
+
+const HOLIDAY_YEARS = Object.keys(HOLIDAYS).map((date) => parseInt(date, 10));
+export const FIRST_HOLIDAY_YEAR = Math.min(...HOLIDAY_YEARS);
+export const LAST_HOLIDAY_YEAR = Math.max(...HOLIDAY_YEARS);
+
+/**
+ * Whether the bundled table has the general holidays of a year.
+ */
+export const hasHolidays = (year: number) => year >= FIRST_HOLIDAY_YEAR && year <= LAST_HOLIDAY_YEAR;
+
+/**
+ * The general holiday on a day, in the given language, if any.
+ */
+export const holidayOn = (date: string, lang: "EN" | "粵"): string | undefined => HOLIDAYS[date]?.[lang];
+
+// ---- Lunar dates -----------------------------------------------------------------
+
+export type LunarDate = {
+  month: number; // 1–12
+  leap: boolean;
+  day: number; // 1–30
+};
+
+// Numeric parts; a leap month comes out as e.g. "6bis"
+const CHINESE_CALENDAR = new Intl.DateTimeFormat("en-u-ca-chinese", { month: "numeric", day: "numeric", timeZone: "UTC" });
+const hasChineseCalendar = CHINESE_CALENDAR.resolvedOptions().calendar === "chinese";
+
+/**
+ * The lunar date of a day, or null where the browser has no Chinese calendar.
+ */
+export function lunarDate(date: string): LunarDate | null {
+  if (!hasChineseCalendar) return null;
+  const parts = CHINESE_CALENDAR.formatToParts(Date.UTC(+date.slice(0, 4), +date.slice(5, 7) - 1, +date.slice(8)));
+  const month = parts.find((part) => part.type === "month")?.value ?? "";
+  const day = parts.find((part) => part.type === "day")?.value ?? "";
+  return { month: parseInt(month, 10), leap: /\D/.test(month), day: parseInt(day, 10) };
+}
+
+const DIGITS = ["", "一", "二", "三", "四", "五", "六", "七", "八", "九", "十"];
+const MONTH_NAMES = ["", "正", "二", "三", "四", "五", "六", "七", "八", "九", "十", "冬", "臘"];
+
+export const lunarDayName = (day: number) =>
+  day <= 10 ? `初${DIGITS[day]}` : day < 20 ? `十${DIGITS[day - 10]}` : day === 20 ? "二十" : day < 30 ? `廿${DIGITS[day - 20]}` : "三十";
+
+export const lunarMonthName = (lunar: LunarDate) => `${lunar.leap ? "閏" : ""}${MONTH_NAMES[lunar.month]}月`;
+
+/**
+ * What a calendar cell shows for a day: the month on the 1st (初一), otherwise the day, e.g. 十五.
+ */
+export function lunarLabel(date: string): string | undefined {
+  const lunar = lunarDate(date);
+  if (!lunar) return undefined;
+  return lunar.day === 1 ? lunarMonthName(lunar) : lunarDayName(lunar.day);
+}
+
+// ---- Setting ---------------------------------------------------------------------
+
+const HK_OVERLAY_KEY = "calendar_hk_overlay";
+
+export function loadHkOverlay(): boolean {
+  try {
+    return localStorage.getItem(HK_OVERLAY_KEY) === "1";
+  } catch (error) {
+    console.error('Failed to load holiday overlay setting:', error);
+  }
+  return false;
+}
+
+export function saveHkOverlay(on: boolean) {
+  try {
+    localStorage.setItem(HK_OVERLAY_KEY, on ? "1" : "0");
+  } catch (error) {
+    console.error('Failed to save holiday overlay setting:', error);
+  }
+}
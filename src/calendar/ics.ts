@@ -0,0 +1,429 @@
+import { addDaysToKey, fromMinutes, parseDateKey, toDateKey, toMinutes } from "./dates";
+import { parseRRule, toRRule } from "./recurrence";
+import type { Category, OccurrenceOverride, Priority, Task } from "./types";
+
+/**
+ * iCalendar (.ics, RFC 5545) import and export
+ * - VEVENT and VTODO become tasks on their start (or due) date; CATEGORIES pick or create a category
+ * - DATE values make all-day tasks, DATE-TIME values timed ones with a start and end
+ * - RRULE, EXDATE and RECURRENCE-ID instances map to repeating tasks and their overrides; a rule the app can't
+ *   repeat (e.g. YEARLY) imports as its first occurrence only, and the import counts those
+ * - DESCRIPTION and PRIORITY carry a task's notes and priority
+ * - Re-importing a file updates the tasks with the same UID instead of adding duplicates
+ * - Export writes VEVENTs (all-day or in UTC), which Google Calendar, Outlook and Apple Calendar all accept
+ */
+
+const PRODID = "-//BA14//Calendar + To-Do//EN";
+
+// Completion has no VEVENT property, so it travels as an extension other apps ignore
+const COMPLETED_PROPERTY = "X-BA14-COMPLETED";
+
+// PRIORITY runs 1 (highest) to 9 (lowest); 0 means none
+const ICS_PRIORITY: Record<Priority, number> = { high: 1, medium: 5, low: 9 };
+
+const priorityFromIcs = (value?: string): Priority | undefined => {
+  const level = Number(value);
+  if (!level || level < 1 || level > 9) return undefined;
+  return level < 5 ? "high" : level === 5 ? "medium" : "low";
+};
+
+// Colors for categories created by an import, in turn
+const IMPORT_COLORS = ["#0A84FF", "#30D158", "#FF9F0A", "#FF375F", "#5856D6", "#64D2FF", "#BF5AF2"];
+
+export class IcsParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "IcsParseError";
+  }
+}
+
+type Property = {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+};
+
+type Component = {
+  type: string;
+  properties: Property[];
+};
+
+const first = (component: Component, name: string) => component.properties.find((p) => p.name === name);
+
+export type IcsItem = {
+  uid: string;
+  title: string;
+  date: string;
+  start?: string;
+  end?: string;
+  completed: boolean;
+  categories: string[];
+  notes?: string;
+  priority?: Priority;
+  recurrence?: Task["recurrence"];
+  unsupportedRule: boolean; // has an RRULE the app can't represent, so only the first occurrence comes in
+  exdates: string[];
+  recurrenceId?: string; // set on an instance that changes one occurrence of a series
+  cancelled: boolean;
+};
+
+// ---- Parsing ----------------------------------------------------------------
+
+// Long lines are folded onto continuation lines that start with a space or tab
+const unfold = (text: string) => text.replace(/\r\n?/g, "\n").replace(/\n[ \t]/g, "").split("\n");
+
+const unescapeText = (value: string) =>
+  value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === "n" || char === "N" ? "\n" : char));
+
+// Splits on a separator that isn't inside a quoted parameter value
+function splitOutsideQuotes(text: string, separator: string): string[] {
+  const parts: string[] = [];
+  let part = "";
+  let quoted = false;
+  for (const char of text) {
+    if (char === '"') quoted = !quoted;
+    if (char === separator && !quoted) {
+      parts.push(part);
+      part = "";
+    } else {
+      part += char;
+    }
+  }
+  parts.push(part);
+  return parts;
+}
+
+function parseProperty(line: string): Property | null {
+  // The value starts at the first colon outside a quoted parameter
+  let quoted = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') quoted = !quoted;
+    if (line[i] === ":" && !quoted) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon < 0) return null;
+
+  const [name, ...rawParams] = splitOutsideQuotes(line.slice(0, colon), ";");
+  const params: Record<string, string> = {};
+  for (const param of rawParams) {
+    const eq = param.indexOf("=");
+    if (eq > 0) params[param.slice(0, eq).toUpperCase()] = param.slice(eq + 1).replace(/^"|"$/g, "");
+  }
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+function parseComponents(text: string): Component[] {
+  const lines = unfold(text).filter((line) => line.trim());
+  if (!lines[0]?.trim().toUpperCase().startsWith("BEGIN:VCALENDAR")) {
+    throw new IcsParseError("Not an iCalendar file");
+  }
+
+  const components: Component[] = [];
+  const stack: Component[] = [];
+  for (const line of lines) {
+    const property = parseProperty(line);
+    if (!property) continue;
+    if (property.name === "BEGIN") {
+      stack.push({ type: property.value.trim().toUpperCase(), properties: [] });
+    } else if (property.name === "END") {
+      const component = stack.pop();
+      if (component) components.push(component);
+    } else {
+      stack[stack.length - 1]?.properties.push(property);
+    }
+  }
+  return components;
+}
+
+/**
+ * The local day and, for DATE-TIME values, time of day of a DATE or DATE-TIME value.
+ * UTC times are converted to local time; times with a TZID or none are read as wall-clock time.
+ */
+export function parseIcsDateTime(value: string): { date: string; time?: string } | null {
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/);
+  if (!match) return null;
+  const [, year, month, day, hour, minute, second, utc] = match;
+  if (hour === undefined) return { date: `${year}-${month}-${day}` };
+  if (utc) {
+    const local = new Date(Date.UTC(+year, +month - 1, +day, +hour, +minute, +(second ?? 0)));
+    return { date: toDateKey(local), time: fromMinutes(local.getHours() * 60 + local.getMinutes()) };
+  }
+  return { date: `${year}-${month}-${day}`, time: `${hour}:${minute}` };
+}
+
+export const parseIcsDate = (value: string) => parseIcsDateTime(value)?.date ?? null;
+
+// ISO 8601 durations as used by DURATION, e.g. PT1H30M or P1D
+function parseDurationMinutes(value: string): number | null {
+  const match = value.trim().match(/^P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:\d+S)?)?$/);
+  if (!match) return null;
+  const [, weeks, days, hours, minutes] = match.map((part) => Number(part ?? 0));
+  return ((weeks * 7 + days) * 24 + hours) * 60 + minutes;
+}
+
+// End time on the start's day; events running past midnight end at the end of the day
+function endTime(date: string, start: string, component: Component): string | undefined {
+  const dtend = first(component, component.type === "VTODO" ? "DUE" : "DTEND");
+  const duration = first(component, "DURATION");
+  let minutes: number | null = null;
+  if (dtend) {
+    const end = parseIcsDateTime(dtend.value);
+    if (end?.time) minutes = end.date === date ? toMinutes(end.time) : 24 * 60 - 1;
+  } else if (duration) {
+    const length = parseDurationMinutes(duration.value);
+    if (length !== null) minutes = Math.min(toMinutes(start) + length, 24 * 60 - 1);
+  }
+  return minutes !== null && minutes > toMinutes(start) ? fromMinutes(minutes) : undefined;
+}
+
+function toItem(component: Component, today: string): IcsItem | null {
+  const uid = first(component, "UID")?.value.trim();
+  const start = first(component, "DTSTART") ?? (component.type === "VTODO" ? first(component, "DUE") : undefined);
+  // Undated to-dos (reminder lists) land on the day they're imported
+  const when = start ? parseIcsDateTime(start.value) : component.type === "VTODO" ? { date: today } : null;
+  if (!uid || !when) return null;
+  const { date, time } = when;
+
+  const status = first(component, "STATUS")?.value.trim().toUpperCase();
+  const rrule = first(component, "RRULE");
+  const recurrenceId = first(component, "RECURRENCE-ID");
+  const recurrence = rrule ? parseRRule(rrule.value) ?? undefined : undefined;
+
+  return {
+    uid,
+    title: unescapeText(first(component, "SUMMARY")?.value ?? "").trim() || uid,
+    date,
+    ...(time && { start: time, end: endTime(date, time, component) }),
+    completed: status === "COMPLETED" || !!first(component, "COMPLETED") ||
+      first(component, COMPLETED_PROPERTY)?.value.trim().toUpperCase() === "TRUE",
+    categories: component.properties
+      .filter((p) => p.name === "CATEGORIES")
+      .flatMap((p) => p.value.split(/(?<!\\),/))
+      .map((name) => unescapeText(name).trim())
+      .filter(Boolean),
+    notes: unescapeText(first(component, "DESCRIPTION")?.value ?? "").trim() || undefined,
+    priority: priorityFromIcs(first(component, "PRIORITY")?.value),
+    recurrence,
+    unsupportedRule: !!rrule && !recurrence,
+    exdates: component.properties
+      .filter((p) => p.name === "EXDATE")
+      .flatMap((p) => p.value.split(","))
+      .map(parseIcsDate)
+      .filter((d): d is string => d !== null),
+    recurrenceId: recurrenceId ? parseIcsDate(recurrenceId.value) ?? undefined : undefined,
+    cancelled: status === "CANCELLED",
+  };
+}
+
+/**
+ * Events and to-dos in an .ics file. Throws IcsParseError for files that aren't iCalendar.
+ */
+export function parseIcs(text: string, today = toDateKey(new Date())): IcsItem[] {
+  return parseComponents(text)
+    .filter((c) => c.type === "VEVENT" || c.type === "VTODO")
+    .map((c) => toItem(c, today))
+    .filter((item): item is IcsItem => item !== null);
+}
+
+// ---- Merging into the task list ------------------------------------------------
+
+// Tasks created in the app get a UID when first exported, derived from their id
+export const taskUid = (task: Task) => task.uid ?? `${task.id}@ba14`;
+
+/**
+ * Adds imported items to the tasks, replacing tasks whose UID matches.
+ * Category names not seen before become new categories. `unsupported` counts series imported as a single task.
+ */
+export function mergeIcs(
+  tasks: Task[],
+  categories: Category[],
+  items: IcsItem[]
+): { tasks: Task[]; categories: Category[]; added: number; updated: number; unsupported: number } {
+  const stamp = Date.now();
+  const nextCategories = [...categories];
+  const categoryFor = (names: string[]) => {
+    if (names.length === 0) return undefined;
+    const name = names[0];
+    const existing = nextCategories.find((c) => c.name.toLowerCase() === name.toLowerCase());
+    if (existing) return existing.id;
+    const created: Category = {
+      id: `${stamp}-category-${nextCategories.length}`,
+      name,
+      color: IMPORT_COLORS[nextCategories.length % IMPORT_COLORS.length],
+    };
+    nextCategories.push(created);
+    return created.id;
+  };
+
+  const byUid = new Map(tasks.map((task) => [taskUid(task), task]));
+  const imported = new Map<string, Task>();
+  let added = 0;
+  let updated = 0;
+  let unsupported = 0;
+
+  // Whole events and series first, then the instances that change single occurrences
+  for (const item of items.filter((i) => !i.recurrenceId)) {
+    if (imported.has(item.uid)) continue;
+    const existing = byUid.get(item.uid);
+    if (existing) updated++;
+    else added++;
+    if (item.unsupportedRule) unsupported++;
+    const overrides: Record<string, OccurrenceOverride> = {};
+    for (const date of item.exdates) overrides[date] = { cancelled: true };
+    imported.set(item.uid, {
+      id: existing?.id ?? `${stamp}-${added + updated}`,
+      uid: item.uid,
+      title: item.title,
+      date: item.date,
+      ...(item.start && { start: item.start, end: item.end }),
+      completed: item.completed,
+      categoryId: categoryFor(item.categories) ?? existing?.categoryId,
+      ...(item.notes && { notes: item.notes }),
+      ...(item.priority && { priority: item.priority }),
+      // Not carried by iCalendar, so kept from the task being replaced
+      ...(existing?.due && { due: existing.due }),
+      ...(existing?.subtasks && { subtasks: existing.subtasks }),
+      ...(existing?.doing && !item.completed && { doing: true }),
+      ...(existing?.estimate && { estimate: existing.estimate }),
+      ...(existing?.workBlocks && { workBlocks: existing.workBlocks }),
+      ...(existing?.projectId && { projectId: existing.projectId, milestoneId: existing.milestoneId, blockedBy: existing.blockedBy }),
+      ...(item.recurrence && { recurrence: item.recurrence }),
+      ...(Object.keys(overrides).length > 0 && { overrides }),
+    });
+  }
+
+  for (const item of items.filter((i) => i.recurrenceId)) {
+    const series = imported.get(item.uid);
+    if (!series?.recurrence || !item.recurrenceId) continue;
+    const override: OccurrenceOverride = item.cancelled
+      ? { cancelled: true }
+      : {
+          ...(item.title !== series.title && { title: item.title }),
+          ...(item.date !== item.recurrenceId && { date: item.date }),
+          ...(item.start && (item.start !== series.start || item.end !== series.end) && { start: item.start, end: item.end }),
+          ...(item.completed && { completed: true }),
+        };
+    series.overrides = { ...series.overrides, [item.recurrenceId]: override };
+  }
+
+  const nextTasks = tasks.map((task) => imported.get(taskUid(task)) ?? task);
+  const existingUids = new Set(tasks.map(taskUid));
+  imported.forEach((task, uid) => {
+    if (!existingUids.has(uid)) nextTasks.push(task);
+  });
+
+  return { tasks: nextTasks, categories: nextCategories, added, updated, unsupported };
+}
+
+// ---- Export -------------------------------------------------------------------
+
+const escapeText = (value: string) =>
+  value.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+
+const icsDate = (date: string) => date.replace(/-/g, "");
+
+const icsTimestamp = (date: Date) => date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+
+// A local day and time of day as a UTC DATE-TIME
+const utcDateTime = (date: string, time: string) => {
+  const local = parseDateKey(date);
+  local.setMinutes(toMinutes(time));
+  return icsTimestamp(local);
+};
+
+// DTSTART, RECURRENCE-ID and EXDATE must all be DATEs for all-day tasks and DATE-TIMEs for timed ones
+const dateProperty = (name: string, date: string, time?: string) =>
+  time ? `${name}:${utcDateTime(date, time)}` : `${name};VALUE=DATE:${icsDate(date)}`;
+
+// A timed event without an end lasts no time at all, as RFC 5545 reads a missing DTEND
+const endProperty = (date: string, start?: string, end?: string) =>
+  start
+    ? (end ? [`DTEND:${utcDateTime(date, end)}`] : [])
+    : [`DTEND;VALUE=DATE:${icsDate(addDaysToKey(date, 1))}`];
+
+const encoder = new TextEncoder();
+
+// Lines are folded at 75 octets without splitting a UTF-8 character
+function fold(line: string): string {
+  const lines: string[] = [];
+  let current = "";
+  let bytes = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    const limit = lines.length === 0 ? 75 : 74; // continuation lines start with a space
+    if (bytes + size > limit) {
+      lines.push(current);
+      current = "";
+      bytes = 0;
+    }
+    current += char;
+    bytes += size;
+  }
+  lines.push(current);
+  return lines.join("\r\n ");
+}
+
+function eventLines(task: Task, category: Category | undefined, stamp: string): string[] {
+  const uid = taskUid(task);
+  const lines = [
+    "BEGIN:VEVENT",
+    `UID:${uid}`,
+    `DTSTAMP:${stamp}`,
+    dateProperty("DTSTART", task.date, task.start),
+    ...endProperty(task.date, task.start, task.end),
+    `SUMMARY:${escapeText(task.title)}`,
+  ];
+  if (category) lines.push(`CATEGORIES:${escapeText(category.name)}`);
+  if (task.notes) lines.push(`DESCRIPTION:${escapeText(task.notes)}`);
+  if (task.priority) lines.push(`PRIORITY:${ICS_PRIORITY[task.priority]}`);
+  if (task.completed && !task.recurrence) lines.push(`${COMPLETED_PROPERTY}:TRUE`);
+
+  const instances: string[] = [];
+  if (task.recurrence) {
+    const untilTime = task.start ? (until: string) => utcDateTime(until, "23:59") : undefined;
+    lines.push(`RRULE:${toRRule(task.recurrence, untilTime)}`);
+    for (const [occurrenceDate, override] of Object.entries(task.overrides ?? {})) {
+      if (override.cancelled) {
+        lines.push(dateProperty("EXDATE", occurrenceDate, task.start));
+        continue;
+      }
+      const date = override.date ?? occurrenceDate;
+      const start = override.start ?? task.start;
+      instances.push(
+        "BEGIN:VEVENT",
+        `UID:${uid}`,
+        `DTSTAMP:${stamp}`,
+        dateProperty("RECURRENCE-ID", occurrenceDate, task.start),
+        dateProperty("DTSTART", date, start),
+        ...endProperty(date, start, override.end ?? task.end),
+        `SUMMARY:${escapeText(override.title ?? task.title)}`,
+        ...(category ? [`CATEGORIES:${escapeText(category.name)}`] : []),
+        ...(override.completed ? [`${COMPLETED_PROPERTY}:TRUE`] : []),
+        "END:VEVENT"
+      );
+    }
+  }
+  lines.push("END:VEVENT");
+  return [...lines, ...instances];
+}
+
+/**
+ * An .ics calendar holding the given tasks.
+ */
+export function exportIcs(tasks: Task[], categories: Category[], calendarName: string): string {
+  const stamp = icsTimestamp(new Date());
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+    ...tasks.flatMap((task) => eventLines(task, categories.find((c) => c.id === task.categoryId), stamp)),
+    "END:VCALENDAR",
+  ];
+  return lines.map(fold).join("\r\n") + "\r\n";
+}
@@ -0,0 +1,48 @@
+/**
+ * Side-by-side layout for timed items in a day column
+ * - Items that overlap, directly or through a chain of others, form a cluster sharing the column width
+ * - Each item takes the leftmost free column in its cluster
+ */
+
+export type PlacedItem<T> = {
+  item: T;
+  start: number; // minutes after midnight
+  end: number;
+  column: number;
+  columns: number; // columns in the item's cluster
+};
+
+// Very short items still get room for a line of text
+export const MIN_BLOCK_MINUTES = 20;
+
+export function layoutDay<T>(items: T[], range: (item: T) => { start: number; end: number }): PlacedItem<T>[] {
+  const blocks = items
+    .map((item) => {
+      const { start, end } = range(item);
+      return { item, start, end: Math.max(end, start + MIN_BLOCK_MINUTES), column: 0, columns: 1 };
+    })
+    .sort((a, b) => a.start - b.start || b.end - a.end);
+
+  const placed: PlacedItem<T>[] = [];
+  let cluster: PlacedItem<T>[] = [];
+  let columnEnds: number[] = [];
+  let clusterEnd = -1;
+
+  const closeCluster = () => {
+    for (const block of cluster) block.columns = columnEnds.length;
+    placed.push(...cluster);
+    cluster = [];
+    columnEnds = [];
+  };
+
+  for (const block of blocks) {
+    if (block.start >= clusterEnd) closeCluster();
+    const free = columnEnds.findIndex((end) => end <= block.start);
+    block.column = free >= 0 ? free : columnEnds.length;
+    columnEnds[block.column] = block.end;
+    clusterEnd = cluster.length === 0 ? block.end : Math.max(clusterEnd, block.end);
+    cluster.push(block);
+  }
+  closeCluster();
+  return placed;
+}
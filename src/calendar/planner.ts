@@ -0,0 +1,133 @@
+import { addDaysToKey, fromMinutes, parseDateKey, toDateKey, toMinutes } from "./dates";
+import { expandTasks } from "./recurrence";
+import { Semester, classesBetween } from "./timetable";
+import { priorityRank } from "./TaskDetail";
+import type { Task, WorkBlock } from "./types";
+
+/**
+ * Planner — time-blocks the estimated effort of pending tasks into free time before they're due
+ * - Only one-off, all-day tasks with an estimate are planned; timed tasks are commitments in themselves
+ * - Free time is the working hours minus timed tasks, classes and sessions already accepted
+ * - Tasks due soonest are planned first, each into the earliest free slots, at most a couple of hours a day
+ *   so that larger pieces of work are spread over several days
+ * - Proposed blocks only become work sessions on the task once accepted
+ */
+
+export type WorkingHours = {
+  days: number[]; // weekdays, as Date.getDay()
+  start: string; // HH:MM
+  end: string; // HH:MM
+};
+
+export type PlannedBlock = WorkBlock & {
+  taskId: string;
+};
+
+export type Plan = {
+  blocks: PlannedBlock[];
+  unscheduled: { taskId: string; minutes: number }[]; // effort that didn't fit before the due date
+};
+
+export const DEFAULT_WORKING_HOURS: WorkingHours = { days: [1, 2, 3, 4, 5, 6], start: "09:00", end: "21:00" };
+
+const WORKING_HOURS_KEY = "calendar_working_hours";
+
+const SLOT = 15; // minutes; blocks start and end on the quarter hour
+const MIN_BLOCK = 30; // minutes; shorter gaps aren't worth a session
+const MAX_PER_DAY = 120; // minutes of one task in a day
+const HORIZON_DAYS = 60;
+
+export function loadWorkingHours(): WorkingHours {
+  try {
+    const saved = localStorage.getItem(WORKING_HOURS_KEY);
+    if (saved) return JSON.parse(saved);
+  } catch (error) {
+    console.error('Failed to load working hours:', error);
+  }
+  return DEFAULT_WORKING_HOURS;
+}
+
+export function saveWorkingHours(hours: WorkingHours) {
+  try {
+    localStorage.setItem(WORKING_HOURS_KEY, JSON.stringify(hours));
+  } catch (error) {
+    console.error('Failed to save working hours:', error);
+  }
+}
+
+const blockMinutes = (block: WorkBlock) => toMinutes(block.end) - toMinutes(block.start);
+
+export const plannedMinutes = (task: Task) => (task.workBlocks ?? []).reduce((sum, block) => sum + blockMinutes(block), 0);
+
+// Effort not yet covered by accepted sessions
+export const remainingEffort = (task: Task) => Math.max((task.estimate ?? 0) - plannedMinutes(task), 0);
+
+export const isPlannable = (task: Task, today: string) =>
+  !task.recurrence && !task.completed && !task.start && task.date >= today && remainingEffort(task) > 0;
+
+type Interval = [number, number]; // minutes from midnight
+
+// The gaps in [from, to) that none of the busy intervals cover
+const freeIntervals = (from: number, to: number, busy: Interval[]): Interval[] => {
+  const free: Interval[] = [];
+  let cursor = from;
+  for (const [start, end] of [...busy].sort((a, b) => a[0] - b[0])) {
+    if (start > cursor) free.push([cursor, Math.min(start, to)]);
+    cursor = Math.max(cursor, end);
+    if (cursor >= to) break;
+  }
+  if (cursor < to) free.push([cursor, to]);
+  return free.filter(([start, end]) => end > start);
+};
+
+/**
+ * Proposed work sessions for every plannable task, from now until each is due.
+ */
+export function planWork(tasks: Task[], timetable: Semester | null, hours: WorkingHours, now = new Date()): Plan {
+  const today = toDateKey(now);
+  const last = addDaysToKey(today, HORIZON_DAYS);
+  const pending = tasks
+    .filter((task) => isPlannable(task, today))
+    .sort((a, b) =>
+      a.date.localeCompare(b.date) ||
+      (a.due ?? "24:00").localeCompare(b.due ?? "24:00") ||
+      priorityRank(a.priority) - priorityRank(b.priority)
+    );
+
+  const busy = new Map<string, Interval[]>();
+  const occupy = (date: string, start: number, end: number) => busy.set(date, [...(busy.get(date) ?? []), [start, end]]);
+  expandTasks(tasks, today, last)
+    .filter((task) => task.start)
+    .forEach((task) => occupy(task.date, toMinutes(task.start!), task.end ? toMinutes(task.end) : toMinutes(task.start!) + 60));
+  classesBetween(timetable, today, last).forEach((c) => occupy(c.date, toMinutes(c.start), toMinutes(c.end)));
+  tasks.flatMap((task) => task.workBlocks ?? []).forEach((block) => occupy(block.date, toMinutes(block.start), toMinutes(block.end)));
+
+  const dayStart = toMinutes(hours.start);
+  const dayEnd = toMinutes(hours.end);
+  const nowMinutes = Math.ceil((now.getHours() * 60 + now.getMinutes()) / SLOT) * SLOT;
+  const blocks: PlannedBlock[] = [];
+  const unscheduled: Plan["unscheduled"] = [];
+
+  for (const task of pending) {
+    let need = Math.ceil(remainingEffort(task) / SLOT) * SLOT;
+    for (let date = today; date <= task.date && date <= last && need > 0; date = addDaysToKey(date, 1)) {
+      if (!hours.days.includes(parseDateKey(date).getDay())) continue;
+      const from = date === today ? Math.max(dayStart, nowMinutes) : dayStart;
+      const to = date === task.date && task.due ? Math.min(dayEnd, toMinutes(task.due)) : dayEnd;
+      let budget = Math.min(MAX_PER_DAY, need);
+      for (const [start, end] of freeIntervals(from, to, busy.get(date) ?? [])) {
+        const length = Math.floor(Math.min(end - start, budget) / SLOT) * SLOT;
+        if (length < Math.min(MIN_BLOCK, need)) continue;
+        blocks.push({ taskId: task.id, date, start: fromMinutes(start), end: fromMinutes(start + length) });
+        occupy(date, start, start + length);
+        need -= length;
+        budget -= length;
+        if (budget <= 0) break;
+      }
+    }
+    if (need > 0) unscheduled.push({ taskId: task.id, minutes: need });
+  }
+
+  blocks.sort((a, b) => a.date.localeCompare(b.date) || a.start.localeCompare(b.start));
+  return { blocks, unscheduled };
+}
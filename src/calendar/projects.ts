@@ -0,0 +1,145 @@
+import { addDaysToKey, parseDateKey } from "./dates";
+import { priorityRank } from "./TaskDetail";
+import type { Task, TaskOccurrence } from "./types";
+
+/**
+ * Projects — a deadline, ordered milestones and member tasks that can wait on one another
+ * - Tasks join a project through their projectId, and a milestone through their milestoneId
+ * - "Blocked by" links are task ids; a task is blocked while any of them is unfinished, and links can't form a loop
+ * - Slip risk compares the share of tasks done with the share of time used, and projects the finish at the current pace
+ */
+
+export type Milestone = {
+  id: string;
+  title: string;
+  date: string; // YYYY-MM-DD
+};
+
+export type Project = {
+  id: string;
+  name: string;
+  start: string; // YYYY-MM-DD, when work began; the pace is measured from here
+  deadline: string; // YYYY-MM-DD
+  milestones: Milestone[]; // in order
+};
+
+export type SlipRisk = "done" | "onTrack" | "atRisk" | "behind" | "overdue";
+
+export type ProjectStatus = {
+  done: number;
+  total: number;
+  percent: number;
+  risk: SlipRisk;
+  projectedFinish?: string; // YYYY-MM-DD at the pace so far; unknown until something is done
+  lateMilestones: Milestone[]; // passed with tasks still open
+  nextAction?: TaskOccurrence;
+};
+
+const PROJECTS_KEY = "calendar_projects";
+
+// Behind by this share of the timeline before a project counts as at risk
+const RISK_MARGIN = 0.15;
+
+export function loadProjects(): Project[] {
+  try {
+    const saved = localStorage.getItem(PROJECTS_KEY);
+    if (saved) return JSON.parse(saved);
+  } catch (error) {
+    console.error('Failed to load projects:', error);
+  }
+  return [];
+}
+
+export function saveProjects(projects: Project[]) {
+  try {
+    localStorage.setItem(PROJECTS_KEY, JSON.stringify(projects));
+  } catch (error) {
+    console.error('Failed to save projects:', error);
+  }
+}
+
+const daysBetween = (from: string, to: string) =>
+  Math.round((parseDateKey(to).getTime() - parseDateKey(from).getTime()) / 86400000);
+
+export const projectTasks = <T extends Task>(project: Project, tasks: T[]) => tasks.filter((task) => task.projectId === project.id);
+
+/**
+ * The unfinished tasks a task is waiting on.
+ */
+export const blockersOf = <T extends Task>(task: Task, tasks: T[]) =>
+  tasks.filter((other) => task.blockedBy?.includes(other.id) && !other.completed);
+
+/**
+ * Whether making one task wait on another would close a loop of "blocked by" links.
+ */
+export function createsCycle(tasks: Task[], taskId: string, blockerId: string): boolean {
+  const seen = new Set<string>();
+  const stack = [blockerId];
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    if (id === taskId) return true;
+    if (seen.has(id)) continue;
+    seen.add(id);
+    stack.push(...(tasks.find((task) => task.id === id)?.blockedBy ?? []));
+  }
+  return false;
+}
+
+export const milestoneProgress = <T extends Task>(milestone: Milestone, tasks: T[]) => {
+  const members = tasks.filter((task) => task.milestoneId === milestone.id);
+  return { done: members.filter((task) => task.completed).length, total: members.length };
+};
+
+/**
+ * The task to do next: unfinished and not blocked, from the earliest milestone,
+ * preferring tasks others are waiting on, then priority, then date.
+ */
+export function nextAction(project: Project, tasks: TaskOccurrence[]): TaskOccurrence | undefined {
+  const members = projectTasks(project, tasks);
+  const milestoneRank = (task: Task) => {
+    const index = project.milestones.findIndex((m) => m.id === task.milestoneId);
+    return index === -1 ? project.milestones.length : index;
+  };
+  const waitingOn = (task: Task) => members.filter((other) => !other.completed && other.blockedBy?.includes(task.id)).length;
+  return members
+    .filter((task) => !task.completed && blockersOf(task, tasks).length === 0)
+    .sort((a, b) =>
+      milestoneRank(a) - milestoneRank(b) ||
+      waitingOn(b) - waitingOn(a) ||
+      priorityRank(a.priority) - priorityRank(b.priority) ||
+      a.date.localeCompare(b.date)
+    )[0];
+}
+
+/**
+ * Progress, slip risk and next action of a project as of today.
+ */
+export function projectStatus(project: Project, tasks: TaskOccurrence[], today: string): ProjectStatus {
+  const members = projectTasks(project, tasks);
+  const total = members.length;
+  const done = members.filter((task) => task.completed).length;
+  const percent = total > 0 ? Math.round((done / total) * 100) : 0;
+  const lateMilestones = project.milestones.filter((milestone) => {
+    const progress = milestoneProgress(milestone, members);
+    return milestone.date < today && progress.done < progress.total;
+  });
+  const status = { done, total, percent, lateMilestones, nextAction: nextAction(project, tasks) };
+
+  if (total > 0 && done === total) return { ...status, risk: "done" };
+  if (today > project.deadline) return { ...status, risk: "overdue" };
+
+  const elapsed = Math.max(daysBetween(project.start, today), 0);
+  const length = Math.max(daysBetween(project.start, project.deadline), 1);
+  const pace = elapsed > 0 ? done / elapsed : 0; // tasks a day
+  const projectedFinish = pace > 0 ? addDaysToKey(today, Math.ceil((total - done) / pace)) : undefined;
+  // Share of the timeline used minus share of tasks done
+  const gap = total > 0 ? Math.min(elapsed / length, 1) - done / total : 0;
+
+  const risk: SlipRisk =
+    lateMilestones.length > 0 || (projectedFinish !== undefined && projectedFinish > project.deadline) || gap > 2 * RISK_MARGIN
+      ? "behind"
+      : gap > RISK_MARGIN
+        ? "atRisk"
+        : "onTrack";
+  return { ...status, risk, projectedFinish };
+}
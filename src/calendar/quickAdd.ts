@@ -0,0 +1,252 @@
+import { WeekStart, addDays, fromMinutes, startOfWeek, toDateKey } from "./dates";
+import type { Category, Priority } from "./types";
+
+/**
+ * Quick-add parsing — one line of English or Cantonese into a task
+ * - Dates: today, tomorrow, fri, next fri, in 3 days, Oct 24, 24/10 (day/month), 2026-10-24;
+ *   今日, 聽日, 後日, 星期五, 下星期五, 三日後, 10月24號
+ * - Times: 5pm, 5:30pm, 17:00, noon, 5-7pm, 09:00-10:30; 下晝5點, 朝早9點半, 晚上8點
+ * - #category picks a category by name (or the start of it)
+ * - !high, !medium, !low (or !urgent, !高, !中, !低) set the priority; a bare ! means high
+ * - What's left becomes the title
+ * - "Next Friday" is the Friday of next week, with weeks starting on the chosen first day; a bare weekday is the next one from today
+ */
+
+export type QuickAdd = {
+  title: string;
+  date?: string;
+  start?: string;
+  end?: string;
+  categoryId?: string;
+  priority?: Priority;
+};
+
+const EN_WEEKDAYS: [RegExp, number][] = [
+  [/^sun(day)?$/, 0],
+  [/^mon(day)?$/, 1],
+  [/^tue(s|sday)?$/, 2],
+  [/^wed(nesday)?$/, 3],
+  [/^thu(r|rs|rsday)?$/, 4],
+  [/^fri(day)?$/, 5],
+  [/^sat(urday)?$/, 6],
+];
+const EN_WEEKDAY = "sunday|sun|monday|mon|tuesday|tues|tue|wednesday|wed|thursday|thurs|thur|thu|friday|fri|saturday|sat";
+const EN_MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+const EN_MONTH = "jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t|tember)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?";
+
+const ZH_WEEKDAYS: Record<string, number> = { 日: 0, 天: 0, 一: 1, 二: 2, 三: 3, 四: 4, 五: 5, 六: 6 };
+const ZH_DIGITS: Record<string, number> = { 零: 0, 一: 1, 二: 2, 兩: 2, 三: 3, 四: 4, 五: 5, 六: 6, 七: 7, 八: 8, 九: 9 };
+const ZH_NUMBER = "[零一二兩三四五六七八九十廿卅]+|\\d{1,2}";
+
+// Arabic or Chinese numerals up to 99: 3, 十, 十五, 二十三, 廿一
+function parseNumber(text: string): number {
+  if (/^\d+$/.test(text)) return Number(text);
+  const normalized = text.replace(/^廿/, "二十").replace(/^卅/, "三十");
+  const [tens, ones] = normalized.split("十");
+  if (ones === undefined) return ZH_DIGITS[tens] ?? NaN;
+  return (tens ? ZH_DIGITS[tens] : 1) * 10 + (ones ? ZH_DIGITS[ones] : 0);
+}
+
+// The weekday in the week `weeks` after this one
+const weekdayInWeek = (today: Date, weekday: number, weeks: number, weekStart: WeekStart) =>
+  addDays(startOfWeek(today, weekStart), weeks * 7 + (weekday - weekStart + 7) % 7);
+
+// The weekday on or after today
+const upcomingWeekday = (today: Date, weekday: number) => addDays(today, (weekday - today.getDay() + 7) % 7);
+
+// Dates without a year are the next one to come
+function monthDay(today: Date, month: number, day: number): Date | null {
+  if (month < 0 || month > 11 || day < 1 || day > 31) return null;
+  const date = new Date(today.getFullYear(), month, day);
+  if (date.getMonth() !== month) return null;
+  return date < today ? new Date(today.getFullYear() + 1, month, day) : date;
+}
+
+const to24 = (hour: number, period?: string) => {
+  if (!period) return hour;
+  if (/^(pm|下晝|下午|晏晝|晚上|夜晚|晚)$/i.test(period)) return hour < 12 ? hour + 12 : hour;
+  if (/^(am|朝早|上晝|上午|早上|朝)$/i.test(period)) return hour === 12 ? 0 : hour;
+  return hour; // 中午
+};
+
+const validTime = (hour: number, minute: number) => hour >= 0 && hour < 24 && minute >= 0 && minute < 60;
+
+type Rule = {
+  pattern: RegExp;
+  apply: (match: RegExpMatchArray) => boolean; // false leaves the text alone
+};
+
+/**
+ * Reads dates, times, #categories and !priorities out of a quick-add line.
+ */
+export function parseQuickAdd(input: string, categories: Category[], weekStart: WeekStart = 0, now = new Date()): QuickAdd {
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const result: QuickAdd = { title: "" };
+  let date: Date | undefined;
+  let evening = false; // "tonight" without a time reads "8" as 8 pm
+  const setDate = (value: Date | null) => {
+    if (!value || date) return false;
+    date = value;
+    return true;
+  };
+  const setTime = (start: number, end?: number) => {
+    if (result.start) return false;
+    result.start = fromMinutes(start);
+    if (end !== undefined && end > start) result.end = fromMinutes(end);
+    return true;
+  };
+  const timeOf = (hour: string, minute: string | undefined, period: string | undefined) => {
+    let h = to24(Number(hour), period);
+    const m = minute === "半" ? 30 : minute ? parseNumber(minute) : 0;
+    if (!period && evening && h < 12) h += 12;
+    return validTime(h, m) ? h * 60 + m : null;
+  };
+
+  const rules: Rule[] = [
+    // ---- Tags
+    {
+      pattern: /(?:^|\s)#([^\s#!！]+)/,
+      apply: (m) => {
+        const name = m[1].toLowerCase();
+        const category = categories.find((c) => c.name.toLowerCase() === name) ??
+          categories.find((c) => c.name.toLowerCase().startsWith(name));
+        if (!category || result.categoryId) return false;
+        result.categoryId = category.id;
+        return true;
+      },
+    },
+    {
+      pattern: /(?:^|\s)[!！]+(urgent|important|high|medium|med|low|緊急|急|重要|高|中|低)?(?=\s|$)/i,
+      apply: (m) => {
+        if (result.priority) return false;
+        const word = m[1]?.toLowerCase();
+        result.priority = word === "medium" || word === "med" || word === "中"
+          ? "medium"
+          : word === "low" || word === "低" ? "low" : "high";
+        return true;
+      },
+    },
+
+    // ---- English dates
+    { pattern: /\b(\d{4})-(\d{1,2})-(\d{1,2})\b/, apply: (m) => setDate(new Date(+m[1], +m[2] - 1, +m[3])) },
+    {
+      pattern: new RegExp(`\\b(?:on\\s+)?(${EN_MONTH})\\.?\\s+(\\d{1,2})(?:st|nd|rd|th)?\\b`, "i"),
+      apply: (m) => setDate(monthDay(today, EN_MONTHS.indexOf(m[1].slice(0, 3).toLowerCase()), +m[2])),
+    },
+    {
+      pattern: new RegExp(`\\b(?:on\\s+)?(\\d{1,2})(?:st|nd|rd|th)?\\s+(${EN_MONTH})\\b`, "i"),
+      apply: (m) => setDate(monthDay(today, EN_MONTHS.indexOf(m[2].slice(0, 3).toLowerCase()), +m[1])),
+    },
+    { pattern: /\b(?:on\s+)?(\d{1,2})\/(\d{1,2})\b/, apply: (m) => setDate(monthDay(today, +m[2] - 1, +m[1])) },
+    { pattern: /\b(?:the\s+)?day\s+after\s+tomorrow\b/i, apply: () => setDate(addDays(today, 2)) },
+    { pattern: /\b(today|tonight)\b/i, apply: (m) => (evening = m[1].toLowerCase() === "tonight", setDate(today)) },
+    { pattern: /\b(tomorrow|tmrw?|tmr)\b/i, apply: () => setDate(addDays(today, 1)) },
+    {
+      pattern: /\bin\s+(\d+)\s+(day|week|month)s?\b/i,
+      apply: (m) => {
+        const n = +m[1];
+        const unit = m[2].toLowerCase();
+        return setDate(unit === "month"
+          ? new Date(today.getFullYear(), today.getMonth() + n, today.getDate())
+          : addDays(today, unit === "week" ? n * 7 : n));
+      },
+    },
+    {
+      pattern: new RegExp(`\\b(?:on\\s+|by\\s+)?(?:(next|this)\\s+)?(${EN_WEEKDAY})\\b`, "i"),
+      apply: (m) => {
+        const weekday = EN_WEEKDAYS.find(([name]) => name.test(m[2].toLowerCase()))![1];
+        const which = m[1]?.toLowerCase();
+        return setDate(which === "next"
+          ? weekdayInWeek(today, weekday, 1, weekStart)
+          : which === "this" ? weekdayInWeek(today, weekday, 0, weekStart) : upcomingWeekday(today, weekday));
+      },
+    },
+    { pattern: /\bnext\s+week\b/i, apply: () => setDate(weekdayInWeek(today, weekStart, 1, weekStart)) },
+    { pattern: /\bnext\s+month\b/i, apply: () => setDate(new Date(today.getFullYear(), today.getMonth() + 1, 1)) },
+
+    // ---- Cantonese dates
+    {
+      pattern: new RegExp(`(${ZH_NUMBER})月(${ZH_NUMBER})[日號号]`),
+      apply: (m) => setDate(monthDay(today, parseNumber(m[1]) - 1, parseNumber(m[2]))),
+    },
+    { pattern: /大後日/, apply: () => setDate(addDays(today, 3)) },
+    { pattern: /後日/, apply: () => setDate(addDays(today, 2)) },
+    { pattern: /(今日|今朝|今晚|今天)/, apply: (m) => (evening = m[1] === "今晚", setDate(today)) },
+    { pattern: /(聽日|聽朝|聽晚|明日|明天)/, apply: (m) => (evening = m[1] === "聽晚", setDate(addDays(today, 1))) },
+    {
+      pattern: new RegExp(`(${ZH_NUMBER})\\s*(日|天|個星期|個禮拜|星期|禮拜|個月)(?:之)?後`),
+      apply: (m) => {
+        const n = parseNumber(m[1]);
+        return setDate(/月/.test(m[2])
+          ? new Date(today.getFullYear(), today.getMonth() + n, today.getDate())
+          : addDays(today, /[日天]/.test(m[2]) ? n : n * 7));
+      },
+    },
+    {
+      pattern: /(下個?|今個|呢個|本)?(?:星期|禮拜|週|周)([一二三四五六日天])/,
+      apply: (m) => {
+        const weekday = ZH_WEEKDAYS[m[2]];
+        return setDate(m[1]?.startsWith("下")
+          ? weekdayInWeek(today, weekday, 1, weekStart)
+          : m[1] ? weekdayInWeek(today, weekday, 0, weekStart) : upcomingWeekday(today, weekday));
+      },
+    },
+    { pattern: /下個?(?:星期|禮拜|週)/, apply: () => setDate(weekdayInWeek(today, weekStart, 1, weekStart)) },
+    { pattern: /下個月/, apply: () => setDate(new Date(today.getFullYear(), today.getMonth() + 1, 1)) },
+
+    // ---- Times
+    {
+      pattern: /\b(?:from\s+)?(\d{1,2})(?::(\d{2}))?\s*(am|pm)?\s*(?:-|–|to)\s*(\d{1,2})(?::(\d{2}))?\s*(am|pm)\b/i,
+      apply: (m) => {
+        // "5-7pm": the end's am/pm applies to the start too
+        const end = timeOf(m[4], m[5], m[6]);
+        let start = timeOf(m[1], m[2], m[3] ?? m[6]);
+        if (!m[3] && start !== null && end !== null && start > end) start = timeOf(m[1], m[2], "am"); // "11-1pm"
+        return start !== null && end !== null && setTime(start, end);
+      },
+    },
+    {
+      pattern: /\b(\d{1,2}):(\d{2})\s*(?:-|–|to)\s*(\d{1,2}):(\d{2})\b/,
+      apply: (m) => {
+        const start = timeOf(m[1], m[2], undefined);
+        const end = timeOf(m[3], m[4], undefined);
+        return start !== null && end !== null && setTime(start, end);
+      },
+    },
+    {
+      pattern: /\b(?:at\s+|@\s*)?(\d{1,2})(?::(\d{2}))?\s*(am|pm)\b/i,
+      apply: (m) => {
+        const time = timeOf(m[1], m[2], m[3]);
+        return time !== null && setTime(time);
+      },
+    },
+    {
+      pattern: /\b(?:at\s+|@\s*)?(\d{1,2}):(\d{2})\b/,
+      apply: (m) => {
+        const time = timeOf(m[1], m[2], undefined);
+        return time !== null && setTime(time);
+      },
+    },
+    { pattern: /\b(?:at\s+)?noon\b/i, apply: () => setTime(12 * 60) },
+    {
+      pattern: new RegExp(`(朝早|上晝|上午|早上|下晝|下午|晏晝|中午|晚上|夜晚)?\\s*(${ZH_NUMBER})\\s*[點点時](?:\\s*(半|${ZH_NUMBER})\\s*分?)?`),
+      apply: (m) => {
+        const time = timeOf(String(parseNumber(m[2])), m[3], m[1]);
+        return time !== null && setTime(time);
+      },
+    },
+  ];
+
+  let text = input;
+  for (const { pattern, apply } of rules) {
+    const match = text.match(pattern);
+    if (match && match.index !== undefined && apply(match)) {
+      text = `${text.slice(0, match.index)} ${text.slice(match.index + match[0].length)}`;
+    }
+  }
+
+  if (date) result.date = toDateKey(date);
+  // Prepositions left hanging at the end by a removed date ("due by", "at")
+  result.title = text.replace(/\s+/g, " ").trim().replace(/\s+(on|at|by|@)$/i, "");
+  return result;
+}
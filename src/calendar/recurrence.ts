@@ -0,0 +1,225 @@
+import { addDays, addDaysToKey, daysInMonth, parseDateKey, toDateKey } from "./dates";
+import type { OccurrenceOverride, Task, TaskOccurrence } from "./types";
+
+/**
+ * Repeating tasks — iCalendar RRULE semantics (RFC 5545) for the rules the app offers
+ * - DAILY, WEEKLY on chosen weekdays, MONTHLY on a date or on the nth weekday
+ * - INTERVAL (every N days/weeks/months), ending on an UNTIL date or after COUNT occurrences
+ * - The task's date is DTSTART and is always the first occurrence
+ * - Overrides change or cancel single occurrences, like RECURRENCE-ID and EXDATE;
+ *   as in RFC 5545, cancelled occurrences still count towards COUNT
+ */
+
+export type Frequency = "DAILY" | "WEEKLY" | "MONTHLY";
+
+export type Weekday = "SU" | "MO" | "TU" | "WE" | "TH" | "FR" | "SA";
+
+// Indexed like Date.getDay()
+export const WEEKDAYS: Weekday[] = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+
+export type RecurrenceRule = {
+  freq: Frequency;
+  interval: number;
+  byDay?: Weekday[]; // WEEKLY: the weekdays it repeats on
+  byMonthDay?: number; // MONTHLY: day of the month, -1 for the last day
+  byWeekdayOfMonth?: { weekday: Weekday; nth: number }; // MONTHLY: e.g. 2nd Tuesday, nth -1 for the last
+  until?: string; // YYYY-MM-DD, inclusive
+  count?: number;
+};
+
+// Rules that can never match (every 12 months on the 31st of February) give up after this many periods
+const MAX_PERIODS = 10000;
+
+const weekdayIndex = (day: Weekday) => WEEKDAYS.indexOf(day);
+
+// Weeks start on Monday, the RRULE default (WKST=MO); it only matters for weekly rules with an interval
+const mondayOffset = (day: number) => (day + 6) % 7;
+
+function monthlyDate(rule: RecurrenceRule, start: Date, year: number, month: number): Date | null {
+  const days = daysInMonth(year, month);
+  if (rule.byWeekdayOfMonth) {
+    const { weekday, nth } = rule.byWeekdayOfMonth;
+    const target = weekdayIndex(weekday);
+    if (nth > 0) {
+      const first = (target - new Date(year, month, 1).getDay() + 7) % 7 + 1;
+      const day = first + (nth - 1) * 7;
+      return day <= days ? new Date(year, month, day) : null;
+    }
+    const last = days - ((new Date(year, month, days).getDay() - target + 7) % 7);
+    const day = last + (nth + 1) * 7;
+    return day >= 1 ? new Date(year, month, day) : null;
+  }
+  const monthDay = rule.byMonthDay ?? start.getDate();
+  const day = monthDay > 0 ? monthDay : days + monthDay + 1;
+  // Months without that day are skipped, as RRULE does
+  return day >= 1 && day <= days ? new Date(year, month, day) : null;
+}
+
+// Every date the rule generates on or after `start`, ignoring UNTIL and COUNT
+function* ruleDates(rule: RecurrenceRule, start: Date): Generator<Date> {
+  const interval = Math.max(1, rule.interval);
+  for (let period = 0; period < MAX_PERIODS; period++) {
+    if (rule.freq === "DAILY") {
+      yield addDays(start, period * interval);
+    } else if (rule.freq === "WEEKLY") {
+      const week = addDays(start, period * interval * 7 - mondayOffset(start.getDay()));
+      const offsets = (rule.byDay?.length ? rule.byDay : [WEEKDAYS[start.getDay()]])
+        .map((day) => mondayOffset(weekdayIndex(day)))
+        .sort((a, b) => a - b);
+      for (const offset of offsets) {
+        const date = addDays(week, offset);
+        if (date >= start) yield date;
+      }
+    } else {
+      const date = monthlyDate(rule, start, start.getFullYear(), start.getMonth() + period * interval);
+      if (date && date >= start) yield date;
+    }
+  }
+}
+
+/**
+ * The first date on or after `date` the rule falls on, so a new series starts on a matching day
+ */
+export function alignStart(rule: RecurrenceRule, date: string): string {
+  const first = ruleDates(rule, parseDateKey(date)).next();
+  return first.done ? date : toDateKey(first.value);
+}
+
+/**
+ * Dates of a series from its start up to and including `through`, cancelled ones included.
+ */
+export function occurrenceDates(task: Task, through: string): string[] {
+  const rule = task.recurrence;
+  if (!rule) return task.date <= through ? [task.date] : [];
+
+  const dates: string[] = [task.date];
+  const last = rule.until && rule.until < through ? rule.until : through;
+  for (const date of ruleDates(rule, parseDateKey(task.date))) {
+    if (rule.count && dates.length >= rule.count) break;
+    const key = toDateKey(date);
+    if (key > last) break;
+    if (key !== task.date) dates.push(key);
+  }
+  return task.date <= last ? dates : [];
+}
+
+const applyOverride = (task: Task, occurrenceDate: string, override: OccurrenceOverride = {}): TaskOccurrence => ({
+  ...task,
+  title: override.title ?? task.title,
+  date: override.date ?? occurrenceDate,
+  start: override.start ?? task.start,
+  end: override.end ?? task.end,
+  completed: override.completed ?? false,
+  doing: override.doing,
+  occurrenceDate,
+});
+
+/**
+ * The task's occurrences whose (possibly moved) date lies within [from, to].
+ */
+export function expandTask(task: Task, from: string, to: string): TaskOccurrence[] {
+  if (!task.recurrence) return task.date >= from && task.date <= to ? [task] : [];
+
+  // An occurrence moved into the range may come from after its end
+  const overrides = task.overrides ?? {};
+  const through = Object.keys(overrides).reduce((latest, key) => (key > latest ? key : latest), to);
+
+  return occurrenceDates(task, through)
+    .filter((date) => !overrides[date]?.cancelled)
+    .map((date) => applyOverride(task, date, overrides[date]))
+    .filter((occurrence) => occurrence.date >= from && occurrence.date <= to)
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+export const expandTasks = (tasks: Task[], from: string, to: string) =>
+  tasks.flatMap((task) => expandTask(task, from, to));
+
+// How far ahead lists look for a series' next occurrence
+const UPCOMING_DAYS = 2 * 366;
+
+/**
+ * The occurrence a series stands for in lists: the next one not yet done, or the last one once all are.
+ */
+export function currentOccurrence(task: Task, today: string): TaskOccurrence {
+  if (!task.recurrence) return task;
+  const horizon = addDaysToKey(today, UPCOMING_DAYS);
+  const pending = expandTask(task, today, horizon).find((occurrence) => !occurrence.completed);
+  if (pending) return pending;
+  const all = expandTask(task, task.date < today ? task.date : today, horizon);
+  return all[all.length - 1] ?? applyOverride(task, task.date, task.overrides?.[task.date]);
+}
+
+/**
+ * Merge a change into one occurrence's override.
+ */
+export function overrideOccurrence(task: Task, occurrenceDate: string, change: OccurrenceOverride): Task {
+  const overrides = { ...task.overrides, [occurrenceDate]: { ...task.overrides?.[occurrenceDate], ...change } };
+  return { ...task, overrides };
+}
+
+// ---- RRULE text --------------------------------------------------------------
+
+const compactDate = (date: string) => date.replace(/-/g, "");
+
+/**
+ * The rule as an RRULE value. UNTIL is a DATE unless `formatUntil` writes the DATE-TIME a timed series needs.
+ */
+export function toRRule(rule: RecurrenceRule, formatUntil: (until: string) => string = compactDate): string {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.freq === "WEEKLY" && rule.byDay?.length) parts.push(`BYDAY=${rule.byDay.join(",")}`);
+  if (rule.freq === "MONTHLY" && rule.byWeekdayOfMonth) {
+    parts.push(`BYDAY=${rule.byWeekdayOfMonth.nth}${rule.byWeekdayOfMonth.weekday}`);
+  } else if (rule.freq === "MONTHLY" && rule.byMonthDay) {
+    parts.push(`BYMONTHDAY=${rule.byMonthDay}`);
+  }
+  if (rule.until) parts.push(`UNTIL=${formatUntil(rule.until)}`);
+  else if (rule.count) parts.push(`COUNT=${rule.count}`);
+  return parts.join(";");
+}
+
+/**
+ * Read an RRULE value (without the "RRULE:" prefix). Returns null for rules the app can't represent.
+ */
+export function parseRRule(text: string): RecurrenceRule | null {
+  const parts = new Map<string, string>();
+  for (const part of text.replace(/^RRULE:/i, "").split(";")) {
+    const [key, value] = part.split("=");
+    if (key && value) parts.set(key.trim().toUpperCase(), value.trim().toUpperCase());
+  }
+
+  let freq = parts.get("FREQ");
+  let interval = Math.max(1, Number(parts.get("INTERVAL")) || 1);
+  // A plain yearly rule is the same as every 12 months on the start date
+  if (freq === "YEARLY" && !parts.has("BYMONTH") && !parts.has("BYDAY") && !parts.has("BYYEARDAY")) {
+    freq = "MONTHLY";
+    interval *= 12;
+  }
+  if (freq !== "DAILY" && freq !== "WEEKLY" && freq !== "MONTHLY") return null;
+
+  const rule: RecurrenceRule = { freq, interval };
+  const byDay = parts.get("BYDAY")?.split(",") ?? [];
+
+  if (freq === "WEEKLY" && byDay.length) {
+    if (!byDay.every((day) => WEEKDAYS.includes(day as Weekday))) return null;
+    rule.byDay = WEEKDAYS.filter((day) => byDay.includes(day));
+  } else if (freq === "MONTHLY" && byDay.length) {
+    const match = byDay.length === 1 ? byDay[0].match(/^([+-]?\d)?(SU|MO|TU|WE|TH|FR|SA)$/) : null;
+    const nth = Number(match?.[1] ?? parts.get("BYSETPOS"));
+    if (!match || !nth || nth < -1 || nth > 5) return null;
+    rule.byWeekdayOfMonth = { weekday: match[2] as Weekday, nth };
+  } else if (freq === "MONTHLY" && parts.has("BYMONTHDAY")) {
+    const day = Number(parts.get("BYMONTHDAY"));
+    if (!Number.isInteger(day) || day === 0 || day < -1 || day > 31) return null;
+    rule.byMonthDay = day;
+  } else if (freq === "DAILY" && byDay.length) {
+    return null;
+  }
+
+  const until = parts.get("UNTIL")?.match(/^(\d{4})(\d{2})(\d{2})/);
+  if (until) rule.until = `${until[1]}-${until[2]}-${until[3]}`;
+  const count = Number(parts.get("COUNT"));
+  if (!rule.until && Number.isInteger(count) && count > 0) rule.count = count;
+
+  return rule;
+}
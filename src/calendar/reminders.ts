@@ -0,0 +1,124 @@
+import { addDaysToKey, parseDateKey, toDateKey, toMinutes } from "./dates";
+import { expandTasks } from "./recurrence";
+import type { Task, TaskOccurrence } from "./types";
+
+/**
+ * Task reminders
+ * - A reminder is either some minutes before the task starts or a time of day some days before it
+ * - All-day tasks "start" at their due time, or 9:00 without one, for reminders counted in minutes
+ * - Which reminders fired or were snoozed is kept per occurrence in localStorage
+ */
+
+export type Reminder =
+  | { kind: "before"; minutes: number }
+  | { kind: "at"; daysBefore: number; time: string };
+
+export type ReminderPreset = "atStart" | "10min" | "1hour" | "1day" | "morning" | "dayBeforeMorning";
+
+export const REMINDER_PRESETS: Record<ReminderPreset, Reminder> = {
+  atStart: { kind: "before", minutes: 0 },
+  "10min": { kind: "before", minutes: 10 },
+  "1hour": { kind: "before", minutes: 60 },
+  "1day": { kind: "before", minutes: 24 * 60 },
+  morning: { kind: "at", daysBefore: 0, time: "09:00" },
+  dayBeforeMorning: { kind: "at", daysBefore: 1, time: "09:00" },
+};
+
+export const presetOf = (reminder: Reminder) =>
+  (Object.keys(REMINDER_PRESETS) as ReminderPreset[]).find(
+    (preset) => JSON.stringify(REMINDER_PRESETS[preset]) === JSON.stringify(reminder)
+  );
+
+const ALL_DAY_START = "09:00";
+
+// Reminders found more than this late (the page was closed) are dropped rather than shown
+const LATE_LIMIT_MS = 60 * 60 * 1000;
+
+// The furthest ahead any reminder can be set, in days
+const LOOKAHEAD_DAYS = 8;
+
+// Fired and snoozed entries older than this are forgotten
+const STATE_RETENTION_MS = 14 * 24 * 60 * 60 * 1000;
+
+const STATE_KEY = "calendar_reminder_state";
+export const ENABLED_KEY = "calendar_reminders_enabled";
+
+type ReminderState = {
+  fired: Record<string, number>; // key → when it was shown
+  snoozed: Record<string, number>; // key → when to show it again
+};
+
+export type DueReminder = {
+  key: string;
+  task: TaskOccurrence;
+};
+
+const atMinutes = (date: string, minutes: number) => {
+  const time = parseDateKey(date);
+  time.setMinutes(minutes);
+  return time.getTime();
+};
+
+export function reminderTime(task: TaskOccurrence, reminder: Reminder): number {
+  if (reminder.kind === "at") return atMinutes(addDaysToKey(task.date, -reminder.daysBefore), toMinutes(reminder.time));
+  return atMinutes(task.date, toMinutes(task.start ?? task.due ?? ALL_DAY_START) - reminder.minutes);
+}
+
+export const reminderKey = (task: TaskOccurrence, index: number) =>
+  `${task.id}|${task.occurrenceDate ?? task.date}|${index}`;
+
+export function loadReminderState(): ReminderState {
+  try {
+    const saved = localStorage.getItem(STATE_KEY);
+    if (saved) return JSON.parse(saved);
+  } catch (error) {
+    console.error('Failed to load reminder state:', error);
+  }
+  return { fired: {}, snoozed: {} };
+}
+
+export function saveReminderState(state: ReminderState, now = Date.now()) {
+  const recent = (entries: Record<string, number>) =>
+    Object.fromEntries(Object.entries(entries).filter(([, time]) => time > now - STATE_RETENTION_MS));
+  try {
+    localStorage.setItem(STATE_KEY, JSON.stringify({ fired: recent(state.fired), snoozed: recent(state.snoozed) }));
+  } catch (error) {
+    console.error('Failed to save reminder state:', error);
+  }
+}
+
+/**
+ * Reminders to show now: their time (or snooze) has come, they haven't fired yet and the task is still open.
+ */
+export function dueReminders(tasks: Task[], state: ReminderState, now = Date.now()): DueReminder[] {
+  const today = toDateKey(new Date(now));
+  const occurrences = expandTasks(
+    tasks.filter((task) => task.reminders?.length),
+    addDaysToKey(today, -1),
+    addDaysToKey(today, LOOKAHEAD_DAYS)
+  );
+
+  const due: DueReminder[] = [];
+  for (const task of occurrences) {
+    if (task.completed) continue;
+    task.reminders!.forEach((reminder, index) => {
+      const key = reminderKey(task, index);
+      const snoozedUntil = state.snoozed[key];
+      const time = snoozedUntil ?? reminderTime(task, reminder);
+      const firedAfterSnooze = snoozedUntil !== undefined && (state.fired[key] ?? 0) >= snoozedUntil;
+      const alreadyFired = snoozedUntil === undefined ? state.fired[key] !== undefined : firedAfterSnooze;
+      if (time <= now && time > now - LATE_LIMIT_MS && !alreadyFired) due.push({ key, task });
+    });
+  }
+  return due;
+}
+
+export const snoozeReminder = (state: ReminderState, key: string, minutes: number, now = Date.now()): ReminderState => ({
+  ...state,
+  snoozed: { ...state.snoozed, [key]: now + minutes * 60 * 1000 },
+});
+
+export const markFired = (state: ReminderState, keys: string[], now = Date.now()): ReminderState => ({
+  ...state,
+  fired: { ...state.fired, ...Object.fromEntries(keys.map((key) => [key, now])) },
+});
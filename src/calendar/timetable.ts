@@ -0,0 +1,144 @@
+import { addDaysToKey, parseDateKey, toMinutes } from "./dates";
+
+/**
+ * Semester timetable — the weekly class sessions shown as a read-only layer on the calendar
+ * - Sessions repeat every week between the semester's start and end, except during breaks such as reading week
+ * - Teaching weeks count from the week the semester starts in; weeks that are all break don't count
+ * - Sessions can be pasted one per line: "COMP3230 Mon 09:30-11:20 MWT1" (spaces, tabs or commas)
+ */
+
+export type ClassSession = {
+  id: string;
+  course: string; // course code, e.g. COMP3230
+  weekday: number; // 0 = Sunday, as Date.getDay()
+  start: string; // HH:MM
+  end: string; // HH:MM
+  venue?: string;
+};
+
+export type SemesterBreak = {
+  from: string; // YYYY-MM-DD
+  to: string;
+};
+
+export type Semester = {
+  name: string;
+  start: string; // YYYY-MM-DD, first day of teaching
+  end: string; // YYYY-MM-DD, last day of teaching
+  breaks: SemesterBreak[];
+  sessions: ClassSession[];
+  visible: boolean; // shown on the calendar
+};
+
+// A class on a particular day
+export type ClassOccurrence = ClassSession & {
+  date: string;
+};
+
+const TIMETABLE_KEY = "calendar_timetable";
+
+export function loadTimetable(): Semester | null {
+  try {
+    const saved = localStorage.getItem(TIMETABLE_KEY);
+    if (saved) return JSON.parse(saved);
+  } catch (error) {
+    console.error('Failed to load timetable:', error);
+  }
+  return null;
+}
+
+export function saveTimetable(semester: Semester | null) {
+  try {
+    if (semester) localStorage.setItem(TIMETABLE_KEY, JSON.stringify(semester));
+    else localStorage.removeItem(TIMETABLE_KEY);
+  } catch (error) {
+    console.error('Failed to save timetable:', error);
+  }
+}
+
+const inBreak = (semester: Semester, date: string) => semester.breaks.some((b) => date >= b.from && date <= b.to);
+
+const inSemester = (semester: Semester, date: string) => date >= semester.start && date <= semester.end;
+
+const mondayOf = (date: string) => addDaysToKey(date, -((parseDateKey(date).getDay() + 6) % 7));
+
+// A week counts unless every weekday of it that's in the semester is a break day
+const isBreakWeek = (semester: Semester, monday: string) => {
+  const weekdays = [0, 1, 2, 3, 4].map((i) => addDaysToKey(monday, i)).filter((d) => inSemester(semester, d));
+  return weekdays.length === 0 || weekdays.every((d) => inBreak(semester, d));
+};
+
+/**
+ * The teaching week a day falls in, "break" during a break, or null outside the semester.
+ */
+export function teachingWeek(semester: Semester, date: string): number | "break" | null {
+  if (!inSemester(semester, date)) return null;
+  if (inBreak(semester, date)) return "break";
+  let week = 0;
+  for (let monday = mondayOf(semester.start); monday <= date; monday = addDaysToKey(monday, 7)) {
+    if (!isBreakWeek(semester, monday)) week++;
+  }
+  return week;
+}
+
+/**
+ * Classes held from one day to another, inclusive, in date and time order.
+ */
+export function classesBetween(semester: Semester | null, from: string, to: string): ClassOccurrence[] {
+  if (!semester?.visible) return [];
+  const classes: ClassOccurrence[] = [];
+  for (let date = from < semester.start ? semester.start : from; date <= to && date <= semester.end; date = addDaysToKey(date, 1)) {
+    if (inBreak(semester, date)) continue;
+    const weekday = parseDateKey(date).getDay();
+    semester.sessions
+      .filter((session) => session.weekday === weekday)
+      .sort((a, b) => toMinutes(a.start) - toMinutes(b.start))
+      .forEach((session) => classes.push({ ...session, date }));
+  }
+  return classes;
+}
+
+// ---- Pasting ---------------------------------------------------------------------
+
+const WEEKDAY_NAMES: [RegExp, number][] = [
+  [/^(sun(day)?|星期[日天]|禮拜[日天]|週日|周日|[日天])$/i, 0],
+  [/^(mon(day)?|星期一|禮拜一|週一|周一|一)$/i, 1],
+  [/^(tue(s|sday)?|星期二|禮拜二|週二|周二|二)$/i, 2],
+  [/^(wed(nesday)?|星期三|禮拜三|週三|周三|三)$/i, 3],
+  [/^(thu(r|rs|rsday)?|星期四|禮拜四|週四|周四|四)$/i, 4],
+  [/^(fri(day)?|星期五|禮拜五|週五|周五|五)$/i, 5],
+  [/^(sat(urday)?|星期六|禮拜六|週六|周六|六)$/i, 6],
+];
+
+const SESSION_LINE = /^\s*([^\s,]+)[\s,]+([^\s,]+)[\s,]+(\d{1,2}:\d{2})\s*[-–~至]\s*(\d{1,2}:\d{2})(?:[\s,]+(.*?))?\s*$/;
+
+const padTime = (time: string) => time.padStart(5, "0");
+
+/**
+ * Sessions read from pasted lines, and the (1-based) numbers of lines that couldn't be read.
+ */
+export function parseSessions(text: string): { sessions: ClassSession[]; badLines: number[] } {
+  const sessions: ClassSession[] = [];
+  const badLines: number[] = [];
+  const stamp = Date.now();
+  text.split(/\r?\n/).forEach((line, index) => {
+    if (!line.trim()) return;
+    const match = line.match(SESSION_LINE);
+    const weekday = match && WEEKDAY_NAMES.find(([name]) => name.test(match[2]))?.[1];
+    const start = match && padTime(match[3]);
+    const end = match && padTime(match[4]);
+    if (!match || weekday === undefined || weekday === null || !start || !end || end <= start) {
+      badLines.push(index + 1);
+      return;
+    }
+    sessions.push({
+      id: `${stamp}-${index}`,
+      course: match[1],
+      weekday,
+      start,
+      end,
+      ...(match[5] && { venue: match[5] }),
+    });
+  });
+  return { sessions, badLines };
+}
@@ -0,0 +1,64 @@
+import type { RecurrenceRule } from "./recurrence";
+import type { Reminder } from "./reminders";
+
+export type Category = {
+  id: string;
+  name: string;
+  color: string;
+};
+
+export type Priority = "high" | "medium" | "low";
+
+export type Subtask = {
+  id: string;
+  title: string;
+  done: boolean;
+};
+
+// A session of work on a task, set aside by the planner
+export type WorkBlock = {
+  date: string; // YYYY-MM-DD
+  start: string; // HH:MM
+  end: string; // HH:MM
+};
+
+// Changes to one occurrence of a repeating task, keyed by the date it was generated for
+export type OccurrenceOverride = {
+  title?: string;
+  date?: string; // moved to another day
+  start?: string;
+  end?: string;
+  completed?: boolean;
+  doing?: boolean;
+  cancelled?: boolean; // skipped, like an iCalendar EXDATE
+};
+
+export type Task = {
+  id: string;
+  title: string;
+  date: string; // YYYY-MM-DD, the first occurrence of a repeating task
+  start?: string; // HH:MM; tasks without a start time are all-day
+  end?: string; // HH:MM, after start
+  completed: boolean;
+  doing?: boolean; // started; in the board's Doing column until completed
+  categoryId?: string;
+  recurrence?: RecurrenceRule;
+  overrides?: Record<string, OccurrenceOverride>;
+  uid?: string; // iCalendar UID of an imported event or to-do
+  reminders?: Reminder[];
+  // Details shared by every occurrence of a repeating task
+  notes?: string;
+  priority?: Priority; // none when unset
+  due?: string; // HH:MM deadline on the task's day
+  subtasks?: Subtask[];
+  projectId?: string;
+  milestoneId?: string; // one of the project's milestones
+  blockedBy?: string[]; // ids of tasks that have to be finished first
+  estimate?: number; // minutes of work the task needs
+  workBlocks?: WorkBlock[]; // accepted planner sessions
+};
+
+// A task as it appears on one day; occurrenceDate is set for occurrences of a repeating task
+export type TaskOccurrence = Task & {
+  occurrenceDate?: string;
+};
@@ -0,0 +1,75 @@
+import { useEffect, useRef, useState } from "react";
+import type { PointerEvent as ReactPointerEvent } from "react";
+
+/**
+ * Dragging tasks onto days, or board columns, with a mouse, pen or finger
+ * - Built on pointer events rather than HTML5 drag and drop, which touch browsers mostly don't fire
+ * - Any element with a data-drop-date="YYYY-MM-DD" attribute is a drop target; other kinds of target use data-drop-<kind>
+ * - A drag only starts once the pointer has moved a few pixels, so taps and clicks still work
+ */
+
+const DRAG_THRESHOLD = 6; // px
+
+export type DragState = {
+  count: number;
+  label: string;
+  x: number;
+  y: number;
+  over: string | null; // the drop target under the pointer
+};
+
+const targetAt = (attribute: string, x: number, y: number) =>
+  document.elementFromPoint(x, y)?.closest(`[${attribute}]`)?.getAttribute(attribute) ?? null;
+
+// The click that follows a drop would land on whatever is under the pointer, such as the modal backdrop
+const swallowNextClick = () => {
+  const stop = (event: MouseEvent) => event.stopPropagation();
+  window.addEventListener("click", stop, { capture: true, once: true });
+  setTimeout(() => window.removeEventListener("click", stop, { capture: true }), 0);
+};
+
+export function useDragMove<T>(onDrop: (items: T[], target: string) => void, kind = "date") {
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const onDropRef = useRef(onDrop);
+  const cleanupRef = useRef<(() => void) | null>(null);
+  onDropRef.current = onDrop;
+
+  useEffect(() => () => cleanupRef.current?.(), []);
+
+  const attribute = `data-drop-${kind}`;
+
+  const startDrag = (event: ReactPointerEvent, items: T[], label: string) => {
+    if (!event.isPrimary || event.button !== 0 || items.length === 0) return;
+    const origin = { x: event.clientX, y: event.clientY };
+    let started = false;
+
+    const move = (e: PointerEvent) => {
+      if (!started && Math.hypot(e.clientX - origin.x, e.clientY - origin.y) < DRAG_THRESHOLD) return;
+      started = true;
+      e.preventDefault();
+      setDrag({ count: items.length, label, x: e.clientX, y: e.clientY, over: targetAt(attribute, e.clientX, e.clientY) });
+    };
+    const end = (e: PointerEvent) => {
+      cleanup();
+      if (!started) return;
+      setDrag(null);
+      swallowNextClick();
+      const target = e.type === "pointerup" ? targetAt(attribute, e.clientX, e.clientY) : null;
+      if (target) onDropRef.current(items, target);
+    };
+    const cleanup = () => {
+      window.removeEventListener("pointermove", move);
+      window.removeEventListener("pointerup", end);
+      window.removeEventListener("pointercancel", end);
+      cleanupRef.current = null;
+    };
+
+    cleanupRef.current?.();
+    window.addEventListener("pointermove", move, { passive: false });
+    window.addEventListener("pointerup", end);
+    window.addEventListener("pointercancel", end);
+    cleanupRef.current = cleanup;
+  };
+
+  return { drag, startDrag };
+}
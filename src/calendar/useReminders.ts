@@ -0,0 +1,225 @@
+import { useEffect, useRef } from "react";
+import { addDaysToKey, formatTime, parseDateKey, toDateKey } from "./dates";
+import {
+  DueReminder,
+  ENABLED_KEY,
+  dueReminders,
+  loadReminderState,
+  markFired,
+  saveReminderState,
+  snoozeReminder
+} from "./reminders";
+import type { Task } from "./types";
+
+/**
+ * Delivers task reminders while any BA14 grid page is open, even with Calendar + To-Do closed
+ * - Checks the saved tasks every half minute and shows due reminders as system notifications
+ * - Notifications go through the reminder service worker once it is active, so they can offer snooze actions;
+ *   browsers without one get a plain Notification
+ * - A reminder only counts as fired once its notification is shown, so a failed one is tried again
+ * - Snoozes chosen on a notification are left in IndexedDB by the worker and applied on the next check
+ * - Clicking a notification brings the page forward and opens the calendar, and hands the reminder to the page
+ *   so it can offer a snooze there; not every browser shows notification actions, and plain Notifications have none
+ */
+
+const TRANSLATIONS = {
+  EN: {
+    today: "Today",
+    tomorrow: "Tomorrow",
+    allDay: "All day",
+    snooze10: "Snooze 10 min",
+    snooze60: "Snooze 1 hour"
+  },
+  粵: {
+    today: "今日",
+    tomorrow: "聽日",
+    allDay: "全日",
+    snooze10: "10 分鐘後再提",
+    snooze60: "1 個鐘後再提"
+  }
+} as const;
+
+const CHECK_INTERVAL_MS = 30 * 1000;
+
+const SERVICE_WORKER_URL = `${import.meta.env.BASE_URL}reminder-sw.js`;
+
+export const remindersSupported = () => typeof window !== "undefined" && "Notification" in window;
+
+export const remindersEnabled = () =>
+  remindersSupported() && localStorage.getItem(ENABLED_KEY) === "true" && Notification.permission === "granted";
+
+/**
+ * Turns reminders on (asking for permission if needed) or off. Resolves to whether they are on.
+ */
+export async function setRemindersEnabled(enabled: boolean): Promise<boolean> {
+  if (!enabled || !remindersSupported()) {
+    localStorage.setItem(ENABLED_KEY, "false");
+    return false;
+  }
+  const permission = Notification.permission === "default" ? await Notification.requestPermission() : Notification.permission;
+  localStorage.setItem(ENABLED_KEY, String(permission === "granted"));
+  return permission === "granted";
+}
+
+// Shared with public/reminder-sw.js
+const DB_NAME = "calendar_reminders";
+const STORE = "snoozes";
+
+type WorkerSnooze = { key: string; minutes: number; at: number };
+
+/**
+ * Snoozes the service worker recorded since the last check, removed from its store as they are read.
+ */
+function takeWorkerSnoozes(): Promise<WorkerSnooze[]> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE);
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => {
+      const db = request.result;
+      const store = db.transaction(STORE, "readwrite").objectStore(STORE);
+      const keys = store.getAllKeys();
+      const values = store.getAll();
+      store.clear();
+      store.transaction.oncomplete = () => {
+        db.close();
+        resolve(keys.result.map((key, i) => ({ key: String(key), ...values.result[i] })));
+      };
+      store.transaction.onerror = () => {
+        db.close();
+        reject(store.transaction.error);
+      };
+    };
+  });
+}
+
+export type ClickedReminder = {
+  key: string;
+  title: string;
+};
+
+// Set by the service worker when a click has to open a new page
+const REMINDER_PARAM = "reminder";
+const REMINDER_TITLE_PARAM = "reminderTitle";
+
+/**
+ * Snoozes a reminder from the page, e.g. after its notification was clicked.
+ */
+export const snoozeFromPage = (key: string, minutes: number) =>
+  saveReminderState(snoozeReminder(loadReminderState(), key, minutes));
+
+const readTasks = (): Task[] => {
+  try {
+    const saved = localStorage.getItem('calendar_tasks');
+    if (saved) return JSON.parse(saved);
+  } catch (error) {
+    console.error('Failed to load tasks:', error);
+  }
+  return [];
+};
+
+export function useReminders(lang: "EN" | "粵", onOpen: (reminder: ClickedReminder) => void) {
+  const langRef = useRef(lang);
+  const onOpenRef = useRef(onOpen);
+  langRef.current = lang;
+  onOpenRef.current = onOpen;
+
+  useEffect(() => {
+    if (!remindersSupported()) return;
+
+    const params = new URLSearchParams(window.location.search);
+    const openedKey = params.get(REMINDER_PARAM);
+    if (openedKey) {
+      onOpenRef.current({ key: openedKey, title: params.get(REMINDER_TITLE_PARAM) ?? "" });
+      params.delete(REMINDER_PARAM);
+      params.delete(REMINDER_TITLE_PARAM);
+      const search = params.toString();
+      window.history.replaceState(window.history.state, "", `${window.location.pathname}${search ? `?${search}` : ''}${window.location.hash}`);
+    }
+
+    // register() can resolve before a worker is active, and showNotification fails until one is
+    const registration = navigator.serviceWorker
+      ?.register(SERVICE_WORKER_URL)
+      .then(() => navigator.serviceWorker.ready)
+      .catch((error) => {
+        console.error('Failed to register reminder service worker:', error);
+        return undefined;
+      });
+    // Keys being shown right now, so a slow notification isn't shown twice by the next check
+    const showing = new Set<string>();
+
+    const show = async ({ key, task }: DueReminder) => {
+      const t = TRANSLATIONS[langRef.current];
+      const locale = langRef.current === "粵" ? "zh-HK" : "en-US";
+      const today = toDateKey(new Date());
+      const day = task.date === today
+        ? t.today
+        : task.date === addDaysToKey(today, 1)
+          ? t.tomorrow
+          : parseDateKey(task.date).toLocaleDateString(locale, { weekday: 'short', month: 'short', day: 'numeric' });
+      const time = task.start
+        ? `${formatTime(task.start, locale)}${task.end ? `–${formatTime(task.end, locale)}` : ''}`
+        : t.allDay;
+      const body = `${day} · ${time}`;
+
+      const worker = await registration;
+      if (worker) {
+        await worker.showNotification(task.title, {
+          body,
+          tag: key,
+          requireInteraction: true,
+          data: { key, url: window.location.href },
+          // Not yet in TypeScript's DOM types; ignored by browsers without notification actions
+          ...({ actions: [{ action: "snooze-10", title: t.snooze10 }, { action: "snooze-60", title: t.snooze60 }] } as object)
+        });
+      } else {
+        const notification = new Notification(task.title, { body, tag: key });
+        notification.onclick = () => {
+          window.focus();
+          onOpenRef.current({ key, title: task.title });
+        };
+      }
+    };
+
+    const check = async () => {
+      if (!remindersEnabled()) return;
+      if (navigator.serviceWorker) {
+        try {
+          const snoozes = await takeWorkerSnoozes();
+          if (snoozes.length > 0) {
+            saveReminderState(snoozes.reduce(
+              (state, { key, minutes, at }) => snoozeReminder(state, key, minutes, at),
+              loadReminderState()
+            ));
+          }
+        } catch (error) {
+          console.error('Failed to load snoozed reminders:', error);
+        }
+      }
+      const due = dueReminders(readTasks(), loadReminderState()).filter((reminder) => !showing.has(reminder.key));
+      due.forEach((reminder) => {
+        showing.add(reminder.key);
+        show(reminder)
+          .then(() => saveReminderState(markFired(loadReminderState(), [reminder.key])))
+          .catch((error) => console.error('Failed to show reminder:', error))
+          .finally(() => showing.delete(reminder.key));
+      });
+    };
+
+    const onMessage = (event: MessageEvent) => {
+      if (event.data?.type === "reminder-snooze") {
+        check();
+      } else if (event.data?.type === "reminder-open") {
+        onOpenRef.current({ key: event.data.key, title: event.data.title ?? "" });
+      }
+    };
+
+    navigator.serviceWorker?.addEventListener("message", onMessage);
+    check();
+    const timer = setInterval(check, CHECK_INTERVAL_MS);
+    return () => {
+      clearInterval(timer);
+      navigator.serviceWorker?.removeEventListener("message", onMessage);
+    };
+  }, []);
+}
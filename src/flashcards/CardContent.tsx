@@ -0,0 +1,91 @@
+import React, { useMemo } from "react";
+import katex from "katex";
+import "katex/dist/katex.min.css";
+import { useMediaUrl } from "./media";
+import { Block, Inline, parseInline, parseMarkdown } from "./markdown";
+
+/**
+ * Card face renderer
+ * - Markdown (see markdown.ts) with preserved line breaks
+ * - $inline$ and $$display$$ LaTeX through KaTeX
+ * - ![alt](file) embeds an image from the deck's media store
+ * - [sound:file] (Anki syntax) embeds an audio player
+ * - `inline` renders one run of text without block elements, for quiz options
+ */
+
+function MediaImage({ deckId, name, alt }: { deckId: string; name: string; alt: string }) {
+  const url = useMediaUrl(deckId, name);
+  if (!url) return <span className="opacity-60">[{alt || name}]</span>;
+  return <img src={url} alt={alt} className="inline-block max-w-full max-h-48 rounded-lg align-middle" />;
+}
+
+function MediaAudio({ deckId, name }: { deckId: string; name: string }) {
+  const url = useMediaUrl(deckId, name);
+  if (!url) return <span className="opacity-60">[{name}]</span>;
+  return <audio src={url} controls className="inline-block align-middle" onClick={(e) => e.stopPropagation()} />;
+}
+
+function MathFormula({ tex, display }: { tex: string; display: boolean }) {
+  // KaTeX escapes its input and, with trust off, never emits links or scripts
+  const html = useMemo(() => katex.renderToString(tex, { displayMode: display, throwOnError: false }), [tex, display]);
+  return display
+    ? <span className="block my-2 overflow-x-auto" dangerouslySetInnerHTML={{ __html: html }} />
+    : <span dangerouslySetInnerHTML={{ __html: html }} />;
+}
+
+const MARK_CLASSES = {
+  gap: "px-1.5 rounded-md bg-[#0A84FF]/10 text-[#0A84FF]",
+  answer: "px-1.5 rounded-md bg-white text-[#0A84FF]",
+};
+
+function renderInline(nodes: Inline[], deckId: string): React.ReactNode[] {
+  return nodes.map((node, i) => {
+    switch (node.type) {
+      case "text": return <React.Fragment key={i}>{node.text}</React.Fragment>;
+      case "break": return <br key={i} />;
+      case "strong": return <strong key={i}>{renderInline(node.children, deckId)}</strong>;
+      case "em": return <em key={i}>{renderInline(node.children, deckId)}</em>;
+      case "del": return <del key={i}>{renderInline(node.children, deckId)}</del>;
+      case "code": return <code key={i} className="px-1 py-0.5 rounded bg-black/5 dark:bg-white/10 font-mono text-[0.9em]">{node.text}</code>;
+      case "math": return <MathFormula key={i} tex={node.tex} display={node.display} />;
+      case "image": return <MediaImage key={i} deckId={deckId} name={node.name} alt={node.alt} />;
+      case "sound": return <MediaAudio key={i} deckId={deckId} name={node.name} />;
+      case "mark": return <span key={i} className={MARK_CLASSES[node.kind]}>{renderInline(node.children, deckId)}</span>;
+      case "link":
+        return (
+          <a key={i} href={node.href} target="_blank" rel="noopener noreferrer" onClick={(e) => e.stopPropagation()} className="underline">
+            {renderInline(node.children, deckId)}
+          </a>
+        );
+    }
+  });
+}
+
+const HEADING_CLASSES = ["text-[1.4em]", "text-[1.25em]", "text-[1.1em]", "text-[1em]", "text-[1em]", "text-[1em]"];
+
+function renderBlocks(blocks: Block[], deckId: string): React.ReactNode[] {
+  return blocks.map((block, i) => {
+    switch (block.type) {
+      case "paragraph": return <p key={i}>{renderInline(block.children, deckId)}</p>;
+      case "heading": return <p key={i} className={`font-bold ${HEADING_CLASSES[block.level - 1]}`}>{renderInline(block.children, deckId)}</p>;
+      case "code": return <pre key={i} className="text-left text-[0.8em] font-mono p-3 rounded-lg bg-black/5 dark:bg-white/10 overflow-x-auto">{block.text}</pre>;
+      case "math": return <MathFormula key={i} tex={block.tex} display />;
+      case "rule": return <hr key={i} className="border-current opacity-20" />;
+      case "quote": return <div key={i} className="pl-3 border-l-4 border-current opacity-70 space-y-2">{renderBlocks(block.children, deckId)}</div>;
+      case "list": {
+        const items = block.items.map((item, j) => <li key={j}>{renderInline(item, deckId)}</li>);
+        return block.ordered
+          ? <ol key={i} start={block.start} className="inline-block text-left list-decimal pl-6">{items}</ol>
+          : <ul key={i} className="inline-block text-left list-disc pl-6">{items}</ul>;
+      }
+    }
+  });
+}
+
+export default function CardContent({ text, deckId, inline = false }: { text: string; deckId: string; inline?: boolean }) {
+  const content = useMemo(
+    () => (inline ? renderInline(parseInline(text), deckId) : renderBlocks(parseMarkdown(text), deckId)),
+    [text, deckId, inline]
+  );
+  return inline ? <span>{content}</span> : <span className="block space-y-2">{content}</span>;
+}
@@ -0,0 +1,331 @@
+import React, { useState } from "react";
+import { Search, Pencil, Check, X, Trash2, FolderInput, Copy, RotateCcw } from "lucide-react";
+import CardContent from "./CardContent";
+import { hasCloze } from "./cloze";
+import { imageInputProps } from "./media";
+import { isDue, isMastered } from "./scheduler";
+import type { Deck, Flashcard } from "./types";
+
+/**
+ * Card Manager — browse and edit the cards of one deck
+ * - Search across fronts and backs
+ * - Inline editing that keeps review progress (editing a cloze note updates all its cards)
+ * - Multi-select with bulk delete, move/copy to another deck and progress reset
+ */
+
+const TRANSLATIONS = {
+  EN: {
+    search: "Search cards...",
+    selectAll: "Select all",
+    selected: "selected",
+    delete: "Delete",
+    moveTo: "Move to…",
+    copyTo: "Copy to…",
+    resetProgress: "Reset progress",
+    confirmDelete: (n: number) => `Delete ${n} card${n === 1 ? '' : 's'}? This cannot be undone.`,
+    confirmReset: (n: number) => `Reset progress for ${n} card${n === 1 ? '' : 's'}?`,
+    noMatches: "No cards match your search",
+    edit: "Edit",
+    save: "Save",
+    cancel: "Cancel",
+    new: "New",
+    due: "Due",
+    mastered: "Mastered",
+    learning: "Learning"
+  },
+  粵: {
+    search: "搜尋卡片...",
+    selectAll: "全選",
+    selected: "已揀",
+    delete: "刪除",
+    moveTo: "搬去…",
+    copyTo: "複製去…",
+    resetProgress: "重設進度",
+    confirmDelete: (n: number) => `刪除 ${n} 張卡？刪咗就冇得返轉頭。`,
+    confirmReset: (n: number) => `重設 ${n} 張卡嘅進度？`,
+    noMatches: "冇卡符合搜尋",
+    edit: "編輯",
+    save: "儲存",
+    cancel: "取消",
+    new: "新卡",
+    due: "到期",
+    mastered: "已掌握",
+    learning: "學緊"
+  }
+} as const;
+
+type Strings = (typeof TRANSLATIONS)[keyof typeof TRANSLATIONS];
+
+const matches = (card: Flashcard, query: string) => {
+  const q = query.trim().toLowerCase();
+  return !q || card.front.toLowerCase().includes(q) || card.back.toLowerCase().includes(q);
+};
+
+function StatusBadge({ card, t }: { card: Flashcard; t: Strings }) {
+  const [label, color] = card.schedule.state === "new"
+    ? [t.new, "#0A84FF"]
+    : isMastered(card.schedule)
+      ? [t.mastered, "#30D158"]
+      : isDue(card.schedule)
+        ? [t.due, "#FF375F"]
+        : [t.learning, "#FF9F0A"];
+  return (
+    <span
+      className="inline-block px-2 py-0.5 text-xs font-medium rounded flex-shrink-0"
+      style={{ backgroundColor: `${color}20`, color }}
+    >
+      {label}
+    </span>
+  );
+}
+
+function CardRow({
+  card,
+  deckId,
+  selected,
+  onSelect,
+  onSave,
+  t
+}: {
+  card: Flashcard;
+  deckId: string;
+  selected: boolean;
+  onSelect: (selected: boolean) => void;
+  onSave: (front: string, back: string) => void;
+  t: Strings;
+}) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [front, setFront] = useState(card.front);
+  const [back, setBack] = useState(card.back);
+
+  const startEditing = () => {
+    setFront(card.front);
+    setBack(card.back);
+    setIsEditing(true);
+  };
+
+  // Cloze notes carry their answers in the text, so the extra field may stay empty
+  const isCloze = card.type === "cloze";
+  const canSave = front.trim() !== "" && (isCloze ? hasCloze(front) : back.trim() !== "");
+
+  const save = () => {
+    if (!canSave) return;
+    onSave(front.trim(), back.trim());
+    setIsEditing(false);
+  };
+
+  const inputClass = "w-full px-3 py-2 bg-[#F5F5F7] dark:bg-[#1C1C1E] border border-black/10 dark:border-white/10 rounded-lg text-sm text-[#1D1D1F] dark:text-white outline-none focus:ring-2 focus:ring-[#0A84FF]/50 transition-all duration-150 resize-y";
+
+  return (
+    <div className={`group flex items-start gap-3 p-3 rounded-lg transition-all duration-150 ${selected ? 'bg-[#0A84FF]/10' : 'bg-white dark:bg-[#2C2C2E]'}`}>
+      <input
+        type="checkbox"
+        checked={selected}
+        onChange={(e) => onSelect(e.target.checked)}
+        className="mt-1 flex-shrink-0"
+      />
+      {isEditing ? (
+        <div className="flex-1 space-y-2">
+          <textarea
+            value={front}
+            onChange={(e) => setFront(e.target.value)}
+            {...imageInputProps(deckId, setFront)}
+            rows={2}
+            className={inputClass}
+            autoFocus
+          />
+          <textarea
+            value={back}
+            onChange={(e) => setBack(e.target.value)}
+            {...imageInputProps(deckId, setBack)}
+            onKeyDown={(e) => (e.metaKey || e.ctrlKey) && e.key === 'Enter' && save()}
+            rows={2}
+            className={inputClass}
+          />
+          <div className="flex gap-2">
+            <button
+              onClick={save}
+              disabled={!canSave}
+              className="px-3 py-1.5 bg-[#30D158] text-white rounded-lg text-xs font-semibold hover:bg-[#30D158]/90 disabled:opacity-40 flex items-center gap-1"
+            >
+              <Check size={14} />
+              {t.save}
+            </button>
+            <button
+              onClick={() => setIsEditing(false)}
+              className="px-3 py-1.5 bg-[#F5F5F7] dark:bg-[#1C1C1E] text-[#1D1D1F] dark:text-white rounded-lg text-xs font-semibold hover:bg-[#E8E8ED] dark:hover:bg-[#3A3A3C] flex items-center gap-1"
+            >
+              <X size={14} />
+              {t.cancel}
+            </button>
+          </div>
+        </div>
+      ) : (
+        <>
+          <div className="flex-1 min-w-0 cursor-text" onDoubleClick={startEditing}>
+            <div className="text-sm font-semibold text-[#1D1D1F] dark:text-white break-words [&_img]:max-h-16">
+              <CardContent text={card.front} deckId={deckId} />
+            </div>
+            <div className="text-sm text-[#86868B] dark:text-white/60 break-words mt-0.5 [&_img]:max-h-16">
+              <CardContent text={card.back} deckId={deckId} />
+            </div>
+          </div>
+          {card.type === "cloze" && (
+            <span className="inline-block px-2 py-0.5 text-xs font-medium rounded flex-shrink-0 bg-[#86868B]/15 text-[#86868B]">
+              C{card.cloze}
+            </span>
+          )}
+          <StatusBadge card={card} t={t} />
+          <button
+            onClick={startEditing}
+            className="flex-shrink-0 opacity-0 group-hover:opacity-100 focus:opacity-100 p-1.5 text-[#0A84FF] hover:bg-[#0A84FF]/10 rounded transition-all duration-150"
+            title={t.edit}
+          >
+            <Pencil size={14} />
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default function CardManager({
+  lang,
+  deck,
+  decks,
+  onEditCard,
+  onDeleteCards,
+  onTransferCards,
+  onResetCards
+}: {
+  lang: "EN" | "粵";
+  deck: Deck;
+  decks: Deck[];
+  onEditCard: (cardId: string, front: string, back: string) => void;
+  onDeleteCards: (cardIds: string[]) => void;
+  onTransferCards: (cardIds: string[], targetDeckId: string, mode: "move" | "copy") => void;
+  onResetCards: (cardIds: string[]) => void;
+}) {
+  const t = TRANSLATIONS[lang];
+  const [query, setQuery] = useState("");
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+
+  const visible = deck.cards.filter(c => matches(c, query));
+  // Only act on selected cards that still exist and are visible
+  const selected = visible.filter(c => selectedIds.has(c.id)).map(c => c.id);
+  const allSelected = visible.length > 0 && selected.length === visible.length;
+  const otherDecks = decks.filter(d => d.id !== deck.id);
+
+  const setSelected = (id: string, isSelected: boolean) => {
+    const next = new Set(selectedIds);
+    if (isSelected) next.add(id);
+    else next.delete(id);
+    setSelectedIds(next);
+  };
+
+  const toggleAll = () => {
+    setSelectedIds(allSelected ? new Set() : new Set(visible.map(c => c.id)));
+  };
+
+  const bulkDelete = () => {
+    if (confirm(t.confirmDelete(selected.length))) {
+      onDeleteCards(selected);
+      setSelectedIds(new Set());
+    }
+  };
+
+  const bulkReset = () => {
+    if (confirm(t.confirmReset(selected.length))) {
+      onResetCards(selected);
+    }
+  };
+
+  const bulkTransfer = (mode: "move" | "copy", targetDeckId: string) => {
+    if (!targetDeckId) return;
+    onTransferCards(selected, targetDeckId, mode);
+    if (mode === "move") setSelectedIds(new Set());
+  };
+
+  const actionClass = "px-3 py-1.5 bg-white dark:bg-[#2C2C2E] rounded-lg text-xs font-medium text-[#1D1D1F] dark:text-white hover:bg-[#E8E8ED] dark:hover:bg-[#3A3A3C] transition-all duration-150 flex items-center gap-1.5";
+
+  return (
+    <div className="space-y-3 mb-4">
+      {/* Search */}
+      <div className="relative">
+        <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-[#86868B] dark:text-white/40" />
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder={t.search}
+          className="w-full pl-9 pr-4 py-2.5 bg-white dark:bg-[#2C2C2E] border border-black/10 dark:border-white/10 rounded-lg text-sm text-[#1D1D1F] dark:text-white placeholder-[#86868B] dark:placeholder-white/40 outline-none focus:ring-2 focus:ring-[#0A84FF]/50 transition-all duration-150"
+        />
+      </div>
+
+      {/* Bulk actions */}
+      <div className="flex flex-wrap items-center gap-2">
+        <label className="flex items-center gap-2 text-xs font-medium text-[#86868B] dark:text-white/60 mr-1">
+          <input type="checkbox" checked={allSelected} onChange={toggleAll} />
+          {selected.length > 0 ? `${selected.length} ${t.selected}` : t.selectAll}
+        </label>
+        {selected.length > 0 && (
+          <>
+            <button onClick={bulkDelete} className={`${actionClass} !text-[#FF375F]`}>
+              <Trash2 size={14} />
+              {t.delete}
+            </button>
+            <button onClick={bulkReset} className={actionClass}>
+              <RotateCcw size={14} />
+              {t.resetProgress}
+            </button>
+            {otherDecks.length > 0 && (
+              <>
+                <label className={actionClass}>
+                  <FolderInput size={14} />
+                  <select
+                    value=""
+                    onChange={(e) => bulkTransfer("move", e.target.value)}
+                    className="bg-transparent outline-none cursor-pointer"
+                  >
+                    <option value="">{t.moveTo}</option>
+                    {otherDecks.map(d => <option key={d.id} value={d.id}>{d.name}</option>)}
+                  </select>
+                </label>
+                <label className={actionClass}>
+                  <Copy size={14} />
+                  <select
+                    value=""
+                    onChange={(e) => bulkTransfer("copy", e.target.value)}
+                    className="bg-transparent outline-none cursor-pointer"
+                  >
+                    <option value="">{t.copyTo}</option>
+                    {otherDecks.map(d => <option key={d.id} value={d.id}>{d.name}</option>)}
+                  </select>
+                </label>
+              </>
+            )}
+          </>
+        )}
+      </div>
+
+      {/* Cards */}
+      <div className="space-y-1.5 max-h-96 overflow-y-auto">
+        {visible.length === 0 ? (
+          <p className="text-sm text-[#86868B] dark:text-white/60 text-center py-6">{t.noMatches}</p>
+        ) : (
+          visible.map(card => (
+            <CardRow
+              key={card.id}
+              card={card}
+              deckId={deck.id}
+              selected={selectedIds.has(card.id)}
+              onSelect={(isSelected) => setSelected(card.id, isSelected)}
+              onSave={(front, back) => onEditCard(card.id, front, back)}
+              t={t}
+            />
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,230 @@
+import React, { useMemo } from "react";
+import { X, BarChart3 } from "lucide-react";
+import { rendererFor } from "./cardTypes";
+import { deckReviews } from "./reviewLog";
+import { heatmapWeeks, retentionRate, learnedOverTime, hardestCards, studyStreak } from "./stats";
+import type { Deck } from "./types";
+
+/**
+ * Deck Statistics — is the studying working?
+ * - Review count, 30-day retention, cards learned, streak and time per review
+ * - Daily review heatmap for the last six months
+ * - Cards learned over time
+ * - The cards forgotten most often
+ * - Totals cover the deck's whole history, or say where it starts once the oldest reviews were trimmed
+ */
+
+const TRANSLATIONS = {
+  EN: {
+    title: "Statistics",
+    reviews: "Reviews",
+    retention: "Retention (30 days)",
+    learned: "Cards learned",
+    streak: "Day streak",
+    timePerReview: "Per review",
+    seconds: "s",
+    heatmap: "Daily reviews",
+    reviewsOn: (n: number, date: string) => `${n} review${n === 1 ? '' : 's'} on ${date}`,
+    less: "Less",
+    more: "More",
+    learnedOverTime: "Cards learned over time",
+    hardest: "Hardest cards",
+    forgotten: (again: number, reviews: number) => `forgotten ${again}× in ${reviews} reviews`,
+    noHardCards: "No forgotten cards yet — nice work!",
+    empty: "No reviews yet. Study this deck to see your statistics.",
+    since: (date: string) => `Reviews since ${date}`
+  },
+  粵: {
+    title: "統計",
+    reviews: "溫習次數",
+    retention: "記得率（30 日）",
+    learned: "已學識",
+    streak: "連續日數",
+    timePerReview: "每張",
+    seconds: "秒",
+    heatmap: "每日溫習",
+    reviewsOn: (n: number, date: string) => `${date}：溫咗 ${n} 次`,
+    less: "少",
+    more: "多",
+    learnedOverTime: "累積學識嘅卡",
+    hardest: "最難嘅卡",
+    forgotten: (again: number, reviews: number) => `${reviews} 次入面唔記得 ${again} 次`,
+    noHardCards: "暫時未有唔記得嘅卡，做得好！",
+    empty: "未有溫習紀錄。溫吓呢個卡組就會見到統計。",
+    since: (date: string) => `${date} 起嘅溫習紀錄`
+  }
+} as const;
+
+const HEATMAP_WEEKS = 26;
+const RETENTION_DAYS = 30;
+
+// Review counts at which a heatmap cell steps up a shade
+const HEAT_LEVELS = [1, 5, 10, 20];
+const HEAT_OPACITY = [0.25, 0.45, 0.7, 1];
+
+const heatColor = (count: number) => {
+  const level = HEAT_LEVELS.filter((threshold) => count >= threshold).length;
+  return level === 0 ? undefined : `rgba(48, 209, 88, ${HEAT_OPACITY[level - 1]})`; // #30D158
+};
+
+function StatTile({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="p-4 bg-[#F5F5F7] dark:bg-[#1C1C1E] rounded-xl">
+      <p className="text-2xl font-bold text-[#1D1D1F] dark:text-white">{value}</p>
+      <p className="text-xs text-[#86868B] dark:text-white/60 mt-1">{label}</p>
+    </div>
+  );
+}
+
+function LearnedChart({ points, locale }: { points: { date: Date; total: number }[]; locale: string }) {
+  const width = 300;
+  const height = 80;
+  const max = Math.max(1, ...points.map((p) => p.total));
+  const x = (i: number) => (points.length === 1 ? width : (i / (points.length - 1)) * width);
+  const y = (total: number) => height - (total / max) * (height - 4);
+  const line = points.map((p, i) => `${x(i)},${y(p.total)}`).join(" ");
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${width} ${height}`} preserveAspectRatio="none" className="w-full h-24">
+        <polygon points={`0,${height} ${line} ${width},${height}`} fill="#0A84FF" fillOpacity={0.12} />
+        <polyline points={line} fill="none" stroke="#0A84FF" strokeWidth={2} vectorEffect="non-scaling-stroke" />
+      </svg>
+      <div className="flex justify-between text-xs text-[#86868B] dark:text-white/60 mt-1">
+        <span>{points[0].date.toLocaleDateString(locale, { month: "short", day: "numeric" })}</span>
+        <span className="font-semibold text-[#0A84FF]">{points[points.length - 1].total}</span>
+      </div>
+    </div>
+  );
+}
+
+export default function DeckStats({
+  lang,
+  deck,
+  onClose
+}: {
+  lang: "EN" | "粵";
+  deck: Deck;
+  onClose: () => void;
+}) {
+  const t = TRANSLATIONS[lang];
+  const locale = lang === "粵" ? "zh-HK" : "en-US";
+
+  const stats = useMemo(() => {
+    const { entries, trimmed } = deckReviews(deck.id);
+    const now = new Date();
+    const since = new Date(now.getFullYear(), now.getMonth(), now.getDate() - RETENTION_DAYS);
+    const learned = learnedOverTime(entries, now);
+    return {
+      entries,
+      since: trimmed ? new Date(entries[0].reviewedAt) : null,
+      weeks: heatmapWeeks(entries, HEATMAP_WEEKS, now),
+      retention: retentionRate(entries, since) ?? retentionRate(entries),
+      learned,
+      learnedCount: learned.length > 0 ? learned[learned.length - 1].total : 0,
+      streak: studyStreak(entries, now),
+      averageMs: entries.length > 0 ? entries.reduce((sum, e) => sum + e.durationMs, 0) / entries.length : 0,
+      hardest: hardestCards(entries, deck.cards)
+    };
+  }, [deck]);
+
+  return (
+    <div className="fixed inset-0 bg-black/40 dark:bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-6 animate-fadeIn">
+      <div className="bg-white dark:bg-[#0B0B0D] rounded-3xl shadow-2xl w-full max-w-3xl max-h-[90vh] flex flex-col animate-scaleIn">
+        {/* Header */}
+        <div className="px-8 py-6 border-b border-black/10 dark:border-white/10 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-[#0A84FF]/10 rounded-xl">
+              <BarChart3 size={20} className="text-[#0A84FF]" />
+            </div>
+            <div>
+              <h3 className="text-xl font-bold text-[#1D1D1F] dark:text-white">{t.title}</h3>
+              <p className="text-sm text-[#86868B] dark:text-white/60">
+                {deck.name}
+                {stats.since && ` · ${t.since(stats.since.toLocaleDateString(locale, { year: 'numeric', month: 'short', day: 'numeric' }))}`}
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-black/5 dark:hover:bg-white/10 rounded-full transition-all duration-150 hover:rotate-90"
+            aria-label="Close"
+          >
+            <X size={24} className="text-[#86868B] dark:text-white/60" />
+          </button>
+        </div>
+
+        {stats.entries.length === 0 ? (
+          <p className="px-8 py-16 text-center text-sm text-[#86868B] dark:text-white/60">{t.empty}</p>
+        ) : (
+          <div className="px-8 py-6 space-y-8 overflow-y-auto">
+            {/* Summary */}
+            <div className="grid grid-cols-2 sm:grid-cols-5 gap-3">
+              <StatTile label={t.reviews} value={String(stats.entries.length)} />
+              <StatTile label={t.retention} value={stats.retention === null ? "–" : `${Math.round(stats.retention * 100)}%`} />
+              <StatTile label={t.learned} value={String(stats.learnedCount)} />
+              <StatTile label={t.streak} value={String(stats.streak)} />
+              <StatTile label={t.timePerReview} value={`${(stats.averageMs / 1000).toFixed(1)}${t.seconds}`} />
+            </div>
+
+            {/* Heatmap */}
+            <section>
+              <h4 className="text-sm font-semibold text-[#1D1D1F] dark:text-white mb-3">{t.heatmap}</h4>
+              <div className="flex gap-[3px] overflow-x-auto pb-1">
+                {stats.weeks.map((week, w) => (
+                  <div key={w} className="flex flex-col gap-[3px]">
+                    {week.map((day) => (
+                      <div
+                        key={day.date.getTime()}
+                        title={day.isFuture ? undefined : t.reviewsOn(day.count, day.date.toLocaleDateString(locale))}
+                        className={`w-3 h-3 rounded-sm ${
+                          day.isFuture ? 'opacity-0' : day.count === 0 ? 'bg-black/5 dark:bg-white/10' : ''
+                        }`}
+                        style={{ backgroundColor: day.isFuture ? undefined : heatColor(day.count) }}
+                      />
+                    ))}
+                  </div>
+                ))}
+              </div>
+              <div className="flex items-center justify-end gap-1 mt-2 text-xs text-[#86868B] dark:text-white/60">
+                {t.less}
+                <div className="w-3 h-3 rounded-sm bg-black/5 dark:bg-white/10" />
+                {HEAT_LEVELS.map((level) => (
+                  <div key={level} className="w-3 h-3 rounded-sm" style={{ backgroundColor: heatColor(level) }} />
+                ))}
+                {t.more}
+              </div>
+            </section>
+
+            {/* Learned over time */}
+            {stats.learned.length > 0 && (
+              <section>
+                <h4 className="text-sm font-semibold text-[#1D1D1F] dark:text-white mb-3">{t.learnedOverTime}</h4>
+                <LearnedChart points={stats.learned} locale={locale} />
+              </section>
+            )}
+
+            {/* Hardest cards */}
+            <section>
+              <h4 className="text-sm font-semibold text-[#1D1D1F] dark:text-white mb-3">{t.hardest}</h4>
+              {stats.hardest.length === 0 ? (
+                <p className="text-sm text-[#86868B] dark:text-white/60">{t.noHardCards}</p>
+              ) : (
+                <div className="space-y-1.5">
+                  {stats.hardest.map(({ card, again, reviews }) => (
+                    <div key={card.id} className="flex items-center justify-between gap-3 p-3 bg-[#F5F5F7] dark:bg-[#1C1C1E] rounded-lg">
+                      <p className="text-sm font-medium text-[#1D1D1F] dark:text-white truncate">
+                        {rendererFor(card).question(card)}
+                      </p>
+                      <span className="text-xs font-medium text-[#FF375F] flex-shrink-0">{t.forgotten(again, reviews)}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </section>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,334 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { X, Upload, AlertCircle, Check } from "lucide-react";
+import { DelimiterFormat, DELIMITER_FORMATS, ParsedRow, parseDelimited, detectFormat, detectHeader, detectColumns } from "./csv";
+import { hasCloze } from "./cloze";
+
+/**
+ * Import Wizard — CSV/TSV/Quizlet text into a deck
+ * - File picker or paste
+ * - Detected delimiter and header row, both overridable; edits to pasted text detect again when the result changes
+ * - Front/back column mapping
+ * - Preview with per-row errors; only valid rows are imported
+ * - Rows whose front has {{c1::…}} markup become cloze cards, so their back is optional
+ */
+
+const TRANSLATIONS = {
+  EN: {
+    title: "Import Cards",
+    into: "Into",
+    chooseFile: "Choose File",
+    pastePlaceholder: "…or paste CSV, TSV or a Quizlet export here",
+    delimiter: "Delimiter",
+    detected: "detected",
+    formats: { comma: "Comma (,)", tab: "Tab", semicolon: "Semicolon (;)", quizlet: "Quizlet (tab + new line)" },
+    headerRow: "First row is a header",
+    frontColumn: "Front",
+    backColumn: "Back",
+    column: "Column",
+    line: "Line",
+    status: "Status",
+    ok: "OK",
+    errors: {
+      unterminatedQuote: "Quoted field never closes",
+      textAfterQuote: "Text after closing quote",
+      missingColumn: "Missing column",
+      emptyFront: "Front is empty",
+      emptyBack: "Back is empty",
+      sameColumn: "Front and back use the same column"
+    },
+    ready: "cards ready",
+    skipped: "rows will be skipped",
+    showingFirst: "Showing first",
+    rows: "rows",
+    cancel: "Cancel",
+    import: "Import"
+  },
+  粵: {
+    title: "匯入卡片",
+    into: "匯入到",
+    chooseFile: "揀檔案",
+    pastePlaceholder: "…或者喺度貼上 CSV、TSV 或者 Quizlet 匯出內容",
+    delimiter: "分隔符",
+    detected: "自動偵測",
+    formats: { comma: "逗號 (,)", tab: "Tab", semicolon: "分號 (;)", quizlet: "Quizlet（Tab＋換行）" },
+    headerRow: "第一行係標題",
+    frontColumn: "正面",
+    backColumn: "背面",
+    column: "欄",
+    line: "行",
+    status: "狀態",
+    ok: "正常",
+    errors: {
+      unterminatedQuote: "引號冇閂返",
+      textAfterQuote: "引號後面有多餘文字",
+      missingColumn: "欠咗欄",
+      emptyFront: "正面係空嘅",
+      emptyBack: "背面係空嘅",
+      sameColumn: "正面同背面用咗同一欄"
+    },
+    ready: "張卡準備好",
+    skipped: "行會略過",
+    showingFirst: "顯示頭",
+    rows: "行",
+    cancel: "取消",
+    import: "匯入"
+  }
+} as const;
+
+const PREVIEW_LIMIT = 100;
+
+// Pause in typing before edited text is detected again
+const DETECT_DELAY_MS = 400;
+
+type Detection = { format: DelimiterFormat; header: boolean; front: number; back: number };
+
+function detect(source: string): Detection {
+  const format = detectFormat(source);
+  const rows = parseDelimited(source, format);
+  const header = detectHeader(rows);
+  return { format, header, ...detectColumns(rows, header) };
+}
+
+const sameDetection = (a: Detection, b: Detection) =>
+  a.format === b.format && a.header === b.header && a.front === b.front && a.back === b.back;
+
+type RowError = keyof typeof TRANSLATIONS["EN"]["errors"];
+
+type CheckedRow = {
+  row: ParsedRow;
+  front: string;
+  back: string;
+  error?: RowError;
+};
+
+function checkRow(row: ParsedRow, frontCol: number, backCol: number): CheckedRow {
+  const front = (row.cells[frontCol] ?? "").trim();
+  const back = (row.cells[backCol] ?? "").trim();
+  let error: RowError | undefined = row.error;
+  if (!error && frontCol === backCol) error = "sameColumn";
+  if (!error && row.cells.length <= Math.max(frontCol, backCol)) error = "missingColumn";
+  if (!error && !front) error = "emptyFront";
+  if (!error && !back && !hasCloze(front)) error = "emptyBack";
+  return { row, front, back, error };
+}
+
+export default function ImportWizard({
+  lang,
+  deckName,
+  onImport,
+  onClose
+}: {
+  lang: "EN" | "粵";
+  deckName: string;
+  onImport: (cards: { front: string; back: string }[]) => void;
+  onClose: () => void;
+}) {
+  const t = TRANSLATIONS[lang];
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [text, setText] = useState("");
+  const [detected, setDetected] = useState<DelimiterFormat>("comma");
+  const [format, setFormat] = useState<DelimiterFormat>("comma");
+  const [hasHeader, setHasHeader] = useState(false);
+  const [frontCol, setFrontCol] = useState(0);
+  const [backCol, setBackCol] = useState(1);
+
+  const lastDetection = useRef<Detection | null>(null);
+
+  const applyDetection = (detection: Detection) => {
+    lastDetection.current = detection;
+    setDetected(detection.format);
+    setFormat(detection.format);
+    setHasHeader(detection.header);
+    setFrontCol(detection.front);
+    setBackCol(detection.back);
+  };
+
+  // New source text: re-run detection and reset the mapping
+  const loadText = (source: string) => {
+    setText(source);
+    applyDetection(detect(source));
+  };
+
+  // Edited text: detect again once typing pauses, but keep the user's choices unless the detection changed
+  useEffect(() => {
+    if (!text) return;
+    const timer = setTimeout(() => {
+      const detection = detect(text);
+      if (!lastDetection.current || !sameDetection(detection, lastDetection.current)) applyDetection(detection);
+    }, DETECT_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [text]);
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = (event) => loadText(event.target?.result as string);
+    reader.readAsText(file);
+  };
+
+  const rows = useMemo(() => parseDelimited(text, format), [text, format]);
+  const headerCells = hasHeader ? rows[0]?.cells ?? [] : [];
+  const dataRows = hasHeader ? rows.slice(1) : rows;
+  const columnCount = Math.max(2, ...rows.map(r => r.cells.length));
+  const checked = dataRows.map(row => checkRow(row, frontCol, backCol));
+  const valid = checked.filter(r => !r.error);
+  const invalidCount = checked.length - valid.length;
+
+  const columnLabel = (index: number) => headerCells[index]?.trim() || `${t.column} ${index + 1}`;
+
+  const selectClass = "px-3 py-2 bg-[#F5F5F7] dark:bg-[#1C1C1E] rounded-lg text-sm text-[#1D1D1F] dark:text-white border-none outline-none focus:ring-2 focus:ring-[#0A84FF]/50";
+
+  return (
+    <div className="fixed inset-0 bg-black/40 dark:bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4 sm:p-6 animate-fadeIn">
+      <div className="bg-white dark:bg-[#0B0B0D] rounded-2xl sm:rounded-3xl shadow-2xl w-full max-w-4xl max-h-[95vh] sm:max-h-[90vh] flex flex-col animate-scaleIn">
+        {/* Header */}
+        <div className="px-6 sm:px-8 py-5 border-b border-black/10 dark:border-white/10 flex items-center justify-between">
+          <div className="min-w-0">
+            <h3 className="text-xl font-bold text-[#1D1D1F] dark:text-white">{t.title}</h3>
+            <p className="text-sm text-[#86868B] dark:text-white/60 mt-1 truncate">{t.into} {deckName}</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-black/5 dark:hover:bg-white/10 rounded-full transition-all duration-150 hover:rotate-90"
+            aria-label="Close"
+          >
+            <X size={24} className="text-[#86868B] dark:text-white/60" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 sm:px-8 py-5 space-y-4">
+          {/* Source */}
+          <div className="flex flex-col sm:flex-row gap-2">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,.tsv,.txt"
+              onChange={handleFile}
+              className="hidden"
+            />
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="px-4 py-2.5 bg-[#0A84FF] text-white rounded-lg font-semibold hover:bg-[#0A84FF]/90 transition-all duration-150 flex items-center justify-center gap-2 whitespace-nowrap"
+            >
+              <Upload size={16} />
+              {t.chooseFile}
+            </button>
+            <textarea
+              value={text}
+              onChange={(e) => text ? setText(e.target.value) : loadText(e.target.value)}
+              placeholder={t.pastePlaceholder}
+              rows={3}
+              className="flex-1 px-4 py-2.5 bg-[#F5F5F7] dark:bg-[#1C1C1E] border border-black/10 dark:border-white/10 rounded-lg text-sm font-mono text-[#1D1D1F] dark:text-white placeholder-[#86868B] dark:placeholder-white/40 outline-none focus:ring-2 focus:ring-[#0A84FF]/50 transition-all duration-150"
+            />
+          </div>
+
+          {/* Options */}
+          {text && (
+            <div className="flex flex-wrap items-center gap-3 text-sm text-[#1D1D1F] dark:text-white">
+              <label className="flex items-center gap-2">
+                {t.delimiter}
+                <select value={format} onChange={(e) => setFormat(e.target.value as DelimiterFormat)} className={selectClass}>
+                  {DELIMITER_FORMATS.map(f => (
+                    <option key={f} value={f}>
+                      {t.formats[f]}{f === detected ? ` (${t.detected})` : ''}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex items-center gap-2">
+                <input type="checkbox" checked={hasHeader} onChange={(e) => setHasHeader(e.target.checked)} />
+                {t.headerRow}
+              </label>
+              <label className="flex items-center gap-2">
+                {t.frontColumn}
+                <select value={frontCol} onChange={(e) => setFrontCol(Number(e.target.value))} className={selectClass}>
+                  {Array.from({ length: columnCount }, (_, i) => <option key={i} value={i}>{columnLabel(i)}</option>)}
+                </select>
+              </label>
+              <label className="flex items-center gap-2">
+                {t.backColumn}
+                <select value={backCol} onChange={(e) => setBackCol(Number(e.target.value))} className={selectClass}>
+                  {Array.from({ length: columnCount }, (_, i) => <option key={i} value={i}>{columnLabel(i)}</option>)}
+                </select>
+              </label>
+            </div>
+          )}
+
+          {/* Preview */}
+          {checked.length > 0 && (
+            <div className="rounded-xl border border-black/10 dark:border-white/10 overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-[#F5F5F7] dark:bg-[#1C1C1E] text-left text-xs uppercase tracking-wider text-[#86868B] dark:text-white/60">
+                  <tr>
+                    <th className="px-3 py-2 font-semibold w-14">{t.line}</th>
+                    <th className="px-3 py-2 font-semibold">{t.frontColumn}</th>
+                    <th className="px-3 py-2 font-semibold">{t.backColumn}</th>
+                    <th className="px-3 py-2 font-semibold w-48">{t.status}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {checked.slice(0, PREVIEW_LIMIT).map(({ row, front, back, error }) => (
+                    <tr
+                      key={row.line}
+                      className={`border-t border-black/5 dark:border-white/5 align-top ${error ? 'bg-[#FF375F]/5' : ''}`}
+                    >
+                      <td className="px-3 py-2 text-[#86868B] dark:text-white/60 tabular-nums">{row.line}</td>
+                      <td className="px-3 py-2 text-[#1D1D1F] dark:text-white whitespace-pre-wrap break-words">{front}</td>
+                      <td className="px-3 py-2 text-[#1D1D1F] dark:text-white whitespace-pre-wrap break-words">{back}</td>
+                      <td className="px-3 py-2">
+                        {error ? (
+                          <span className="inline-flex items-center gap-1 text-[#FF375F] font-medium">
+                            <AlertCircle size={14} className="flex-shrink-0" />
+                            {t.errors[error]}
+                          </span>
+                        ) : (
+                          <span className="inline-flex items-center gap-1 text-[#30D158] font-medium">
+                            <Check size={14} />
+                            {t.ok}
+                          </span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {checked.length > PREVIEW_LIMIT && (
+                <div className="px-3 py-2 text-xs text-[#86868B] dark:text-white/60 border-t border-black/5 dark:border-white/5">
+                  {t.showingFirst} {PREVIEW_LIMIT} / {checked.length} {t.rows}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="px-6 sm:px-8 py-4 border-t border-black/10 dark:border-white/10 flex flex-col sm:flex-row items-stretch sm:items-center justify-between gap-3">
+          <p className="text-sm">
+            <span className="text-[#30D158] font-medium">{valid.length} {t.ready}</span>
+            {invalidCount > 0 && (
+              <span className="text-[#FF375F] font-medium"> • {invalidCount} {t.skipped}</span>
+            )}
+          </p>
+          <div className="flex gap-2">
+            <button
+              onClick={onClose}
+              className="flex-1 sm:flex-none px-5 py-2.5 bg-[#F5F5F7] dark:bg-[#1C1C1E] rounded-lg hover:bg-[#E8E8ED] dark:hover:bg-[#2C2C2E] text-sm font-medium text-[#1D1D1F] dark:text-white transition-all duration-150"
+            >
+              {t.cancel}
+            </button>
+            <button
+              onClick={() => onImport(valid.map(({ front, back }) => ({ front, back })))}
+              disabled={valid.length === 0}
+              className="flex-1 sm:flex-none px-5 py-2.5 bg-[#FFD60A] text-[#1D1D1F] rounded-lg font-semibold hover:bg-[#FFD60A]/90 disabled:opacity-40 disabled:cursor-not-allowed transition-all duration-150"
+            >
+              {t.import} {valid.length > 0 ? valid.length : ''}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,234 @@
+import React, { useEffect, useState } from "react";
+import { Check, X, ArrowRight } from "lucide-react";
+import CardContent from "./CardContent";
+import { AnswerCheck, answerKey, checkTypedAnswer, choiceOptions, expectedAnswer } from "./quiz";
+import type { Grade } from "./scheduler";
+import type { Flashcard } from "./types";
+
+/**
+ * Quiz controls shown under the card in study mode
+ * - TypedAnswer: type the answer, then see a character diff against the expected one
+ * - MultipleChoice: pick one of up to four answers (keys 1–4)
+ * - Both reveal the card once answered and grade it on Continue (Enter)
+ */
+
+const TRANSLATIONS = {
+  EN: {
+    typePlaceholder: "Type your answer...",
+    check: "Check",
+    dontKnow: "I don't know",
+    correct: "Correct!",
+    almost: "Almost — check the highlighted characters",
+    incorrect: "Not quite",
+    answer: "Answer:",
+    continue: "Continue"
+  },
+  粵: {
+    typePlaceholder: "輸入你嘅答案...",
+    check: "對答案",
+    dontKnow: "唔識",
+    correct: "啱晒！",
+    almost: "差少少 — 睇吓標示咗嘅字",
+    incorrect: "唔啱",
+    answer: "答案：",
+    continue: "繼續"
+  }
+} as const;
+
+type Strings = (typeof TRANSLATIONS)[keyof typeof TRANSLATIONS];
+
+const RESULT_COLORS: Record<Grade, string> = {
+  again: "#FF375F",
+  hard: "#FF9F0A",
+  good: "#30D158",
+  easy: "#0A84FF",
+};
+
+function ContinueButton({ grade, onGrade, t }: { grade: Grade; onGrade: (grade: Grade) => void; t: Strings }) {
+  // Enter moves on once the result is showing
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === 'Enter') {
+        e.preventDefault();
+        onGrade(grade);
+      }
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  });
+
+  return (
+    <button
+      onClick={() => onGrade(grade)}
+      className="w-full px-6 py-3 bg-[#0A84FF] text-white rounded-xl font-semibold hover:bg-[#0A84FF]/90 transition-all duration-150 flex items-center justify-center gap-2"
+    >
+      {t.continue}
+      <ArrowRight size={16} />
+    </button>
+  );
+}
+
+export function TypedAnswer({
+  lang,
+  card,
+  deckId,
+  onReveal,
+  onGrade
+}: {
+  lang: "EN" | "粵";
+  card: Flashcard;
+  deckId: string;
+  onReveal: () => void;
+  onGrade: (grade: Grade) => void;
+}) {
+  const t = TRANSLATIONS[lang];
+  const [typed, setTyped] = useState("");
+  const [result, setResult] = useState<AnswerCheck | null>(null);
+
+  const check = (answer: string) => {
+    setResult(checkTypedAnswer(answer, card));
+    onReveal();
+  };
+
+  if (!result) {
+    return (
+      <div className="space-y-2">
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (typed.trim()) check(typed);
+          }}
+          className="flex gap-2"
+        >
+          <input
+            type="text"
+            value={typed}
+            onChange={(e) => setTyped(e.target.value)}
+            placeholder={t.typePlaceholder}
+            autoFocus
+            className="flex-1 min-w-0 px-4 py-3 bg-[#F5F5F7] dark:bg-[#1C1C1E] border border-black/10 dark:border-white/10 rounded-xl text-[#1D1D1F] dark:text-white placeholder-[#86868B] dark:placeholder-white/40 outline-none focus:ring-2 focus:ring-[#0A84FF]/50 transition-all duration-150"
+          />
+          <button
+            type="submit"
+            disabled={!typed.trim()}
+            className="px-6 py-3 bg-[#0A84FF] text-white rounded-xl font-semibold hover:bg-[#0A84FF]/90 disabled:opacity-40 transition-all duration-150"
+          >
+            {t.check}
+          </button>
+        </form>
+        <button
+          onClick={() => check("")}
+          className="w-full text-sm text-[#86868B] dark:text-white/60 hover:text-[#1D1D1F] dark:hover:text-white transition-colors duration-150"
+        >
+          {t.dontKnow}
+        </button>
+      </div>
+    );
+  }
+
+  const color = RESULT_COLORS[result.grade];
+  const message = result.grade === "good" ? t.correct : result.grade === "hard" ? t.almost : t.incorrect;
+
+  return (
+    <div className="space-y-3">
+      <div className="px-4 py-3 rounded-xl" style={{ backgroundColor: `${color}15` }}>
+        <p className="text-sm font-semibold flex items-center gap-1.5" style={{ color }}>
+          {result.grade === "again" ? <X size={16} /> : <Check size={16} />}
+          {message}
+        </p>
+        {result.grade !== "good" && typed.trim() && (
+          <p className="mt-2 font-mono text-lg text-[#1D1D1F] dark:text-white break-words">
+            {result.diff.map((part, i) =>
+              part.kind === "same" ? (
+                <span key={i}>{part.text}</span>
+              ) : part.kind === "extra" ? (
+                <span key={i} className="bg-[#FF375F]/20 text-[#FF375F] line-through">{part.text}</span>
+              ) : (
+                <span key={i} className="bg-[#30D158]/20 text-[#30D158] underline">{part.text}</span>
+              )
+            )}
+          </p>
+        )}
+        {result.grade !== "good" && (
+          <p className="mt-1 text-sm text-[#86868B] dark:text-white/60">
+            {t.answer} <CardContent text={result.expected} deckId={deckId} inline />
+          </p>
+        )}
+      </div>
+      <ContinueButton grade={result.grade} onGrade={onGrade} t={t} />
+    </div>
+  );
+}
+
+export function MultipleChoice({
+  lang,
+  card,
+  cards,
+  deckId,
+  onReveal,
+  onGrade
+}: {
+  lang: "EN" | "粵";
+  card: Flashcard;
+  cards: Flashcard[];
+  deckId: string;
+  onReveal: () => void;
+  onGrade: (grade: Grade) => void;
+}) {
+  const t = TRANSLATIONS[lang];
+  // Options are drawn once per card so they don't reshuffle on every render
+  const [options] = useState(() => choiceOptions(card, cards));
+  const [chosen, setChosen] = useState<number | null>(null);
+  const answer = answerKey(expectedAnswer(card));
+  const isCorrect = (option: string) => answerKey(option) === answer;
+
+  const choose = (index: number) => {
+    if (chosen !== null) return;
+    setChosen(index);
+    onReveal();
+  };
+
+  // 1–4 pick an option
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      const index = Number(e.key) - 1;
+      if (chosen === null && index >= 0 && index < options.length) choose(index);
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  });
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+        {options.map((option, i) => {
+          const state = chosen === null ? "idle" : isCorrect(option) ? "correct" : chosen === i ? "wrong" : "other";
+          return (
+            <button
+              key={i}
+              onClick={() => choose(i)}
+              disabled={chosen !== null}
+              className={`px-4 py-3 rounded-xl text-left text-sm font-medium transition-all duration-150 flex items-start gap-3 border-2 ${
+                state === "correct"
+                  ? 'border-[#30D158] bg-[#30D158]/10 text-[#1D1D1F] dark:text-white'
+                  : state === "wrong"
+                    ? 'border-[#FF375F] bg-[#FF375F]/10 text-[#1D1D1F] dark:text-white'
+                    : state === "other"
+                      ? 'border-transparent bg-[#F5F5F7] dark:bg-[#1C1C1E] text-[#86868B] dark:text-white/40'
+                      : 'border-transparent bg-[#F5F5F7] dark:bg-[#1C1C1E] text-[#1D1D1F] dark:text-white hover:bg-[#E8E8ED] dark:hover:bg-[#2C2C2E]'
+              }`}
+            >
+              <span className="text-xs font-semibold text-[#86868B] dark:text-white/40 mt-0.5">{i + 1}</span>
+              <span className="break-words min-w-0">
+                <CardContent text={option} deckId={deckId} inline />
+              </span>
+            </button>
+          );
+        })}
+      </div>
+      {chosen !== null && (
+        <ContinueButton grade={isCorrect(options[chosen]) ? "good" : "again"} onGrade={onGrade} t={t} />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,442 @@
+import JSZip from "jszip";
+import { decompress } from "fzstd";
+import initSqlJs, { Database, SqlJsStatic, SqlValue } from "sql.js";
+import sqlWasmUrl from "sql.js/dist/sql-wasm.wasm?url";
+import { CardSchedule, newSchedule } from "./scheduler";
+import { MEDIA_TOKEN, getMedia, mediaReferences } from "./media";
+import type { Deck, Flashcard } from "./types";
+
+/**
+ * Anki .apkg import/export — runs fully in the browser
+ * - Reads legacy (collection.anki2/.anki21) and current (zstd .anki21b) packages
+ * - First note field becomes the front, remaining fields the back
+ * - Cloze notes keep one card per deletion, as Anki does
+ * - Scheduling state and media files come across in both directions
+ * - Exports a schema-11 collection with Basic and Cloze note types, which every Anki version imports
+ */
+
+export type ImportedDeck = {
+  name: string;
+  cards: Flashcard[];
+  media: { name: string; blob: Blob }[];
+};
+
+const DAY_SECS = 86400;
+const FIELD_SEPARATOR = "\x1f";
+const COLLECTIONS = ["collection.anki21b", "collection.anki21", "collection.anki2"];
+
+let sqlPromise: Promise<SqlJsStatic> | null = null;
+const loadSql = () => (sqlPromise ??= initSqlJs({ locateFile: () => sqlWasmUrl }));
+
+const isZstd = (bytes: Uint8Array) =>
+  bytes.length > 4 && bytes[0] === 0x28 && bytes[1] === 0xb5 && bytes[2] === 0x2f && bytes[3] === 0xfd;
+
+const unpack = (bytes: Uint8Array) => (isZstd(bytes) ? decompress(bytes) : bytes);
+
+const rows = (db: Database, sql: string): SqlValue[][] => db.exec(sql)[0]?.values ?? [];
+
+const hasTable = (db: Database, name: string) =>
+  rows(db, `SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = '${name}'`).length > 0;
+
+const MIME_TYPES: Record<string, string> = {
+  jpg: "image/jpeg", jpeg: "image/jpeg", png: "image/png", gif: "image/gif", webp: "image/webp", svg: "image/svg+xml",
+  mp3: "audio/mpeg", ogg: "audio/ogg", wav: "audio/wav", m4a: "audio/mp4",
+};
+
+const mimeFor = (name: string) => MIME_TYPES[name.split(".").pop()?.toLowerCase() ?? ""] ?? "application/octet-stream";
+
+// ---- Media manifest ---------------------------------------------------------
+
+// Minimal protobuf reader for the .anki21b media manifest:
+// MediaEntries { repeated MediaEntry entries = 1 }
+// MediaEntry { string name = 1; uint32 size = 2; bytes sha1 = 3; uint32 legacy_zip_filename = 255 }
+function readMessage(bytes: Uint8Array): { field: number; value: number | Uint8Array }[] {
+  const fields: { field: number; value: number | Uint8Array }[] = [];
+  let pos = 0;
+  const varint = () => {
+    let result = 0;
+    let scale = 1;
+    while (pos < bytes.length) {
+      const byte = bytes[pos++];
+      result += (byte & 0x7f) * scale;
+      scale *= 128;
+      if (byte < 0x80) break;
+    }
+    return result;
+  };
+  while (pos < bytes.length) {
+    const key = varint();
+    const wireType = key % 8;
+    const field = Math.floor(key / 8);
+    if (wireType === 0) fields.push({ field, value: varint() });
+    else if (wireType === 2) {
+      const length = varint();
+      fields.push({ field, value: bytes.subarray(pos, pos + length) });
+      pos += length;
+    } else if (wireType === 1) pos += 8;
+    else if (wireType === 5) pos += 4;
+    else throw new Error(`Unsupported protobuf wire type ${wireType}`);
+  }
+  return fields;
+}
+
+// Maps each zip entry name to the media filename it holds
+function readMediaManifest(bytes: Uint8Array): Map<string, string> {
+  const manifest = new Map<string, string>();
+  try {
+    const legacy = JSON.parse(new TextDecoder().decode(bytes)) as Record<string, string>;
+    Object.entries(legacy).forEach(([entry, name]) => manifest.set(entry, name));
+    return manifest;
+  } catch {
+    // Not JSON, so this is the protobuf manifest
+  }
+  const decoder = new TextDecoder();
+  readMessage(unpack(bytes))
+    .filter((f) => f.field === 1 && f.value instanceof Uint8Array)
+    .forEach((entry, index) => {
+      const fields = readMessage(entry.value as Uint8Array);
+      const name = fields.find((f) => f.field === 1)?.value;
+      const legacyName = fields.find((f) => f.field === 255)?.value;
+      if (name instanceof Uint8Array) {
+        manifest.set(typeof legacyName === "number" ? String(legacyName) : String(index), decoder.decode(name));
+      }
+    });
+  return manifest;
+}
+
+// ---- Field conversion -------------------------------------------------------
+
+const BLOCK_TAGS = /^(DIV|P|LI|TR|H[1-6]|BLOCKQUOTE|PRE|HR)$/;
+
+// Anki fields are HTML; cards here are plain text with media tokens
+export function htmlToText(html: string): string {
+  const doc = new DOMParser().parseFromString(html, "text/html");
+  let out = "";
+  const walk = (node: Node) => {
+    node.childNodes.forEach((child) => {
+      if (child.nodeType === Node.TEXT_NODE) {
+        out += child.textContent ?? "";
+      } else if (child instanceof HTMLElement) {
+        const tag = child.tagName;
+        if (tag === "BR") out += "\n";
+        else if (tag === "IMG") out += `![${child.getAttribute("alt") ?? ""}](${child.getAttribute("src") ?? ""})`;
+        else if (tag !== "SCRIPT" && tag !== "STYLE") {
+          const block = BLOCK_TAGS.test(tag);
+          if (block && out && !out.endsWith("\n")) out += "\n";
+          walk(child);
+          if (block && !out.endsWith("\n")) out += "\n";
+        }
+      }
+    });
+  };
+  walk(doc.body);
+  return out.replace(/\u00a0/g, " ").replace(/\n{3,}/g, "\n\n").trim();
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+export function textToHtml(text: string): string {
+  let html = "";
+  let last = 0;
+  const plain = (s: string) => escapeHtml(s).replace(/\n/g, "<br>");
+  for (const match of text.matchAll(MEDIA_TOKEN)) {
+    const index = match.index ?? 0;
+    html += plain(text.slice(last, index));
+    html += match[3] !== undefined ? match[0] : `<img src="${escapeHtml(match[2])}" alt="${escapeHtml(match[1])}">`;
+    last = index + match[0].length;
+  }
+  return html + plain(text.slice(last));
+}
+
+// ---- Scheduling -------------------------------------------------------------
+
+// Anki card row: type, queue, due, ivl, factor, reps, lapses
+function scheduleFromAnki(row: SqlValue[], crt: number, now: Date): CardSchedule {
+  const [type, queue, due, ivl, factor, reps, lapses] = row.map(Number);
+  const base = newSchedule(now);
+  if (type === 0) return base;
+
+  const common = {
+    ...base,
+    ease: factor > 0 ? factor / 1000 : base.ease,
+    interval: Math.max(0, ivl),
+    reps,
+    lapses,
+  };
+  if (type === 2) {
+    return { ...common, state: "review", due: new Date((crt + due * DAY_SECS) * 1000).toISOString() };
+  }
+  // Learning cards are due at a timestamp (queue 1) or on a day (queue 3)
+  const dueMs = queue === 1 ? due * 1000 : queue === 3 ? (crt + due * DAY_SECS) * 1000 : now.getTime();
+  return { ...common, state: type === 1 ? "learning" : "relearning", due: new Date(dueMs).toISOString() };
+}
+
+function scheduleToAnki(schedule: CardSchedule, position: number, crt: number) {
+  const dueSecs = Math.floor(new Date(schedule.due).getTime() / 1000);
+  const factor = Math.round(schedule.ease * 1000);
+  const counts = { ivl: schedule.interval, factor, reps: schedule.reps, lapses: schedule.lapses };
+  switch (schedule.state) {
+    case "new":
+      return { type: 0, queue: 0, due: position, left: 0, ...counts, ivl: 0, factor: 0 };
+    case "learning":
+      return { type: 1, queue: 1, due: dueSecs, left: 1, ...counts };
+    case "relearning":
+      return { type: 3, queue: 1, due: dueSecs, left: 1, ...counts };
+    case "review":
+      return { type: 2, queue: 2, due: Math.floor((dueSecs - crt) / DAY_SECS), left: 0, ...counts };
+  }
+}
+
+// ---- Import -----------------------------------------------------------------
+
+// Note type ids whose kind is cloze: legacy models JSON has type 1,
+// schema 18 stores a Notetype.Config protobuf whose field 1 (kind) is 1
+function readClozeModels(db: Database): Set<number> {
+  const ids = new Set<number>();
+  if (hasTable(db, "notetypes")) {
+    rows(db, "SELECT id, config FROM notetypes").forEach(([id, config]) => {
+      if (config instanceof Uint8Array && readMessage(config).some((f) => f.field === 1 && f.value === 1)) {
+        ids.add(Number(id));
+      }
+    });
+  } else {
+    const models = JSON.parse(String(rows(db, "SELECT models FROM col")[0]?.[0] ?? "{}")) as Record<string, { type?: number }>;
+    Object.entries(models).forEach(([id, model]) => model.type === 1 && ids.add(Number(id)));
+  }
+  return ids;
+}
+
+function readDeckNames(db: Database): Map<number, string> {
+  const names = new Map<number, string>();
+  if (hasTable(db, "decks")) {
+    rows(db, "SELECT id, name FROM decks").forEach(([id, name]) =>
+      names.set(Number(id), String(name).split(FIELD_SEPARATOR).join("::"))
+    );
+  } else {
+    const decks = JSON.parse(String(rows(db, "SELECT decks FROM col")[0]?.[0] ?? "{}")) as Record<string, { name: string }>;
+    Object.entries(decks).forEach(([id, deck]) => names.set(Number(id), deck.name));
+  }
+  return names;
+}
+
+export async function importApkg(file: File): Promise<ImportedDeck> {
+  const zip = await JSZip.loadAsync(file);
+  const collectionName = COLLECTIONS.find((name) => zip.file(name));
+  if (!collectionName) throw new Error("Not an Anki package: no collection found");
+
+  const SQL = await loadSql();
+  const db = new SQL.Database(unpack(await zip.file(collectionName)!.async("uint8array")));
+  try {
+    const now = new Date();
+    const crt = Number(rows(db, "SELECT crt FROM col")[0]?.[0] ?? 0);
+
+    // Basic-like notes become one card (the first template's card carries the schedule);
+    // cloze notes keep every card, one per deletion
+    const clozeModels = readClozeModels(db);
+    const cardRows = rows(
+      db,
+      `SELECT n.id, n.guid, n.mid, n.flds, c.ord, c.did, c.type, c.queue, c.due, c.ivl, c.factor, c.reps, c.lapses
+       FROM notes n JOIN cards c ON c.nid = n.id
+       ORDER BY n.id, c.ord`
+    );
+
+    const deckCounts = new Map<number, number>();
+    const seenNotes = new Set<number>();
+    const cards: Flashcard[] = [];
+    for (const [nid, guid, mid, flds, ord, did, ...schedule] of cardRows) {
+      const isCloze = clozeModels.has(Number(mid));
+      if (!isCloze && seenNotes.has(Number(nid))) continue;
+      seenNotes.add(Number(nid));
+
+      const [front, ...rest] = String(flds).split(FIELD_SEPARATOR).map(htmlToText);
+      if (!front) continue;
+      deckCounts.set(Number(did), (deckCounts.get(Number(did)) ?? 0) + 1);
+      const card = {
+        id: String(guid),
+        front,
+        back: rest.filter(Boolean).join("\n\n"),
+        schedule: scheduleFromAnki(schedule, crt, now),
+      };
+      if (!isCloze) {
+        cards.push(card);
+        continue;
+      }
+      const cloze = Number(ord) + 1;
+      cards.push({ ...card, id: `${guid}-c${cloze}`, type: "cloze", noteId: String(guid), cloze });
+    }
+
+    const mainDeck = [...deckCounts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0];
+    const deckName = readDeckNames(db).get(mainDeck ?? -1);
+    const name = deckName && deckName !== "Default" ? deckName : file.name.replace(/\.apkg$/i, "");
+
+    const media: ImportedDeck["media"] = [];
+    const manifestFile = zip.file("media");
+    if (manifestFile) {
+      const manifest = readMediaManifest(await manifestFile.async("uint8array"));
+      for (const [entry, mediaName] of manifest) {
+        const data = zip.file(entry);
+        if (!data) continue;
+        const bytes = unpack(await data.async("uint8array"));
+        media.push({ name: mediaName, blob: new Blob([bytes.slice()], { type: mimeFor(mediaName) }) });
+      }
+    }
+
+    return { name, cards, media };
+  } finally {
+    db.close();
+  }
+}
+
+// ---- Export -----------------------------------------------------------------
+
+const SCHEMA = `
+CREATE TABLE col (id integer primary key, crt integer not null, mod integer not null, scm integer not null, ver integer not null, dty integer not null, usn integer not null, ls integer not null, conf text not null, models text not null, decks text not null, dconf text not null, tags text not null);
+CREATE TABLE notes (id integer primary key, guid text not null, mid integer not null, mod integer not null, usn integer not null, tags text not null, flds text not null, sfld integer not null, csum integer not null, flags integer not null, data text not null);
+CREATE TABLE cards (id integer primary key, nid integer not null, did integer not null, ord integer not null, mod integer not null, usn integer not null, type integer not null, queue integer not null, due integer not null, ivl integer not null, factor integer not null, reps integer not null, lapses integer not null, left integer not null, odue integer not null, odid integer not null, flags integer not null, data text not null);
+CREATE TABLE revlog (id integer primary key, cid integer not null, usn integer not null, ease integer not null, ivl integer not null, lastIvl integer not null, factor integer not null, time integer not null, type integer not null);
+CREATE TABLE graves (usn integer not null, oid integer not null, type integer not null);
+CREATE INDEX ix_notes_usn on notes (usn);
+CREATE INDEX ix_cards_usn on cards (usn);
+CREATE INDEX ix_revlog_usn on revlog (usn);
+CREATE INDEX ix_cards_nid on cards (nid);
+CREATE INDEX ix_cards_sched on cards (did, queue, due);
+CREATE INDEX ix_revlog_cid on revlog (cid);
+CREATE INDEX ix_notes_csum on notes (csum);
+`;
+
+const CARD_CSS = ".card {\n font-family: arial;\n font-size: 20px;\n text-align: center;\n color: black;\n background-color: white;\n}\n";
+const CLOZE_CSS = `${CARD_CSS}\n.cloze {\n font-weight: bold;\n color: blue;\n}\n`;
+const LATEX_PRE = "\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage[utf8]{inputenc}\n\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\setlength{\\parindent}{0in}\n\\begin{document}\n";
+
+const field = (name: string, ord: number) => ({ name, ord, sticky: false, rtl: false, font: "Arial", size: 20, media: [] });
+
+function collectionConfig(deckId: number, basicId: number, clozeId: number, deckName: string, modSecs: number) {
+  const deck = (id: number, name: string) => ({
+    id, name, mod: modSecs, usn: -1, desc: "", dyn: 0, conf: 1, collapsed: false, browserCollapsed: false,
+    extendNew: 10, extendRev: 50, newToday: [0, 0], revToday: [0, 0], lrnToday: [0, 0], timeToday: [0, 0],
+  });
+  return {
+    conf: {
+      activeDecks: [1], curDeck: 1, newSpread: 0, collapseTime: 1200, timeLim: 0, estTimes: true, dueCounts: true,
+      curModel: String(basicId), nextPos: 1, sortType: "noteFld", sortBackwards: false, addToCur: true,
+    },
+    models: {
+      [basicId]: {
+        id: basicId, name: "Basic (BA14)", type: 0, mod: modSecs, usn: -1, sortf: 0, did: deckId,
+        tmpls: [{
+          name: "Card 1", ord: 0, qfmt: "{{Front}}", afmt: "{{FrontSide}}\n\n<hr id=answer>\n\n{{Back}}",
+          bqfmt: "", bafmt: "", did: null, bfont: "", bsize: 0,
+        }],
+        flds: [field("Front", 0), field("Back", 1)],
+        css: CARD_CSS,
+        latexPre: LATEX_PRE,
+        latexPost: "\\end{document}",
+        latexsvg: false,
+        req: [[0, "any", [0]]],
+        tags: [],
+        vers: [],
+      },
+      [clozeId]: {
+        id: clozeId, name: "Cloze (BA14)", type: 1, mod: modSecs, usn: -1, sortf: 0, did: deckId,
+        tmpls: [{
+          name: "Cloze", ord: 0, qfmt: "{{cloze:Text}}", afmt: "{{cloze:Text}}<br>\n{{Back Extra}}",
+          bqfmt: "", bafmt: "", did: null, bfont: "", bsize: 0,
+        }],
+        flds: [field("Text", 0), field("Back Extra", 1)],
+        css: CLOZE_CSS,
+        latexPre: LATEX_PRE,
+        latexPost: "\\end{document}",
+        latexsvg: false,
+        tags: [],
+        vers: [],
+      },
+    },
+    decks: { 1: deck(1, "Default"), [deckId]: deck(deckId, deckName) },
+    dconf: {
+      1: {
+        id: 1, name: "Default", mod: 0, usn: 0, maxTaken: 60, autoplay: true, timer: 0, replayq: true, dyn: false,
+        new: { delays: [1, 10], ints: [1, 4, 0], initialFactor: 2500, order: 1, perDay: 20, bury: false, separate: true },
+        lapse: { delays: [10], mult: 0, minInt: 1, leechFails: 8, leechAction: 0 },
+        rev: { perDay: 200, ease4: 1.3, fuzz: 0.05, ivlFct: 1, maxIvl: 36500, bury: false, minSpace: 1 },
+      },
+    },
+  };
+}
+
+// Anki's duplicate check: first 8 hex digits of the SHA-1 of the stripped sort field
+async function fieldChecksum(text: string): Promise<number> {
+  const digest = await crypto.subtle.digest("SHA-1", new TextEncoder().encode(text));
+  return new DataView(digest).getUint32(0);
+}
+
+export async function exportApkg(deck: Deck): Promise<Blob> {
+  const SQL = await loadSql();
+  const db = new SQL.Database();
+  try {
+    db.run(SCHEMA);
+
+    const nowMs = Date.now();
+    const nowSecs = Math.floor(nowMs / 1000);
+    const deckId = nowMs;
+    const basicId = nowMs + 1;
+    const clozeId = nowMs + 2;
+
+    // Review due dates are day offsets from the collection's creation day
+    const earliest = Math.min(nowMs, ...deck.cards.map((c) => new Date(c.schedule.due).getTime()));
+    const crtDate = new Date(earliest);
+    crtDate.setHours(0, 0, 0, 0);
+    const crt = Math.floor(crtDate.getTime() / 1000);
+
+    const config = collectionConfig(deckId, basicId, clozeId, deck.name, nowSecs);
+    db.run("INSERT INTO col VALUES (1, ?, ?, ?, 11, 0, 0, 0, ?, ?, ?, ?, '{}')", [
+      crt, nowMs, nowMs,
+      JSON.stringify(config.conf), JSON.stringify(config.models), JSON.stringify(config.decks), JSON.stringify(config.dconf),
+    ]);
+
+    // Cloze siblings share one note; each deletion is the card with ord = cloze - 1
+    const notes = new Map<string, Flashcard[]>();
+    for (const card of deck.cards) {
+      const key = card.type === "cloze" ? `cloze:${card.noteId}` : `basic:${card.id}`;
+      notes.set(key, [...(notes.get(key) ?? []), card]);
+    }
+
+    let position = 0;
+    for (const [index, [first, ...siblings]] of [...notes.values()].entries()) {
+      const noteId = nowMs + index;
+      const isCloze = first.type === "cloze";
+      const sortField = htmlToText(textToHtml(first.front));
+      db.run("INSERT INTO notes VALUES (?, ?, ?, ?, -1, '', ?, ?, ?, 0, '')", [
+        noteId, isCloze ? first.noteId : first.id, isCloze ? clozeId : basicId, nowSecs,
+        [first.front, first.back].map(textToHtml).join(FIELD_SEPARATOR), sortField, await fieldChecksum(sortField),
+      ]);
+      for (const card of [first, ...siblings]) {
+        position++;
+        const ord = card.type === "cloze" ? card.cloze - 1 : 0;
+        const anki = scheduleToAnki(card.schedule, position, crt);
+        db.run("INSERT INTO cards VALUES (?, ?, ?, ?, ?, -1, ?, ?, ?, ?, ?, ?, ?, ?, 0, 0, 0, '')", [
+          nowMs + position, noteId, deckId, ord, nowSecs,
+          anki.type, anki.queue, anki.due, anki.ivl, anki.factor, anki.reps, anki.lapses, anki.left,
+        ]);
+      }
+    }
+
+    const zip = new JSZip();
+    zip.file("collection.anki2", db.export());
+
+    const names = [...new Set(deck.cards.flatMap((c) => [...mediaReferences(c.front), ...mediaReferences(c.back)]))];
+    const manifest: Record<string, string> = {};
+    for (const name of names) {
+      const blob = await getMedia(deck.id, name);
+      if (!blob) continue;
+      const entry = String(Object.keys(manifest).length);
+      manifest[entry] = name;
+      zip.file(entry, blob);
+    }
+    zip.file("media", JSON.stringify(manifest));
+
+    return zip.generateAsync({ type: "blob", compression: "DEFLATE" });
+  } finally {
+    db.close();
+  }
+}
@@ -0,0 +1,61 @@
+import React from "react";
+import CardContent from "./CardContent";
+import { clozeAnswer, clozeSegments, clozeText } from "./cloze";
+import { markText } from "./markdown";
+import type { CardType, Flashcard, ClozeCard } from "./types";
+
+/**
+ * Card type renderers
+ * - question/answer: plain text, for PDF export and previews
+ * - expected: the short answer typed or picked in quiz modes
+ * - Front/Back: the faces shown in study mode
+ */
+
+type FaceProps = { card: Flashcard; deckId: string };
+
+type CardRenderer = {
+  question: (card: Flashcard) => string;
+  answer: (card: Flashcard) => string;
+  expected: (card: Flashcard) => string;
+  Front: (props: FaceProps) => React.ReactElement;
+  Back: (props: FaceProps) => React.ReactElement;
+};
+
+const asCloze = (card: Flashcard) => card as ClozeCard;
+
+// The note text with the asked deletion marked, so Markdown and math inside it still render
+function ClozeFace({ card, deckId, reveal }: FaceProps & { reveal: boolean }) {
+  const { front, back, cloze } = asCloze(card);
+  const text = clozeSegments(front, cloze, reveal)
+    .map((segment) => (segment.kind === "text" ? segment.text : markText(segment.kind, segment.text)))
+    .join("");
+  return (
+    <>
+      <CardContent text={text} deckId={deckId} />
+      {reveal && back && (
+        <span className="block mt-4 text-base font-medium opacity-80">
+          <CardContent text={back} deckId={deckId} />
+        </span>
+      )}
+    </>
+  );
+}
+
+const RENDERERS: Record<CardType, CardRenderer> = {
+  basic: {
+    question: (card) => card.front,
+    answer: (card) => card.back,
+    expected: (card) => card.back,
+    Front: ({ card, deckId }) => <CardContent text={card.front} deckId={deckId} />,
+    Back: ({ card, deckId }) => <CardContent text={card.back} deckId={deckId} />,
+  },
+  cloze: {
+    question: (card) => clozeText(card.front, asCloze(card).cloze, false),
+    answer: (card) => [clozeText(card.front, asCloze(card).cloze, true), card.back].filter(Boolean).join("\n\n"),
+    expected: (card) => clozeAnswer(card.front, asCloze(card).cloze),
+    Front: (props) => <ClozeFace {...props} reveal={false} />,
+    Back: (props) => <ClozeFace {...props} reveal />,
+  },
+};
+
+export const rendererFor = (card: Flashcard): CardRenderer => RENDERERS[card.type ?? "basic"];
@@ -0,0 +1,89 @@
+import { newSchedule } from "./scheduler";
+import type { ClozeCard, Flashcard } from "./types";
+
+/**
+ * Cloze deletions — Anki syntax {{c1::answer}} or {{c1::answer::hint}}
+ * - Every distinct cN in a note becomes its own card
+ * - The asked deletion is hidden, all other deletions show their answer
+ */
+
+const CLOZE = /\{\{c(\d+)::([\s\S]*?)(?:::([\s\S]*?))?\}\}/g;
+
+export type ClozeSegment = {
+  kind: "text" | "gap" | "answer";
+  text: string;
+};
+
+export function clozeNumbers(text: string): number[] {
+  const numbers = new Set(Array.from(text.matchAll(CLOZE), (m) => Number(m[1])));
+  return [...numbers].filter((n) => n > 0).sort((a, b) => a - b);
+}
+
+export const hasCloze = (text: string) => clozeNumbers(text).length > 0;
+
+/**
+ * Splits note text into plain runs, the hidden gap (or its revealed answer) and other answers.
+ */
+export function clozeSegments(text: string, cloze: number, reveal: boolean): ClozeSegment[] {
+  const segments: ClozeSegment[] = [];
+  let last = 0;
+  for (const match of text.matchAll(CLOZE)) {
+    const index = match.index ?? 0;
+    if (index > last) segments.push({ kind: "text", text: text.slice(last, index) });
+    const [, number, answer, hint] = match;
+    if (Number(number) !== cloze) segments.push({ kind: "text", text: answer });
+    else if (reveal) segments.push({ kind: "answer", text: answer });
+    else segments.push({ kind: "gap", text: hint ? `[${hint}]` : "[...]" });
+    last = index + match[0].length;
+  }
+  if (last < text.length) segments.push({ kind: "text", text: text.slice(last) });
+  return segments;
+}
+
+export const clozeText = (text: string, cloze: number, reveal: boolean) =>
+  clozeSegments(text, cloze, reveal).map((s) => s.text).join("");
+
+// What the learner has to produce for deletion N (several gaps with the same N are joined)
+export const clozeAnswer = (text: string, cloze: number) =>
+  clozeSegments(text, cloze, true).filter((s) => s.kind === "answer").map((s) => s.text).join(" … ");
+
+/**
+ * Wraps [start, end) of `text` in the next unused cloze number.
+ */
+export function wrapCloze(text: string, start: number, end: number): { text: string; cursor: number } {
+  const next = Math.max(0, ...clozeNumbers(text)) + 1;
+  const open = `{{c${next}::`;
+  const wrapped = `${text.slice(0, start)}${open}${text.slice(start, end)}}}${text.slice(end)}`;
+  return { text: wrapped, cursor: end + open.length + (start === end ? 0 : 2) };
+}
+
+export function clozeCards(text: string, extra: string, noteId: string = Date.now().toString()): ClozeCard[] {
+  return clozeNumbers(text).map((cloze) => ({
+    id: `${noteId}-c${cloze}`,
+    type: "cloze",
+    noteId,
+    cloze,
+    front: text,
+    back: extra,
+    schedule: newSchedule(),
+  }));
+}
+
+/**
+ * Rewrites a cloze note in place: siblings keep their progress, deletions that
+ * disappeared lose their card and new ones get a fresh card. A deletion that was
+ * already in the note but has no card here (deleted, or moved to another deck) stays without one.
+ */
+export function syncClozeNote(cards: Flashcard[], noteId: string, text: string, extra: string): Flashcard[] {
+  const siblings = cards.filter((c): c is ClozeCard => c.type === "cloze" && c.noteId === noteId);
+  const position = cards.findIndex((c) => c.type === "cloze" && c.noteId === noteId);
+  const previous = new Set(clozeNumbers(siblings[0]?.front ?? ""));
+  const note = clozeCards(text, extra, noteId).flatMap((card) => {
+    const existing = siblings.find((s) => s.cloze === card.cloze);
+    if (existing) return [{ ...existing, front: text, back: extra }];
+    return previous.has(card.cloze) ? [] : [card];
+  });
+  const rest = cards.filter((c) => !(c.type === "cloze" && c.noteId === noteId));
+  const at = position < 0 ? rest.length : position;
+  return [...rest.slice(0, at), ...note, ...rest.slice(at)];
+}
@@ -0,0 +1,146 @@
+/**
+ * Delimited text parsing for flashcard import
+ * - RFC 4180 quoting: quoted fields may hold delimiters, "" escapes and line breaks
+ * - Comma, tab and semicolon files, plus Quizlet's unquoted tab/newline export
+ * - Delimiter and header-row detection for the import wizard
+ */
+
+export type DelimiterFormat = "comma" | "tab" | "semicolon" | "quizlet";
+
+export const DELIMITER_FORMATS: DelimiterFormat[] = ["comma", "tab", "semicolon", "quizlet"];
+
+export type ParseError = "unterminatedQuote" | "textAfterQuote";
+
+export type ParsedRow = {
+  line: number; // 1-based line the row starts on
+  cells: string[];
+  error?: ParseError;
+};
+
+const DELIMITERS: Record<DelimiterFormat, string> = {
+  comma: ",",
+  tab: "\t",
+  semicolon: ";",
+  quizlet: "\t",
+};
+
+const isBlank = (cells: string[]) => cells.every(c => c.trim() === "");
+
+function parseQuoted(text: string, delimiter: string): ParsedRow[] {
+  const rows: ParsedRow[] = [];
+  let cells: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+  let quotedCell = false;
+  let error: ParseError | undefined;
+  let line = 1;
+  let rowLine = 1;
+
+  const endRow = () => {
+    cells.push(cell);
+    if (!isBlank(cells) || error) rows.push({ line: rowLine, cells, error });
+    cells = [];
+    cell = "";
+    quotedCell = false;
+    error = undefined;
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+
+    if (inQuotes) {
+      if (ch === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        inQuotes = false;
+      } else {
+        if (ch === "\n") line++;
+        cell += ch;
+      }
+      continue;
+    }
+
+    if (ch === '"' && cell === "" && !quotedCell) {
+      inQuotes = true;
+      quotedCell = true;
+    } else if (ch === delimiter) {
+      cells.push(cell);
+      cell = "";
+      quotedCell = false;
+    } else if (ch === "\r" || ch === "\n") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      endRow();
+      line++;
+      rowLine = line;
+    } else {
+      // Anything but a delimiter or line break after a closing quote is malformed
+      if (quotedCell) error = "textAfterQuote";
+      cell += ch;
+    }
+  }
+
+  if (inQuotes) error = "unterminatedQuote";
+  if (cells.length > 0 || cell !== "" || error) endRow();
+  return rows;
+}
+
+// Quizlet exports never quote, so a leading quote is just part of the text
+function parseUnquoted(text: string, delimiter: string): ParsedRow[] {
+  return text
+    .split(/\r?\n/)
+    .map((raw, index) => ({ line: index + 1, cells: raw.split(delimiter) }))
+    .filter(row => !isBlank(row.cells));
+}
+
+export function parseDelimited(text: string, format: DelimiterFormat): ParsedRow[] {
+  const body = text.replace(/^\uFEFF/, "");
+  return format === "quizlet" ? parseUnquoted(body, DELIMITERS[format]) : parseQuoted(body, DELIMITERS[format]);
+}
+
+/**
+ * Picks the format whose sample rows have the most consistent column count.
+ */
+export function detectFormat(text: string): DelimiterFormat {
+  const sample = text.slice(0, 20000);
+  let best: DelimiterFormat = "comma";
+  let bestScore = -Infinity;
+
+  // Ties keep the earlier format, so quoted TSV wins over Quizlet unless quoting breaks
+  for (const format of ["tab", "comma", "semicolon", "quizlet"] as DelimiterFormat[]) {
+    const rows = parseDelimited(sample, format).slice(0, 50);
+    if (rows.length === 0) continue;
+
+    const counts = new Map<number, number>();
+    rows.forEach(r => counts.set(r.cells.length, (counts.get(r.cells.length) ?? 0) + 1));
+    const [columns, matching] = [...counts.entries()].sort((a, b) => b[1] - a[1])[0];
+    if (columns < 2) continue;
+
+    const errors = rows.filter(r => r.error).length;
+    const score = (matching - errors * 2) / rows.length;
+    if (score > bestScore) {
+      best = format;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+const FRONT_HEADERS = /^(front|question|term|word|prompt|正面|問題|詞語|題目)$/i;
+const BACK_HEADERS = /^(back|answer|definition|meaning|response|背面|答案|解釋|意思)$/i;
+
+export const detectHeader = (rows: ParsedRow[]) =>
+  rows[0]?.cells.some(c => FRONT_HEADERS.test(c.trim()) || BACK_HEADERS.test(c.trim())) ?? false;
+
+/**
+ * Default front/back columns, using header names when there is a header row.
+ */
+export function detectColumns(rows: ParsedRow[], hasHeader: boolean): { front: number; back: number } {
+  const header = hasHeader ? rows[0]?.cells.map(c => c.trim()) ?? [] : [];
+  const front = header.findIndex(c => FRONT_HEADERS.test(c));
+  const back = header.findIndex(c => BACK_HEADERS.test(c));
+  return {
+    front: front >= 0 ? front : 0,
+    back: back >= 0 ? back : front === 1 ? 0 : 1,
+  };
+}
@@ -0,0 +1,306 @@
+/**
+ * Card Markdown — the subset that suits flashcards
+ * - Blocks: paragraphs, # headings, - / 1. lists, > quotes, ``` code, --- rules, $$ display math $$
+ * - Inline: **bold**, *italic*, ~~strike~~, `code`, [links](https://…), $math$ and \(math\)
+ * - Media tokens ![alt](file) and [sound:file] point into the deck's media store
+ * - Single line breaks are kept, as cards were always shown with their line breaks
+ */
+
+export type Inline =
+  | { type: "text"; text: string }
+  | { type: "break" }
+  | { type: "strong" | "em" | "del"; children: Inline[] }
+  | { type: "code"; text: string }
+  | { type: "math"; tex: string; display: boolean }
+  | { type: "link"; href: string; children: Inline[] }
+  | { type: "image"; name: string; alt: string }
+  | { type: "sound"; name: string }
+  | { type: "mark"; kind: MarkKind; children: Inline[] };
+
+export type Block =
+  | { type: "paragraph"; children: Inline[] }
+  | { type: "heading"; level: number; children: Inline[] }
+  | { type: "code"; text: string }
+  | { type: "math"; tex: string }
+  | { type: "quote"; children: Block[] }
+  | { type: "list"; ordered: boolean; start: number; items: Inline[][] }
+  | { type: "rule" };
+
+// Highlighted runs (cloze gaps and answers) are wrapped in private-use characters,
+// so they survive Markdown parsing and can hold formatting themselves
+export type MarkKind = "gap" | "answer";
+
+const MARK_OPEN: Record<MarkKind, string> = { gap: "\uE000", answer: "\uE001" };
+const MARK_CLOSE = "\uE002";
+
+export const markText = (kind: MarkKind, text: string) => `${MARK_OPEN[kind]}${text}${MARK_CLOSE}`;
+
+const SAFE_HREF = /^(https?:|mailto:)/i;
+
+// ---- Inline -----------------------------------------------------------------
+
+const DELIMITERS: [string, "strong" | "em" | "del"][] = [
+  ["**", "strong"],
+  ["__", "strong"],
+  ["~~", "del"],
+  ["*", "em"],
+  ["_", "em"],
+];
+
+const isWordChar = (char: string | undefined) => !!char && /[\p{L}\p{N}]/u.test(char);
+
+export function parseInline(source: string): Inline[] {
+  const nodes: Inline[] = [];
+  let text = "";
+  const flush = () => {
+    if (text) nodes.push({ type: "text", text });
+    text = "";
+  };
+  const push = (node: Inline) => {
+    flush();
+    nodes.push(node);
+  };
+
+  let i = 0;
+  outer: while (i < source.length) {
+    const char = source[i];
+    const rest = source.slice(i);
+
+    if (char === "\n") {
+      push({ type: "break" });
+      i++;
+      continue;
+    }
+
+    // Escapes: \* \$ \_ … stay literal; \( \) and \[ \] open math
+    if (char === "\\") {
+      const next = source[i + 1];
+      if (next === "(" || next === "[") {
+        const close = next === "(" ? "\\)" : "\\]";
+        const end = source.indexOf(close, i + 2);
+        if (end > i + 2) {
+          push({ type: "math", tex: source.slice(i + 2, end).trim(), display: next === "[" });
+          i = end + 2;
+          continue;
+        }
+      }
+      if (next && /[\\`*_~$[\]()#>!+\-.|{}]/.test(next)) {
+        text += next;
+        i += 2;
+        continue;
+      }
+    }
+
+    for (const kind of ["gap", "answer"] as const) {
+      if (char === MARK_OPEN[kind]) {
+        const end = source.indexOf(MARK_CLOSE, i + 1);
+        if (end > i) {
+          push({ type: "mark", kind, children: parseInline(source.slice(i + 1, end)) });
+          i = end + 1;
+          continue outer;
+        }
+      }
+    }
+
+    if (char === "`") {
+      const end = source.indexOf("`", i + 1);
+      if (end > i + 1) {
+        push({ type: "code", text: source.slice(i + 1, end) });
+        i = end + 1;
+        continue;
+      }
+    }
+
+    if (rest.startsWith("$$")) {
+      const end = source.indexOf("$$", i + 2);
+      if (end > i + 2) {
+        push({ type: "math", tex: source.slice(i + 2, end).trim(), display: true });
+        i = end + 2;
+        continue;
+      }
+    } else if (char === "$" && source[i + 1] && !/\s/.test(source[i + 1])) {
+      // Pandoc's rule: no space inside the dollars and no digit straight after, so "$5 and $10" stays text
+      let end = source.indexOf("$", i + 1);
+      while (end > 0 && source[end - 1] === "\\") end = source.indexOf("$", end + 1);
+      if (end > i + 1 && !/\s/.test(source[end - 1]) && !/\d/.test(source[end + 1] ?? "")) {
+        push({ type: "math", tex: source.slice(i + 1, end), display: false });
+        i = end + 1;
+        continue;
+      }
+    }
+
+    const image = rest.match(/^!\[([^\]]*)\]\(([^)]+)\)/);
+    if (image) {
+      push({ type: "image", alt: image[1], name: image[2] });
+      i += image[0].length;
+      continue;
+    }
+    const sound = rest.match(/^\[sound:([^\]]+)\]/);
+    if (sound) {
+      push({ type: "sound", name: sound[1] });
+      i += sound[0].length;
+      continue;
+    }
+    const link = rest.match(/^\[([^\]]+)\]\(([^)\s]+)\)/);
+    if (link && SAFE_HREF.test(link[2])) {
+      push({ type: "link", href: link[2], children: parseInline(link[1]) });
+      i += link[0].length;
+      continue;
+    }
+
+    for (const [delimiter, type] of DELIMITERS) {
+      if (!rest.startsWith(delimiter)) continue;
+      // Underscores inside words (snake_case) are not emphasis
+      if (delimiter[0] === "_" && isWordChar(source[i - 1])) break;
+      const from = i + delimiter.length;
+      let end = source.indexOf(delimiter, from);
+      while (end > from && delimiter[0] === "_" && isWordChar(source[end + delimiter.length])) {
+        end = source.indexOf(delimiter, end + 1);
+      }
+      if (end > from && !/\s/.test(source[from]) && !/\s/.test(source[end - 1])) {
+        push({ type, children: parseInline(source.slice(from, end)) });
+        i = end + delimiter.length;
+        continue outer;
+      }
+      break;
+    }
+
+    text += char;
+    i++;
+  }
+  flush();
+  return nodes;
+}
+
+// ---- Blocks -----------------------------------------------------------------
+
+const FENCE = /^\s*```/;
+const HEADING = /^(#{1,6})\s+(.*)$/;
+const RULE = /^\s*([-*_])(\s*\1){2,}\s*$/;
+const QUOTE = /^\s*>\s?/;
+const LIST_ITEM = /^\s*([-*+]|(\d+)[.)])\s+(.*)$/;
+
+const startsBlock = (line: string) =>
+  FENCE.test(line) || HEADING.test(line) || RULE.test(line) || QUOTE.test(line) || LIST_ITEM.test(line) ||
+  line.trim().startsWith("$$");
+
+export function parseMarkdown(source: string): Block[] {
+  const lines = source.replace(/\r\n?/g, "\n").split("\n");
+  const blocks: Block[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    if (FENCE.test(line)) {
+      const body: string[] = [];
+      i++;
+      while (i < lines.length && !FENCE.test(lines[i])) body.push(lines[i++]);
+      i++; // closing fence
+      blocks.push({ type: "code", text: body.join("\n") });
+      continue;
+    }
+
+    if (line.trim().startsWith("$$")) {
+      // $$ … $$ on one line, or spread over several
+      const body: string[] = [line.trim().slice(2)];
+      let closed = body[0].includes("$$");
+      while (!closed && ++i < lines.length) {
+        body.push(lines[i]);
+        closed = lines[i].includes("$$");
+      }
+      const tex = body.join("\n");
+      const end = tex.lastIndexOf("$$");
+      blocks.push({ type: "math", tex: (end >= 0 ? tex.slice(0, end) : tex).trim() });
+      const after = end >= 0 ? tex.slice(end + 2).trim() : "";
+      if (after) blocks.push({ type: "paragraph", children: parseInline(after) });
+      i++;
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      blocks.push({ type: "heading", level: heading[1].length, children: parseInline(heading[2].trim()) });
+      i++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      blocks.push({ type: "rule" });
+      i++;
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const body: string[] = [];
+      while (i < lines.length && QUOTE.test(lines[i])) body.push(lines[i++].replace(QUOTE, ""));
+      blocks.push({ type: "quote", children: parseMarkdown(body.join("\n")) });
+      continue;
+    }
+
+    const item = line.match(LIST_ITEM);
+    if (item) {
+      const ordered = item[2] !== undefined;
+      const items: string[] = [];
+      while (i < lines.length && lines[i].trim()) {
+        const next = lines[i].match(LIST_ITEM);
+        if (next && (next[2] !== undefined) === ordered) items.push(next[3]);
+        else if (!next && /^\s+/.test(lines[i]) && items.length > 0) items[items.length - 1] += `\n${lines[i].trim()}`;
+        else break;
+        i++;
+      }
+      blocks.push({ type: "list", ordered, start: ordered ? Number(item[2]) : 1, items: items.map(parseInline) });
+      continue;
+    }
+
+    const body: string[] = [];
+    while (i < lines.length && lines[i].trim() && (body.length === 0 || !startsBlock(lines[i]))) body.push(lines[i++]);
+    blocks.push({ type: "paragraph", children: parseInline(body.join("\n")) });
+  }
+
+  return blocks;
+}
+
+// ---- Plain text -------------------------------------------------------------
+
+const inlineText = (nodes: Inline[]): string =>
+  nodes
+    .map((node) => {
+      switch (node.type) {
+        case "text": return node.text;
+        case "break": return "\n";
+        case "code": return node.text;
+        case "math": return node.tex;
+        case "image": return node.alt;
+        case "sound": return "";
+        default: return inlineText(node.children);
+      }
+    })
+    .join("");
+
+const blockText = (block: Block): string => {
+  switch (block.type) {
+    case "paragraph":
+    case "heading": return inlineText(block.children);
+    case "code": return block.text;
+    case "math": return block.tex;
+    case "quote": return block.children.map(blockText).join("\n");
+    case "list": return block.items.map((item, i) => `${block.ordered ? `${block.start + i}.` : "•"} ${inlineText(item)}`).join("\n");
+    case "rule": return "";
+  }
+};
+
+// Formatting stripped, for previews, answer checking and search
+export const markdownToText = (source: string) =>
+  parseMarkdown(source).map(blockText).filter(Boolean).join("\n\n").trim();
+
+// True when text would look the same rendered or printed as plain characters
+export const isPlainText = (source: string) =>
+  parseMarkdown(source).every(
+    (block) => block.type === "paragraph" && block.children.every((n) => n.type === "text" || n.type === "break")
+  );
@@ -0,0 +1,198 @@
+import { createContext, useContext, useEffect, useState, type ClipboardEvent, type DragEvent } from "react";
+
+/**
+ * Flashcard media store
+ * - Images and audio live in IndexedDB as blobs, keyed "<deckId>/<filename>"
+ * - Decks in localStorage only reference media by filename
+ * - Card text embeds media as ![alt](file) or Anki's [sound:file]
+ * - Images pasted or dropped into a card field are stored here too
+ */
+
+export const MEDIA_TOKEN = /!\[([^\]]*)\]\(([^)]+)\)|\[sound:([^\]]+)\]/g;
+
+export function mediaReferences(text: string): string[] {
+  return Array.from(text.matchAll(MEDIA_TOKEN), (m) => m[2] ?? m[3]);
+}
+
+// Points media tokens at new filenames (old → new); other text is left as is
+export function renameMediaReferences(text: string, renames: Map<string, string>): string {
+  if (renames.size === 0) return text;
+  return text.replace(MEDIA_TOKEN, (token, alt: string | undefined, image: string | undefined, sound: string | undefined) => {
+    const renamed = renames.get(image ?? sound ?? "");
+    if (!renamed) return token;
+    return image !== undefined ? `![${alt}](${renamed})` : `[sound:${renamed}]`;
+  });
+}
+
+const DB_NAME = "flashcards_media";
+const STORE = "media";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDB(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(STORE);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+function run<T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  return openDB().then(
+    (db) =>
+      new Promise<T>((resolve, reject) => {
+        const request = fn(db.transaction(STORE, mode).objectStore(STORE));
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      })
+  );
+}
+
+const mediaKey = (deckId: string, name: string) => `${deckId}/${name}`;
+const deckRange = (deckId: string) => IDBKeyRange.bound(`${deckId}/`, `${deckId}/\uffff`);
+
+export const putMedia = (deckId: string, name: string, blob: Blob) =>
+  run("readwrite", (store) => store.put(blob, mediaKey(deckId, name))).then(() => undefined);
+
+export const getMedia = (deckId: string, name: string) =>
+  run<Blob | undefined>("readonly", (store) => store.get(mediaKey(deckId, name)));
+
+export async function listMedia(deckId: string): Promise<{ name: string; blob: Blob }[]> {
+  const [keys, blobs] = await Promise.all([
+    run("readonly", (store) => store.getAllKeys(deckRange(deckId))),
+    run<Blob[]>("readonly", (store) => store.getAll(deckRange(deckId))),
+  ]);
+  return keys.map((key, i) => ({ name: String(key).slice(deckId.length + 1), blob: blobs[i] }));
+}
+
+export const deleteDeckMedia = (deckId: string) =>
+  run("readwrite", (store) => store.delete(deckRange(deckId))).then(() => undefined);
+
+// Object URLs loaded up front (name → URL), so off-screen renders such as PDF export have them on first paint
+export const PreloadedMedia = createContext<Map<string, string> | null>(null);
+
+/**
+ * Object URL for a stored media file, revoked when the component unmounts.
+ */
+export function useMediaUrl(deckId: string, name: string): string | null {
+  const preloaded = useContext(PreloadedMedia)?.get(name) ?? null;
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (preloaded) return;
+    let objectUrl: string | null = null;
+    let cancelled = false;
+    getMedia(deckId, name)
+      .then((blob) => {
+        if (!blob || cancelled) return;
+        objectUrl = URL.createObjectURL(blob);
+        setUrl(objectUrl);
+      })
+      .catch((error) => console.error("Failed to load media:", error));
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+      setUrl(null);
+    };
+  }, [deckId, name, preloaded]);
+
+  return preloaded ?? url;
+}
+
+async function sameContent(a: Blob, b: Blob): Promise<boolean> {
+  if (a.size !== b.size) return false;
+  const [x, y] = await Promise.all([a.arrayBuffer(), b.arrayBuffer()]).then((buffers) => buffers.map((buffer) => new Uint8Array(buffer)));
+  return x.every((byte, i) => byte === y[i]);
+}
+
+// image.png → image-2.png, image-3.png, …
+const numberedName = (name: string, n: number) => {
+  const dot = name.lastIndexOf(".");
+  return dot > 0 ? `${name.slice(0, dot)}-${n}${name.slice(dot)}` : `${name}-${n}`;
+};
+
+/**
+ * Copies media files into another deck. A different file already stored there under
+ * the same name (two Anki decks' image.png, say) is kept, and the copy gets a numbered
+ * name instead; returns those renames (old → new) so card text can be updated to match.
+ */
+export async function copyMedia(fromDeckId: string, toDeckId: string, names: string[]): Promise<Map<string, string>> {
+  const renames = new Map<string, string>();
+  for (const name of new Set(names)) {
+    const blob = await getMedia(fromDeckId, name);
+    if (!blob) continue;
+    let target = name;
+    for (let n = 2; ; n++) {
+      const existing = await getMedia(toDeckId, target);
+      if (!existing) {
+        await putMedia(toDeckId, target, blob);
+        break;
+      }
+      if (await sameContent(existing, blob)) break;
+      target = numberedName(name, n);
+    }
+    if (target !== name) renames.set(name, target);
+  }
+  return renames;
+}
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  "image/jpeg": "jpg", "image/png": "png", "image/gif": "gif", "image/webp": "webp", "image/svg+xml": "svg",
+};
+
+/**
+ * Stores pasted or dropped images under fresh names; returns the ![](name) tokens to insert.
+ */
+export async function storeImages(deckId: string, files: File[]): Promise<string> {
+  const stamp = Date.now();
+  const tokens: string[] = [];
+  for (const [i, file] of files.entries()) {
+    const name = `pasted-${stamp}-${i}.${IMAGE_EXTENSIONS[file.type] ?? "png"}`;
+    await putMedia(deckId, name, file);
+    tokens.push(`![](${name})`);
+  }
+  return tokens.join("\n");
+}
+
+const imageFiles = (data: DataTransfer) => Array.from(data.files).filter((file) => file.type.startsWith("image/"));
+
+/**
+ * Paste and drop handlers for a card text field: images go to the media store
+ * and their tokens replace the field's selection.
+ */
+export function imageInputProps<T extends HTMLTextAreaElement | HTMLInputElement>(
+  deckId: string,
+  setValue: (update: (value: string) => string) => void
+) {
+  const insert = (target: T, files: File[]) => {
+    const start = target.selectionStart ?? target.value.length;
+    const end = target.selectionEnd ?? start;
+    storeImages(deckId, files)
+      .then((tokens) => setValue((value) => value.slice(0, start) + tokens + value.slice(end)))
+      .catch((error) => console.error("Failed to store image:", error));
+  };
+  return {
+    onPaste: (e: ClipboardEvent<T>) => {
+      const files = imageFiles(e.clipboardData);
+      if (files.length === 0) return;
+      e.preventDefault();
+      insert(e.currentTarget, files);
+    },
+    onDragOver: (e: DragEvent<T>) => {
+      if (e.dataTransfer.types.includes("Files")) e.preventDefault();
+    },
+    onDrop: (e: DragEvent<T>) => {
+      const files = imageFiles(e.dataTransfer);
+      if (files.length === 0) return;
+      e.preventDefault();
+      insert(e.currentTarget, files);
+    },
+  };
+}
@@ -0,0 +1,314 @@
+import jsPDF from "jspdf";
+import { PdfFace, RasterFace, prepareFaces } from "./pdfFaces";
+import type { Deck } from "./types";
+
+/**
+ * Flashcard PDF export
+ * - "list": one bordered block per card with its answer, for reading
+ * - "cutout": 2×4 card grid on A4, fronts then mirrored backs, for duplex printing and cutting
+ * - Text outside Latin-1 (粵, CJK) switches to an embedded Noto Sans TC font
+ * - When only the labels need that font and it isn't deployed, the labels fall back to English instead
+ * - Faces with Markdown, math or images are printed as rendered in study mode
+ */
+
+export type PdfLayout = "list" | "cutout";
+
+export type PdfLabels = {
+  card: string; // "CARD"
+  answer: string; // "ANSWER"
+  flashcards: string; // "flashcards"
+  generatedBy: string; // "Generated by BA14 Flashcards"
+};
+
+// The text a PDF adds around the cards
+export type PdfChrome = {
+  labels: PdfLabels;
+  locale: string; // for the date in the footer
+};
+
+// Not bundled (≈7 MB): download NotoSansTC-Regular.ttf from Google Fonts into public/fonts/
+const CJK_FONT_URL = `${import.meta.env.BASE_URL}fonts/NotoSansTC-Regular.ttf`;
+const CJK_FONT_FILE = "NotoSansTC-Regular.ttf";
+const CJK_FONT = "NotoSansTC";
+
+export class FontUnavailableError extends Error {}
+
+let cjkFontPromise: Promise<string> | null = null;
+
+function loadCJKFont(): Promise<string> {
+  if (!cjkFontPromise) {
+    cjkFontPromise = fetch(CJK_FONT_URL)
+      .then((response) => {
+        if (!response.ok) throw new FontUnavailableError(`CJK font not found at ${CJK_FONT_URL}`);
+        return response.arrayBuffer();
+      })
+      .then((buffer) => {
+        // btoa needs a binary string; build it in chunks to stay under the argument limit
+        const bytes = new Uint8Array(buffer);
+        let binary = "";
+        for (let i = 0; i < bytes.length; i += 0x8000) {
+          binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+        }
+        return btoa(binary);
+      })
+      .catch((error) => {
+        cjkFontPromise = null;
+        throw error instanceof FontUnavailableError ? error : new FontUnavailableError(String(error));
+      });
+  }
+  return cjkFontPromise;
+}
+
+// Helvetica only covers WinAnsi; anything beyond Latin-1 needs the embedded font
+const needsUnicodeFont = (text: string) => /[^\u0000-\u00ff]/.test(text);
+
+type Faces = { question: PdfFace; answer: PdfFace }[];
+
+const isRaster = (face: PdfFace): face is RasterFace => typeof face !== "string";
+
+// Scales a rendered face down (never up) to fit the box
+const fitRaster = (face: RasterFace, maxWidth: number, maxHeight: number) => {
+  const scale = Math.min(1, maxWidth / face.width, maxHeight / face.height);
+  return { width: face.width * scale, height: face.height * scale };
+};
+
+const footerDate = (locale: string) => new Date().toLocaleDateString(locale);
+
+async function createDocument(deck: Deck, chrome: PdfChrome, fallback: PdfChrome | undefined, faces: Faces) {
+  const pdf = new jsPDF();
+  const plainText = faces.flatMap((f) => [f.question, f.answer]).filter((f): f is string => !isRaster(f));
+  const deckNeedsFont = needsUnicodeFont([deck.name, ...plainText].join(""));
+  const chromeNeedsFont = needsUnicodeFont([...Object.values(chrome.labels), footerDate(chrome.locale)].join(""));
+
+  let family = "helvetica";
+  if (deckNeedsFont || chromeNeedsFont) {
+    try {
+      pdf.addFileToVFS(CJK_FONT_FILE, await loadCJKFont());
+      pdf.addFont(CJK_FONT_FILE, CJK_FONT, "normal");
+      pdf.addFont(CJK_FONT_FILE, CJK_FONT, "bold");
+      family = CJK_FONT;
+    } catch (error) {
+      if (deckNeedsFont || !fallback || !(error instanceof FontUnavailableError)) throw error;
+      chrome = fallback;
+    }
+  }
+  const setFont = (style: "normal" | "bold") => pdf.setFont(family, style);
+  setFont("normal");
+  return { pdf, setFont, chrome };
+}
+
+// A4 width less the 20 mm page margins and the card's inset
+const LIST_QUESTION_WIDTH = 210 - 2 * 20 - 20;
+// Rendered faces taller than this are shrunk so a card always fits on a page
+const LIST_MAX_FACE_HEIGHT = 100;
+
+function drawListLayout(pdf: jsPDF, setFont: (style: "normal" | "bold") => void, deck: Deck, labels: PdfLabels, faces: Faces) {
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  const margin = 20;
+  const maxWidth = pageWidth - 2 * margin;
+  let yPos = margin;
+
+  // Title
+  pdf.setFontSize(24);
+  pdf.setTextColor(10, 132, 255); // #0A84FF
+  pdf.text(deck.name, margin, yPos);
+  yPos += 12;
+
+  // Subtitle
+  pdf.setFontSize(11);
+  pdf.setTextColor(134, 134, 139); // #86868B
+  pdf.text(`${deck.cards.length} ${labels.flashcards}`, margin, yPos);
+  yPos += 20;
+
+  // Cards
+  faces.forEach(({ question, answer }, index) => {
+    // Calculate card height
+    pdf.setFontSize(14);
+    const questionLines: string[] = isRaster(question) ? [] : pdf.splitTextToSize(question, maxWidth - 20);
+    const questionSize = isRaster(question) ? fitRaster(question, maxWidth - 20, LIST_MAX_FACE_HEIGHT) : null;
+    const questionHeight = questionSize ? questionSize.height : questionLines.length * 7;
+    pdf.setFontSize(12);
+    const answerLines: string[] = isRaster(answer) ? [] : pdf.splitTextToSize(answer, maxWidth - 26);
+    const answerSize = isRaster(answer) ? fitRaster(answer, maxWidth - 26, LIST_MAX_FACE_HEIGHT) : null;
+    const answerHeight = answerSize ? answerSize.height : answerLines.length * 6;
+    const cardHeight = 25 + questionHeight + answerHeight + 20;
+
+    // Check if we need a new page
+    if (yPos + cardHeight > pageHeight - 30) {
+      pdf.addPage();
+      yPos = margin;
+    }
+
+    const cardStartY = yPos;
+
+    // Card border box
+    pdf.setDrawColor(229, 229, 231); // #E5E5E7
+    pdf.setLineWidth(0.8);
+    pdf.roundedRect(margin, cardStartY, maxWidth, cardHeight, 3, 3);
+
+    yPos = cardStartY + 10;
+
+    // Card number label
+    pdf.setFontSize(9);
+    pdf.setTextColor(134, 134, 139);
+    pdf.text(`${labels.card} ${index + 1}`, margin + 8, yPos);
+    yPos += 10;
+
+    // Question text
+    if (isRaster(question) && questionSize) {
+      pdf.addImage(question.dataUrl, 'PNG', margin + 8, yPos - 5, questionSize.width, questionSize.height);
+    } else {
+      pdf.setFontSize(14);
+      setFont('bold');
+      pdf.setTextColor(29, 29, 31); // #1D1D1F
+      pdf.text(questionLines, margin + 8, yPos);
+    }
+    yPos += questionHeight + 8;
+
+    // Answer label
+    pdf.setFontSize(9);
+    setFont('normal');
+    pdf.setTextColor(134, 134, 139);
+    pdf.text(labels.answer, margin + 8, yPos);
+    yPos += 7;
+
+    // Answer background box
+    pdf.setFillColor(245, 245, 247); // #F5F5F7
+    const answerBoxHeight = answerHeight + 10;
+    pdf.roundedRect(margin + 8, yPos - 5, maxWidth - 16, answerBoxHeight, 2, 2, 'F');
+
+    // Answer text
+    if (isRaster(answer) && answerSize) {
+      pdf.addImage(answer.dataUrl, 'PNG', margin + 13, yPos, answerSize.width, answerSize.height);
+    } else {
+      pdf.setFontSize(12);
+      pdf.setTextColor(58, 58, 60); // #3A3A3C
+      pdf.text(answerLines, margin + 13, yPos + 2);
+    }
+
+    yPos = cardStartY + cardHeight + 12;
+  });
+}
+
+// Cut-out grid: 2 × 4 cards of 90 × 60 mm, centred on A4
+const GRID_COLS = 2;
+const GRID_ROWS = 4;
+const CARD_W = 90;
+const CARD_H = 60;
+const CARD_PADDING = 6;
+const MIN_FONT_SIZE = 8;
+const LINE_HEIGHT_FACTOR = 1.25;
+const PT_TO_MM = 0.3528;
+
+// Largest font size (down to 8pt) at which the text fits inside the card
+function fitText(pdf: jsPDF, text: string, maxSize: number) {
+  const width = CARD_W - 2 * CARD_PADDING;
+  const height = CARD_H - 2 * CARD_PADDING - 6;
+  let size = maxSize;
+  for (;;) {
+    pdf.setFontSize(size);
+    const lines: string[] = pdf.splitTextToSize(text, width);
+    const lineHeight = size * PT_TO_MM * LINE_HEIGHT_FACTOR;
+    if (lines.length * lineHeight <= height || size === MIN_FONT_SIZE) return { size, lines, lineHeight };
+    size--;
+  }
+}
+
+function drawCutoutLayout(pdf: jsPDF, setFont: (style: "normal" | "bold") => void, labels: PdfLabels, faces: Faces) {
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  const originX = (pageWidth - GRID_COLS * CARD_W) / 2;
+  const originY = (pageHeight - GRID_ROWS * CARD_H) / 2;
+  const perPage = GRID_COLS * GRID_ROWS;
+
+  const drawCutLines = () => {
+    pdf.setDrawColor(199, 199, 204); // #C7C7CC
+    pdf.setLineWidth(0.2);
+    pdf.setLineDashPattern([2, 2], 0);
+    for (let c = 0; c <= GRID_COLS; c++) {
+      pdf.line(originX + c * CARD_W, originY - 5, originX + c * CARD_W, originY + GRID_ROWS * CARD_H + 5);
+    }
+    for (let r = 0; r <= GRID_ROWS; r++) {
+      pdf.line(originX - 5, originY + r * CARD_H, originX + GRID_COLS * CARD_W + 5, originY + r * CARD_H);
+    }
+    pdf.setLineDashPattern([], 0);
+  };
+
+  const drawFace = (x: number, y: number, label: string, face: PdfFace, bold: boolean) => {
+    pdf.setFontSize(7);
+    setFont('normal');
+    pdf.setTextColor(134, 134, 139);
+    pdf.text(label, x + CARD_PADDING, y + CARD_PADDING + 2);
+
+    if (isRaster(face)) {
+      const { width, height } = fitRaster(face, CARD_W - 2 * CARD_PADDING, CARD_H - 2 * CARD_PADDING - 6);
+      pdf.addImage(face.dataUrl, 'PNG', x + (CARD_W - width) / 2, y + 6 + (CARD_H - 6 - height) / 2, width, height);
+      return;
+    }
+    const text = face;
+
+    setFont(bold ? 'bold' : 'normal');
+    const { size, lines, lineHeight } = fitText(pdf, text, bold ? 16 : 13);
+    pdf.setFontSize(size);
+    pdf.setTextColor(29, 29, 31);
+    const blockHeight = lines.length * lineHeight;
+    const top = y + 6 + (CARD_H - 6 - blockHeight) / 2 + lineHeight * 0.75;
+    pdf.text(lines, x + CARD_W / 2, top, { align: 'center', lineHeightFactor: LINE_HEIGHT_FACTOR });
+  };
+
+  for (let start = 0; start < faces.length; start += perPage) {
+    const sheet = faces.slice(start, start + perPage);
+
+    // Fronts
+    if (start > 0) pdf.addPage();
+    drawCutLines();
+    sheet.forEach((face, i) => {
+      const col = i % GRID_COLS;
+      const row = Math.floor(i / GRID_COLS);
+      drawFace(originX + col * CARD_W, originY + row * CARD_H, `${labels.card} ${start + i + 1}`, face.question, true);
+    });
+
+    // Backs, mirrored left-to-right so they line up after a long-edge duplex flip
+    pdf.addPage();
+    drawCutLines();
+    sheet.forEach((face, i) => {
+      const col = GRID_COLS - 1 - (i % GRID_COLS);
+      const row = Math.floor(i / GRID_COLS);
+      drawFace(originX + col * CARD_W, originY + row * CARD_H, `${labels.answer} ${start + i + 1}`, face.answer, false);
+    });
+  }
+}
+
+/**
+ * `fallback` is Latin-only text to use when the chosen labels need the CJK font and it isn't available.
+ */
+export async function exportDeckPDF(deck: Deck, layout: PdfLayout, chosen: PdfChrome, fallback?: PdfChrome) {
+  // Rendered faces get the width and type size their text would have in this layout
+  const faces = layout === "cutout"
+    ? await prepareFaces(deck,
+        { width: CARD_W - 2 * CARD_PADDING, fontSize: 16, bold: true, color: "#1D1D1F" },
+        { width: CARD_W - 2 * CARD_PADDING, fontSize: 13, bold: false, color: "#1D1D1F" })
+    : await prepareFaces(deck,
+        { width: LIST_QUESTION_WIDTH, fontSize: 14, bold: true, color: "#1D1D1F" },
+        { width: LIST_QUESTION_WIDTH - 6, fontSize: 12, bold: false, color: "#3A3A3C" });
+  const { pdf, setFont, chrome: { labels, locale } } = await createDocument(deck, chosen, fallback, faces);
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+
+  if (layout === "cutout") drawCutoutLayout(pdf, setFont, labels, faces);
+  else drawListLayout(pdf, setFont, deck, labels, faces);
+
+  // Footer on last page
+  pdf.setFontSize(9);
+  setFont('normal');
+  pdf.setTextColor(134, 134, 139);
+  const footerText = `${labels.generatedBy} • ${footerDate(locale)}`;
+  const footerWidth = pdf.getTextWidth(footerText);
+  const footerY = pageHeight - 15;
+  pdf.text(footerText, (pageWidth - footerWidth) / 2, footerY);
+
+  // Save the PDF
+  const suffix = layout === "cutout" ? "cards" : "flashcards";
+  pdf.save(`${deck.name.replace(/[^\p{L}\p{N}]/gu, '_')}_${suffix}.pdf`);
+}
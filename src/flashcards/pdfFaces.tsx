@@ -0,0 +1,100 @@
+import React from "react";
+import { flushSync } from "react-dom";
+import { createRoot } from "react-dom/client";
+import html2canvas from "html2canvas";
+import { rendererFor } from "./cardTypes";
+import { isPlainText, markdownToText } from "./markdown";
+import { PreloadedMedia, getMedia, mediaReferences } from "./media";
+import type { Deck, Flashcard } from "./types";
+
+/**
+ * Card faces for PDF export
+ * - Plain text stays text, so jsPDF can wrap it and embed the CJK font
+ * - Faces with Markdown, math or images are rendered off-screen like in study mode and drawn as images
+ */
+
+export type RasterFace = {
+  dataUrl: string;
+  width: number; // mm
+  height: number; // mm
+};
+
+// A face is either plain text or a picture of the rendered face
+export type PdfFace = string | RasterFace;
+
+export type FaceStyle = {
+  width: number; // mm
+  fontSize: number; // pt
+  bold: boolean;
+  color: string;
+};
+
+const PX_PER_MM = 96 / 25.4;
+const PX_PER_PT = 96 / 72;
+const RASTER_SCALE = 3; // ≈ 290 dpi
+
+async function rasterize(element: React.ReactElement, style: FaceStyle, media: Map<string, string>): Promise<RasterFace> {
+  const container = document.createElement("div");
+  Object.assign(container.style, {
+    position: "fixed",
+    left: "-10000px",
+    top: "0",
+    width: `${style.width * PX_PER_MM}px`,
+    fontSize: `${style.fontSize * PX_PER_PT}px`,
+    fontWeight: style.bold ? "600" : "400",
+    lineHeight: "1.3",
+    color: style.color,
+    textAlign: "center",
+  });
+  document.body.appendChild(container);
+  const root = createRoot(container);
+  try {
+    flushSync(() => root.render(<PreloadedMedia.Provider value={media}>{element}</PreloadedMedia.Provider>));
+    await document.fonts.ready;
+    await Promise.all(Array.from(container.querySelectorAll("img"), (img) => img.decode().catch(() => undefined)));
+
+    const canvas = await html2canvas(container, { scale: RASTER_SCALE, backgroundColor: null, logging: false });
+    return {
+      dataUrl: canvas.toDataURL("image/png"),
+      width: style.width,
+      height: canvas.height / RASTER_SCALE / PX_PER_MM,
+    };
+  } finally {
+    root.unmount();
+    container.remove();
+  }
+}
+
+/**
+ * Question and answer face of every card, rasterizing only the rich ones.
+ */
+export async function prepareFaces(
+  deck: Deck,
+  question: FaceStyle,
+  answer: FaceStyle
+): Promise<{ question: PdfFace; answer: PdfFace }[]> {
+  const names = new Set(deck.cards.flatMap((c) => [...mediaReferences(c.front), ...mediaReferences(c.back)]));
+  const media = new Map<string, string>();
+  for (const name of names) {
+    const blob = await getMedia(deck.id, name);
+    if (blob) media.set(name, URL.createObjectURL(blob));
+  }
+
+  try {
+    const face = async (card: Flashcard, side: "question" | "answer"): Promise<PdfFace> => {
+      const renderer = rendererFor(card);
+      const text = renderer[side](card);
+      if (isPlainText(text)) return markdownToText(text);
+      const Face = side === "question" ? renderer.Front : renderer.Back;
+      return rasterize(<Face card={card} deckId={deck.id} />, side === "question" ? question : answer, media);
+    };
+
+    const faces: { question: PdfFace; answer: PdfFace }[] = [];
+    for (const card of deck.cards) {
+      faces.push({ question: await face(card, "question"), answer: await face(card, "answer") });
+    }
+    return faces;
+  } finally {
+    media.forEach((url) => URL.revokeObjectURL(url));
+  }
+}
@@ -0,0 +1,141 @@
+import { rendererFor } from "./cardTypes";
+import { markdownToText } from "./markdown";
+import { MEDIA_TOKEN } from "./media";
+import type { Grade } from "./scheduler";
+import type { Flashcard } from "./types";
+
+/**
+ * Quiz modes — typed answers and multiple choice
+ * - Typed answers ignore case, spacing, punctuation, formatting and full-width/half-width forms
+ * - A one- or two-character slip counts as "almost" and is graded Hard
+ * - Multiple-choice distractors come from other cards in the same deck
+ * - Cards whose answer has no text (only an image or sound) are studied by flipping in either quiz mode
+ */
+
+export type StudyModeKind = "flip" | "typed" | "choice";
+
+export type DiffPart = {
+  kind: "same" | "missing" | "extra"; // missing: in the answer but not typed; extra: typed but not in the answer
+  text: string;
+};
+
+export type AnswerCheck = {
+  grade: Grade; // good when it matches, hard when almost, again otherwise
+  expected: string;
+  diff: DiffPart[];
+};
+
+// NFKC folds full-width letters, digits and the ideographic space into their half-width forms
+export const normalizeAnswer = (text: string) =>
+  text
+    .normalize("NFKC")
+    .toLowerCase()
+    .replace(/\p{P}/gu, "")
+    .replace(/\s+/g, " ")
+    .trim();
+
+// The answer (still in Markdown) without image and sound tokens
+export const expectedAnswer = (card: Flashcard) =>
+  rendererFor(card).expected(card).replace(MEDIA_TOKEN, "").replace(/\s+/g, " ").trim();
+
+// What typed answers and options are compared by: no formatting, math as its LaTeX source
+export const answerKey = (answer: string) => normalizeAnswer(markdownToText(answer));
+
+export const hasTextAnswer = (card: Flashcard) => answerKey(expectedAnswer(card)) !== "";
+
+/**
+ * Character diff of `typed` against `expected` from their longest common subsequence.
+ */
+export function diffAnswer(typed: string, expected: string): DiffPart[] {
+  const a = Array.from(typed);
+  const b = Array.from(expected);
+  // lcs[i][j] = length of the LCS of a[i..] and b[j..]
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  const push = (kind: DiffPart["kind"], char: string) => {
+    const last = parts[parts.length - 1];
+    if (last?.kind === kind) last.text += char;
+    else parts.push({ kind, text: char });
+  };
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      push("same", a[i]);
+      i++;
+      j++;
+    } else if (j < b.length && (i === a.length || lcs[i][j + 1] >= lcs[i + 1][j])) {
+      push("missing", b[j++]);
+    } else {
+      push("extra", a[i++]);
+    }
+  }
+  return parts;
+}
+
+function editDistance(a: string, b: string): number {
+  const x = Array.from(a);
+  const y = Array.from(b);
+  let previous = Array.from({ length: y.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= x.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= y.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (x[i - 1] === y[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[y.length];
+}
+
+export function checkTypedAnswer(typed: string, card: Flashcard): AnswerCheck {
+  const expected = expectedAnswer(card);
+  const a = normalizeAnswer(typed);
+  const b = answerKey(expected);
+  const distance = editDistance(a, b);
+  // Short answers must be exact; longer ones tolerate a slip per ten characters, at most two
+  const slack = Math.min(2, Math.floor(Array.from(b).length / 10));
+  const grade: Grade = distance === 0 ? "good" : a && distance <= slack ? "hard" : "again";
+  return { grade, expected, diff: diffAnswer(a, b) };
+}
+
+const shuffle = <T>(items: T[]) => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+/**
+ * Shuffled options for `card`: its answer plus up to `count` distinct answers of other cards,
+ * preferring cards of the same type so cloze gaps compete with cloze gaps.
+ */
+export function choiceOptions(card: Flashcard, cards: Flashcard[], count = 3): string[] {
+  const answer = expectedAnswer(card);
+  const seen = new Set([answerKey(answer)]);
+  const sameType = (c: Flashcard) => (c.type ?? "basic") === (card.type ?? "basic");
+  const others = cards.filter((c) => c.id !== card.id);
+  const candidates = [...shuffle(others.filter(sameType)), ...shuffle(others.filter((c) => !sameType(c)))];
+
+  const distractors: string[] = [];
+  for (const other of candidates) {
+    if (distractors.length === count) break;
+    const text = expectedAnswer(other);
+    const key = answerKey(text);
+    if (!key || seen.has(key)) continue;
+    seen.add(key);
+    distractors.push(text);
+  }
+  return shuffle([answer, ...distractors]);
+}
+
+// Multiple choice needs at least one wrong option for every card
+export const canQuizChoice = (cards: Flashcard[]) =>
+  new Set(cards.map((c) => answerKey(expectedAnswer(c))).filter(Boolean)).size >= 2;
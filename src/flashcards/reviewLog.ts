@@ -0,0 +1,110 @@
+import type { CardState, Grade } from "./scheduler";
+
+/**
+ * Review log — one entry per graded card, kept in localStorage
+ * - Stored per deck and apart from decks, so the decks blob stays small and a review only rewrites its own deck's log
+ * - Entries follow their cards when cards move between decks, and go with them when cards are deleted or reset
+ * - Each deck keeps its whole history up to MAX_ENTRIES_PER_DECK reviews; past that its oldest are dropped
+ *   and the log is marked as trimmed, so the statistics can say which period they cover
+ */
+
+export type ReviewLogEntry = {
+  deckId: string;
+  cardId: string;
+  grade: Grade;
+  reviewedAt: string; // ISO timestamp
+  durationMs: number; // time from showing the card to grading it
+  state: CardState; // before the review
+  nextState: CardState; // after the review
+  interval: number; // days, after the review
+};
+
+export type DeckReviewLog = {
+  entries: ReviewLogEntry[]; // oldest first
+  trimmed: boolean; // older reviews were dropped; entries[0] is the earliest kept
+};
+
+// The deck id is implied by the key
+type StoredEntry = Omit<ReviewLogEntry, "deckId">;
+type StoredLog = { entries: StoredEntry[]; trimmed?: boolean };
+
+// Before logs were split per deck, one array of every deck's entries
+const LEGACY_KEY = "flashcards_reviews";
+const deckKey = (deckId: string) => `flashcards_reviews:${deckId}`;
+
+// Like Anki, a card left on screen counts as at most one minute of study
+export const MAX_REVIEW_MS = 60_000;
+
+// About 1 MB of JSON per deck
+const MAX_ENTRIES_PER_DECK = 5_000;
+
+function migrateLegacyLog() {
+  try {
+    const saved = localStorage.getItem(LEGACY_KEY);
+    if (!saved) return;
+    const byDeck = new Map<string, StoredEntry[]>();
+    (JSON.parse(saved) as ReviewLogEntry[]).forEach(({ deckId, ...entry }) =>
+      byDeck.set(deckId, [...(byDeck.get(deckId) ?? []), entry])
+    );
+    byDeck.forEach((entries, deckId) => saveDeckLog(deckId, { entries, trimmed: false }));
+    localStorage.removeItem(LEGACY_KEY);
+  } catch (error) {
+    console.error('Failed to migrate review log:', error);
+  }
+}
+
+function loadDeckLog(deckId: string): StoredLog {
+  migrateLegacyLog();
+  try {
+    const saved = localStorage.getItem(deckKey(deckId));
+    if (saved) return JSON.parse(saved) as StoredLog;
+  } catch (error) {
+    console.error('Failed to load review log:', error);
+  }
+  return { entries: [] };
+}
+
+function saveDeckLog(deckId: string, log: StoredLog) {
+  const overflow = log.entries.length - MAX_ENTRIES_PER_DECK;
+  const kept: StoredLog = overflow > 0 ? { entries: log.entries.slice(overflow), trimmed: true } : log;
+  try {
+    if (kept.entries.length === 0) localStorage.removeItem(deckKey(deckId));
+    else localStorage.setItem(deckKey(deckId), JSON.stringify(kept));
+  } catch (error) {
+    console.error('Failed to save review log:', error);
+  }
+}
+
+export function logReview({ deckId, ...entry }: ReviewLogEntry) {
+  const log = loadDeckLog(deckId);
+  saveDeckLog(deckId, { ...log, entries: [...log.entries, { ...entry, durationMs: Math.min(entry.durationMs, MAX_REVIEW_MS) }] });
+}
+
+export function deckReviews(deckId: string): DeckReviewLog {
+  const log = loadDeckLog(deckId);
+  return { entries: log.entries.map((entry) => ({ ...entry, deckId })), trimmed: log.trimmed ?? false };
+}
+
+export function deleteDeckReviews(deckId: string) {
+  saveDeckLog(deckId, { entries: [] });
+}
+
+// Deleted cards and cards whose progress was reset start with no history
+export function deleteCardReviews(deckId: string, cardIds: string[]) {
+  const ids = new Set(cardIds);
+  const log = loadDeckLog(deckId);
+  saveDeckLog(deckId, { ...log, entries: log.entries.filter((e) => !ids.has(e.cardId)) });
+}
+
+// Moved cards may be given new ids in the target deck, so map old id → new id
+export function moveCardReviews(fromDeckId: string, toDeckId: string, ids: Map<string, string>) {
+  const from = loadDeckLog(fromDeckId);
+  const to = loadDeckLog(toDeckId);
+  const moved = from.entries.filter((e) => ids.has(e.cardId)).map((e) => ({ ...e, cardId: ids.get(e.cardId)! }));
+  if (moved.length === 0) return;
+  saveDeckLog(fromDeckId, { ...from, entries: from.entries.filter((e) => !ids.has(e.cardId)) });
+  saveDeckLog(toDeckId, {
+    ...to,
+    entries: [...to.entries, ...moved].sort((a, b) => a.reviewedAt.localeCompare(b.reviewedAt))
+  });
+}
@@ -0,0 +1,161 @@
+/**
+ * Flashcard scheduler — SM-2 (Anki variant)
+ * - New cards walk short learning steps before graduating to day intervals
+ * - Again/Hard/Good/Easy grading adjusts interval and ease
+ * - Lapsed reviews drop into relearning and lose ease
+ * - All timestamps are ISO strings so decks survive JSON round-trips
+ */
+
+export type Grade = "again" | "hard" | "good" | "easy";
+
+export const GRADES: Grade[] = ["again", "hard", "good", "easy"];
+
+export type CardState = "new" | "learning" | "review" | "relearning";
+
+export type CardSchedule = {
+  state: CardState;
+  step: number; // index into the active learning/relearning steps
+  interval: number; // days, 0 while the card has never graduated
+  ease: number; // multiplier, 2.5 for a fresh card
+  due: string; // ISO timestamp
+  reps: number;
+  lapses: number;
+  lastReview?: string; // ISO timestamp
+};
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+const LEARNING_STEPS = [1, 10]; // minutes
+const RELEARNING_STEPS = [10]; // minutes
+const GRADUATING_INTERVAL = 1; // days
+const EASY_INTERVAL = 4; // days
+const STARTING_EASE = 2.5;
+const MIN_EASE = 1.3;
+const HARD_FACTOR = 1.2;
+const EASY_BONUS = 1.3;
+const MAX_INTERVAL = 36500;
+
+// Cards due within this window are shown again in the same session
+export const LEARN_AHEAD_MS = 20 * MINUTE;
+
+// A review card at or past this interval counts as mastered
+export const MASTERED_INTERVAL = 21;
+
+export function newSchedule(now: Date = new Date()): CardSchedule {
+  return {
+    state: "new",
+    step: 0,
+    interval: 0,
+    ease: STARTING_EASE,
+    due: now.toISOString(),
+    reps: 0,
+    lapses: 0,
+  };
+}
+
+const addMinutes = (now: Date, minutes: number) => new Date(now.getTime() + minutes * MINUTE).toISOString();
+const addDays = (now: Date, days: number) => new Date(now.getTime() + days * DAY).toISOString();
+const clampInterval = (days: number) => Math.min(MAX_INTERVAL, Math.max(1, Math.round(days)));
+
+// Shared by learning and relearning: walk the steps, graduate past the last one
+function stepCard(
+  schedule: CardSchedule,
+  grade: Grade,
+  steps: number[],
+  graduate: (easy: boolean) => number,
+  now: Date
+): CardSchedule {
+  const next = { ...schedule, reps: schedule.reps + 1, lastReview: now.toISOString() };
+
+  if (grade === "easy") {
+    const interval = graduate(true);
+    return { ...next, state: "review", step: 0, interval, due: addDays(now, interval) };
+  }
+
+  if (grade === "again") {
+    return { ...next, step: 0, due: addMinutes(now, steps[0]) };
+  }
+
+  if (grade === "hard") {
+    // Repeat the current step, halfway towards the next one if there is one
+    const current = steps[Math.min(schedule.step, steps.length - 1)];
+    const following = steps[schedule.step + 1];
+    const delay = following !== undefined ? (current + following) / 2 : current * 1.5;
+    return { ...next, due: addMinutes(now, delay) };
+  }
+
+  // good
+  const nextStep = schedule.step + 1;
+  if (nextStep >= steps.length) {
+    const interval = graduate(false);
+    return { ...next, state: "review", step: 0, interval, due: addDays(now, interval) };
+  }
+  return { ...next, step: nextStep, due: addMinutes(now, steps[nextStep]) };
+}
+
+/**
+ * Returns the schedule after grading a review at `now`.
+ */
+export function review(schedule: CardSchedule, grade: Grade, now: Date = new Date()): CardSchedule {
+  if (schedule.state === "new" || schedule.state === "learning") {
+    const learning = schedule.state === "new" ? { ...schedule, state: "learning" as const, step: 0 } : schedule;
+    return stepCard(learning, grade, LEARNING_STEPS, (easy) => (easy ? EASY_INTERVAL : GRADUATING_INTERVAL), now);
+  }
+
+  if (schedule.state === "relearning") {
+    return stepCard(schedule, grade, RELEARNING_STEPS, (easy) => clampInterval(easy ? schedule.interval + 1 : schedule.interval), now);
+  }
+
+  // review
+  const next = { ...schedule, reps: schedule.reps + 1, lastReview: now.toISOString() };
+  const overdueDays = Math.max(0, (now.getTime() - new Date(schedule.due).getTime()) / DAY);
+
+  if (grade === "again") {
+    const ease = Math.max(MIN_EASE, schedule.ease - 0.2);
+    return {
+      ...next,
+      state: "relearning",
+      step: 0,
+      ease,
+      lapses: schedule.lapses + 1,
+      interval: GRADUATING_INTERVAL,
+      due: addMinutes(now, RELEARNING_STEPS[0]),
+    };
+  }
+
+  let interval: number;
+  let ease = schedule.ease;
+  if (grade === "hard") {
+    ease = Math.max(MIN_EASE, ease - 0.15);
+    interval = schedule.interval * HARD_FACTOR;
+  } else if (grade === "good") {
+    interval = (schedule.interval + overdueDays / 2) * ease;
+  } else {
+    ease = ease + 0.15;
+    interval = (schedule.interval + overdueDays) * ease * EASY_BONUS;
+  }
+  // Every grade above "hard" must move the card further out than the last one
+  interval = clampInterval(Math.max(interval, schedule.interval + (grade === "hard" ? 0 : 1)));
+
+  return { ...next, ease, interval, due: addDays(now, interval) };
+}
+
+export const isDue = (schedule: CardSchedule, now: Date = new Date()) =>
+  new Date(schedule.due).getTime() <= now.getTime();
+
+export const isMastered = (schedule: CardSchedule) =>
+  schedule.state === "review" && schedule.interval >= MASTERED_INTERVAL;
+
+/**
+ * Short human label for how far away a due date is ("10m", "4d", "2mo").
+ */
+export function formatDelay(due: string, now: Date = new Date()): string {
+  const ms = Math.max(0, new Date(due).getTime() - now.getTime());
+  if (ms < 60 * MINUTE) return `${Math.max(1, Math.round(ms / MINUTE))}m`;
+  if (ms < DAY) return `${Math.round(ms / (60 * MINUTE))}h`;
+  const days = ms / DAY;
+  if (days < 30) return `${Math.round(days)}d`;
+  if (days < 365) return `${Math.round(days / 30)}mo`;
+  return `${(days / 365).toFixed(1)}y`;
+}
@@ -0,0 +1,120 @@
+import type { ReviewLogEntry } from "./reviewLog";
+import type { Flashcard } from "./types";
+
+/**
+ * Deck statistics from the review log
+ * - Daily review counts for the heatmap
+ * - Retention: share of reviews of graduated cards that weren't forgotten
+ * - Cumulative count of cards learned (first reached the review state)
+ * - Hardest cards by how often they were forgotten
+ */
+
+export type HeatmapDay = {
+  date: Date;
+  count: number;
+  isFuture: boolean;
+};
+
+export type LearnedPoint = {
+  date: Date;
+  total: number;
+};
+
+export type HardCard = {
+  card: Flashcard;
+  reviews: number;
+  again: number;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Local calendar day, so late-night reviews land on the day the student saw them
+export const dayKey = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+const addDays = (date: Date, days: number) => new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+export function reviewsPerDay(entries: ReviewLogEntry[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  entries.forEach((e) => {
+    const key = dayKey(new Date(e.reviewedAt));
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  });
+  return counts;
+}
+
+/**
+ * `weeks` columns of seven days (Sunday first), ending with the week that contains `today`.
+ */
+export function heatmapWeeks(entries: ReviewLogEntry[], weeks: number, today: Date = new Date()): HeatmapDay[][] {
+  const counts = reviewsPerDay(entries);
+  const end = startOfDay(today);
+  const start = addDays(end, -end.getDay() - (weeks - 1) * 7);
+  return Array.from({ length: weeks }, (_, w) =>
+    Array.from({ length: 7 }, (_, d) => {
+      const date = addDays(start, w * 7 + d);
+      return { date, count: counts.get(dayKey(date)) ?? 0, isFuture: date > end };
+    })
+  );
+}
+
+// Reviews of cards already in the review state that weren't graded Again; null without any
+export function retentionRate(entries: ReviewLogEntry[], since?: Date): number | null {
+  const graduated = entries.filter((e) => e.state === "review" && (!since || new Date(e.reviewedAt) >= since));
+  if (graduated.length === 0) return null;
+  return graduated.filter((e) => e.grade !== "again").length / graduated.length;
+}
+
+// Daily running total of cards that reached the review state for the first time
+export function learnedOverTime(entries: ReviewLogEntry[], today: Date = new Date()): LearnedPoint[] {
+  const learned = new Map<string, string>(); // cardId → day it was learned
+  [...entries]
+    .sort((a, b) => a.reviewedAt.localeCompare(b.reviewedAt))
+    .forEach((e) => {
+      if (e.nextState === "review" && !learned.has(e.cardId)) learned.set(e.cardId, dayKey(new Date(e.reviewedAt)));
+    });
+  if (learned.size === 0) return [];
+
+  const perDay = new Map<string, number>();
+  learned.forEach((day) => perDay.set(day, (perDay.get(day) ?? 0) + 1));
+  // Day keys sort chronologically; "T00:00" without a zone parses as local midnight
+  const first = new Date(`${[...perDay.keys()].sort()[0]}T00:00`);
+  const days = Math.round((startOfDay(today).getTime() - first.getTime()) / DAY_MS);
+
+  let total = 0;
+  return Array.from({ length: days + 1 }, (_, i) => {
+    const date = addDays(first, i);
+    total += perDay.get(dayKey(date)) ?? 0;
+    return { date, total };
+  });
+}
+
+export function hardestCards(entries: ReviewLogEntry[], cards: Flashcard[], limit = 5): HardCard[] {
+  const tally = new Map<string, { reviews: number; again: number }>();
+  entries.forEach((e) => {
+    const t = tally.get(e.cardId) ?? { reviews: 0, again: 0 };
+    t.reviews++;
+    if (e.grade === "again") t.again++;
+    tally.set(e.cardId, t);
+  });
+  return cards
+    .map((card) => ({ card, ...(tally.get(card.id) ?? { reviews: 0, again: 0 }) }))
+    .filter((c) => c.again > 0)
+    .sort((a, b) => b.again - a.again || b.again / b.reviews - a.again / a.reviews || a.card.schedule.ease - b.card.schedule.ease)
+    .slice(0, limit);
+}
+
+// Consecutive days with at least one review, ending today (or yesterday if nothing yet today)
+export function studyStreak(entries: ReviewLogEntry[], today: Date = new Date()): number {
+  const counts = reviewsPerDay(entries);
+  let day = startOfDay(today);
+  if (!counts.has(dayKey(day))) day = addDays(day, -1);
+  let streak = 0;
+  while (counts.has(dayKey(day))) {
+    streak++;
+    day = addDays(day, -1);
+  }
+  return streak;
+}
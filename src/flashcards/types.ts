@@ -0,0 +1,28 @@
+import type { CardSchedule } from "./scheduler";
+
+export type CardType = "basic" | "cloze";
+
+type CardBase = {
+  id: string;
+  front: string;
+  back: string;
+  schedule: CardSchedule;
+};
+
+// Cards saved before card types existed have no `type` and are basic
+export type BasicCard = CardBase & { type?: "basic" };
+
+// One card per deletion: siblings share the note's text (front), extra (back) and noteId
+export type ClozeCard = CardBase & {
+  type: "cloze";
+  noteId: string;
+  cloze: number; // the N in {{cN::...}} this card asks about
+};
+
+export type Flashcard = BasicCard | ClozeCard;
+
+export type Deck = {
+  id: string;
+  name: string;
+  cards: Flashcard[];
+};